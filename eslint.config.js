@@ -39,6 +39,7 @@ export default [
         clearTimeout: 'readonly',
         fetch: 'readonly',
         AbortSignal: 'readonly',
+        Response: 'readonly',
       },
     },
     plugins: {
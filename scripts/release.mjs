@@ -154,6 +154,18 @@ async function release() {
     clack.log.warn('Proceeding anyway...');
   }
 
+  // Refresh the bundled version snapshot so the release ships with current versions
+  const snapshotSpinner = clack.spinner();
+  snapshotSpinner.start('Updating the bundled version snapshot...');
+  try {
+    exec('npm run snapshot', true);
+    snapshotSpinner.stop('✅ Version snapshot updated');
+  } catch (error) {
+    snapshotSpinner.stop('⚠️  Could not update the version snapshot');
+    clack.log.warn(error.message);
+    clack.log.warn('Releasing with the current snapshot...');
+  }
+
   // Step 3: Run tests
   const s2 = clack.spinner();
   s2.start('Running tests...');
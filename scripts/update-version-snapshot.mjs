@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+
+/**
+ * Records the bundled version snapshot (src/utils/versionSnapshot.json) behind --offline
+ * Resolves every devDependency the generators can emit, the Node.js release schedule and LTS lines
+ * and the GitHub Actions majors with the same fetchers as a normal run, using the built dist/api.js.
+ * Anything that can't be fetched keeps its previous entry. The peerDependencies the pinned versions
+ * declare on each other are recorded too, so the tests can check the set is compatible.
+ */
+
+import { execFileSync } from 'child_process';
+import { readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { format, resolveConfig } from 'prettier';
+import {
+  fetchLatestVersions,
+  fetchLatestActionVersions,
+  getAllDevDependencyNames,
+  getNodeLTSVersions,
+  getNodeSchedule,
+} from '../dist/api.js';
+
+const snapshotPath = join(
+  dirname(fileURLToPath(import.meta.url)),
+  '../src/utils/versionSnapshot.json'
+);
+const previous = JSON.parse(readFileSync(snapshotPath, 'utf8'));
+
+// Record what the network says right now, not what an earlier run cached
+process.env.FORGE_NPM_PKG_NO_CACHE = '1';
+
+const names = getAllDevDependencyNames();
+const [versions, node, nodeSchedule, actionVersions] = await Promise.all([
+  fetchLatestVersions(names),
+  getNodeLTSVersions(),
+  // Falls back to the bundled schedule, so a failed fetch keeps the previous one
+  getNodeSchedule(),
+  fetchLatestActionVersions(),
+]);
+
+const packages = {};
+const stale = [];
+for (const name of names) {
+  const result = versions.get(name);
+  if (result && result.version !== 'latest') {
+    packages[name] = result.version.replace(/^\^/, '');
+  } else if (previous.packages[name]) {
+    packages[name] = previous.packages[name];
+  } else {
+    console.error(`Could not resolve ${name}, and it has no previous snapshot entry`);
+    process.exit(1);
+  }
+  if (result?.usedFallback) stale.push(name);
+}
+
+// Only ranges on other snapshot packages; peers outside the set are the user's to install
+const peerDependencies = {};
+for (const name of names) {
+  const args = ['view', `${name}@${packages[name]}`, 'peerDependencies', '--json'];
+  const output = execFileSync('npm', args, { encoding: 'utf8' });
+  const peers = Object.entries(output.trim() ? JSON.parse(output) : {}).filter(([peer]) =>
+    names.includes(peer)
+  );
+  if (peers.length > 0) peerDependencies[name] = Object.fromEntries(peers);
+}
+
+const actions = {};
+for (const [key, result] of actionVersions) {
+  actions[key] = result.version;
+  if (result.usedFallback) stale.push(key);
+}
+
+const snapshot = {
+  generatedAt: new Date().toISOString().slice(0, 10),
+  packages,
+  peerDependencies,
+  node,
+  nodeSchedule,
+  actions,
+};
+// Formatted like the rest of the repo so format:check passes on the committed file
+const prettierOptions = { ...(await resolveConfig(snapshotPath)), filepath: snapshotPath };
+writeFileSync(snapshotPath, await format(JSON.stringify(snapshot, null, 2), prettierOptions));
+
+console.log(`Updated ${snapshotPath}`);
+if (stale.length > 0) {
+  console.warn(`Kept the previous versions of: ${stale.join(', ')}`);
+}
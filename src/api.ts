@@ -0,0 +1,96 @@
+/**
+ * Programmatic API for forge-npm-pkg
+ *
+ * Import from "forge-npm-pkg/api" to scaffold packages from your own code.
+ * Unlike the CLI entry point, importing this module has no side effects:
+ * no argument parsing, no prompts and no update checks.
+ */
+
+export {
+  createProject,
+  generateProjectFiles,
+  generateWorkspaceMemberFiles,
+  type CreateProjectResult,
+  type GeneratedProject,
+  type ResolvedVersions,
+} from './utils/createProject.js';
+
+export { writeFileMap, type FileMap, type GeneratedFile } from './utils/fileMap.js';
+
+export {
+  FEATURES,
+  planFeature,
+  applyFeaturePlan,
+  mergePackageJson,
+  type Feature,
+  type FeaturePlan,
+  type ApplyFeatureResult,
+} from './utils/addFeature.js';
+
+export {
+  planWorkspacePackage,
+  applyWorkspacePackagePlan,
+  type WorkspacePackagePlan,
+} from './utils/addPackage.js';
+
+export {
+  detectProjectConfig,
+  type DetectionResult,
+  type DetectionEvidence,
+} from './utils/projectDetector.js';
+
+export {
+  planUpgrade,
+  applyUpgradePlan,
+  type UpgradePlan,
+  type UpgradeFile,
+  type UpgradeStatus,
+} from './utils/upgrade.js';
+
+export {
+  FORGE_METADATA_FILE,
+  readForgeMetadata,
+  type ForgeMetadata,
+} from './utils/forgeMetadata.js';
+
+export {
+  runDoctor,
+  type DoctorReport,
+  type DoctorCheck,
+  type DoctorIssue,
+} from './utils/doctor.js';
+
+export { validatePackageName } from './utils/packageName.js';
+
+export {
+  fetchLatestVersions,
+  PRERELEASE_TAGS,
+  type FetchOptions,
+  type PrereleaseTag,
+  type VersionResult,
+} from './utils/versionFetcher.js';
+export {
+  getNodeLTSVersions,
+  getNodeSchedule,
+  resolveNodeVersions,
+  NODE_POLICIES,
+  type NodePolicy,
+  type NodeSchedule,
+  type NodeVersionConfig,
+} from './utils/nodeFetcher.js';
+export {
+  SUPPORTED_ACTIONS,
+  fetchLatestActionVersions,
+  type ActionVersionResult,
+} from './utils/actionsFetcher.js';
+export { VERSION_SNAPSHOT, type VersionSnapshot } from './utils/versionSnapshot.js';
+export { getCacheDir, getCacheInfo, clearCache, type CacheInfo } from './utils/fetchCache.js';
+export {
+  configureHttpClient,
+  getHttpClientOptions,
+  HTTP_CLIENT_DEFAULTS,
+  type HttpClientOptions,
+} from './utils/httpClient.js';
+
+// Generators and the ProjectConfig type
+export * from './utils/generators/index.js';
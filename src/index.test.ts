@@ -1,28 +1,5 @@
 import { describe, it, expect } from 'vitest';
-
-/**
- * Helper function to validate package name according to npm rules
- */
-function validatePackageName(name: string): string | undefined {
-  if (!name) return 'Package name is required';
-  if (name.length > 214) {
-    return `Package name must be 214 characters or less`;
-  }
-
-  // Check for scoped package
-  const scopedPackagePattern = /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
-  if (!scopedPackagePattern.test(name)) {
-    return 'Package name must be lowercase and can only contain letters, numbers, hyphens, underscores, and @/ for scoped packages';
-  }
-
-  // Reserved names
-  const reserved = ['node_modules', 'favicon.ico'];
-  if (reserved.includes(name)) {
-    return `"${name}" is a reserved package name`;
-  }
-
-  return undefined;
-}
+import { validatePackageName } from './utils/packageName';
 
 describe('validatePackageName', () => {
   describe('valid names', () => {
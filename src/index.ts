@@ -4,46 +4,75 @@ import { Command } from "commander";
 import * as clack from "@clack/prompts";
 import updateNotifier from "update-notifier";
 import { existsSync } from "fs";
-import { mkdir, writeFile } from "fs/promises";
-import { join } from "path";
+import { join, resolve } from "path";
 import { execSync } from "child_process";
 import {
   type ProjectConfig,
-  generatePackageJson,
-  generateTsConfig,
-  generateTsupConfig,
-  generateEslintConfig,
-  generatePrettierConfig,
-  generateVitestConfig,
-  generateJestConfig,
-  generateReadme,
-  generateGitignore,
-  generateNpmignore,
-  generateEditorConfig,
-  generateRootIndexJs,
-  generateRootIndexMjs,
-  generateRootIndexDts,
-  generateCIWorkflow,
-  generateCDWorkflow,
-  generateDependabotConfig,
-  generateDependabotAutoMergeWorkflow,
-  generateGetTokenScript,
-  generateReleaseScript,
+  getBinName,
+  getMemberDir,
+  execCommand,
+  installCommand,
+  runScript,
+  usesPublishToken,
 } from "./utils/generators/index.js";
+import { createProject, generateProjectFiles } from "./utils/createProject.js";
+import { formatFileTree, fileMapToJson } from "./utils/fileMap.js";
+import {
+  type Feature,
+  FEATURES,
+  planFeature,
+  applyFeaturePlan,
+  mergePackageJson,
+} from "./utils/addFeature.js";
+import { type DetectionResult, detectProjectConfig } from "./utils/projectDetector.js";
+import { planUpgrade, applyUpgradePlan } from "./utils/upgrade.js";
+import { formatUnifiedDiff, resolveMerge } from "./utils/merge.js";
+import { FORGE_METADATA_FILE } from "./utils/forgeMetadata.js";
+import { type DoctorReport, runDoctor } from "./utils/doctor.js";
+import { planWorkspacePackage, applyWorkspacePackagePlan } from "./utils/addPackage.js";
+import { validatePackageName } from "./utils/packageName.js";
+import { VERSION_SNAPSHOT } from "./utils/versionSnapshot.js";
+import { type PrereleaseTag, PRERELEASE_TAGS } from "./utils/versionFetcher.js";
+import { getCacheInfo, clearCache } from "./utils/fetchCache.js";
+import { configureHttpClient } from "./utils/httpClient.js";
+import {
+  getScopeRegistry,
+  isDefaultRegistry,
+  readNpmrc,
+  validateRegistryUrl,
+} from "./utils/npmrc.js";
 import {
   readUserConfig,
   writeUserConfig,
   resetUserConfig,
   getConfigPath,
+  hasStoredAuthor,
 } from "./utils/userConfig.js";
+import {
+  type VersionPolicy,
+  describeVersionPolicy,
+  mergeVersionPolicies,
+} from "./utils/versionPolicy.js";
 import { readGitConfig, formatGitConfig } from "./utils/gitConfig.js";
-import { fetchLatestActionVersions } from "./utils/actionsFetcher.js";
 import {
   isGhCliReady,
   doesRepoExist,
   createGitHubRepo,
   getManualRepoCommand,
 } from "./utils/ghCli.js";
+import {
+  type CliFlags,
+  type GitHubRepoChoice,
+  type PresetAnswers,
+  parseCliFlags,
+  resolvePresets,
+  applyDefaults,
+} from "./utils/cliOptions.js";
+import {
+  loadAnswersFile,
+  saveAnswersFile,
+  validateVersionPolicy,
+} from "./utils/answersFile.js";
 import { readFileSync } from "fs";
 import { fileURLToPath } from "url";
 import { dirname } from "path";
@@ -64,7 +93,17 @@ const notifier = updateNotifier({
 
 // Constants
 const INITIAL_COMMIT_MESSAGE = "chore: initial commit";
-const NPM_NAME_MAX_LENGTH = 214;
+const PUBLISH_AUTH_LABELS = {
+  token: "NPM_TOKEN",
+  provenance: "NPM_TOKEN + provenance",
+  oidc: "trusted publishing",
+} as const;
+const RELEASE_STRATEGY_LABELS = {
+  script: "release script",
+  changesets: "Changesets",
+  "semantic-release": "semantic-release",
+  "release-please": "release-please",
+} as const;
 
 /**
  * Helper function to handle cancellation
@@ -81,36 +120,149 @@ function handleCancel<T>(
 }
 
 /**
- * Validates package name according to npm rules
+ * Colors unified diff output for the terminal
+ */
+function colorizeDiff(diff: string): string {
+  return diff
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("+++") || line.startsWith("---")) return `\x1b[1m${line}\x1b[0m`;
+      if (line.startsWith("@@")) return `\x1b[36m${line}\x1b[0m`;
+      if (line.startsWith("+")) return `\x1b[32m${line}\x1b[0m`;
+      if (line.startsWith("-")) return `\x1b[31m${line}\x1b[0m`;
+      return line;
+    })
+    .join("\n");
+}
+
+/**
+ * `add package <name>`: generates a new workspace member
  */
-function validatePackageName(name: string): string | undefined {
-  if (!name) return "Package name is required";
-  if (name.length > NPM_NAME_MAX_LENGTH) {
-    return `Package name must be ${NPM_NAME_MAX_LENGTH} characters or less`;
+async function addWorkspacePackage(
+  name: string | undefined,
+  rootDir: string,
+  options: AddCommandOptions
+): Promise<void> {
+  clack.intro(`📦 Add package ${name ?? ""}`);
+
+  if (!name) {
+    clack.cancel("Missing package name. Usage: forge-npm-pkg add package <name>");
+    process.exit(1);
   }
 
-  // Check for scoped package
-  const scopedPackagePattern =
-    /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
-  if (!scopedPackagePattern.test(name)) {
-    return "Package name must be lowercase and can only contain letters, numbers, hyphens, underscores, and @/ for scoped packages";
+  const projectKind = options.projectKind?.toLowerCase();
+  if (projectKind !== undefined && projectKind !== "library" && projectKind !== "cli") {
+    clack.cancel(
+      `Invalid value for --project-kind: "${options.projectKind}". Expected one of: library, cli`
+    );
+    process.exit(1);
   }
 
-  // Reserved names
-  const reserved = ["node_modules", "favicon.ico"];
-  if (reserved.includes(name)) {
-    return `"${name}" is a reserved package name`;
+  const policy = readStoredVersionPolicy();
+  const prereleaseTags = readPrereleaseOption(options.allowPrerelease);
+
+  try {
+    const spinner = clack.spinner();
+    spinner.start(resolvingVersionsMessage(options.offline));
+    const { plan, errors } = await planWorkspacePackage(name, rootDir, {
+      projectKind,
+      offline: options.offline,
+      registry: options.registry,
+      policy,
+      prereleaseTags,
+    });
+    spinner.stop(plan ? "✓ Package generated" : "✗ Cannot add package");
+
+    if (!plan) {
+      for (const error of errors) {
+        clack.log.error(error);
+      }
+      clack.cancel("Nothing was changed");
+      process.exit(1);
+    }
+
+    if (plan.warnings.length > 0) {
+      clack.note(plan.warnings.join("\n\n"), "⚠️  Package Version Warnings");
+    }
+
+    if (options.dryRun) {
+      clack.log.info(formatFileTree([...plan.files.keys()], plan.dir));
+      clack.outro("✨ Dry run complete!");
+      return;
+    }
+
+    const { written } = await applyWorkspacePackagePlan(plan, rootDir);
+    clack.log.success(`Created ${written.length} files in ${plan.dir}`);
+    clack.outro(
+      `✨ Done! Run "${plan.config.packageManager ?? "npm"} install" to link the new package.`
+    );
+  } catch (error) {
+    clack.cancel("An error occurred");
+    console.error(error);
+    process.exit(1);
   }
+}
 
-  return undefined;
+/**
+ * Spinner text while package versions are resolved
+ */
+function resolvingVersionsMessage(offline?: boolean): string {
+  return offline
+    ? `Resolving versions from the bundled snapshot (${VERSION_SNAPSHOT.generatedAt})...`
+    : "Fetching latest package versions from npm...";
+}
+
+/**
+ * Exits when a --registry value is not an http(s) URL
+ */
+function checkRegistryOption(registry: string | undefined): void {
+  if (registry !== undefined && validateRegistryUrl(registry)) {
+    clack.cancel(`Invalid value for --registry: "${registry}". Expected an http(s) URL`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Dist-tags for --allow-prerelease; the bare flag allows both, preferring next
+ * Exits when the value is not a known tag
+ */
+function readPrereleaseOption(value: string | boolean | undefined): PrereleaseTag[] | undefined {
+  if (value === undefined || value === false) return undefined;
+  if (value === true) return [...PRERELEASE_TAGS];
+
+  const tag = value.toLowerCase() as PrereleaseTag;
+  if (!PRERELEASE_TAGS.includes(tag)) {
+    clack.cancel(
+      `Invalid value for --allow-prerelease: "${value}". Expected one of: ${PRERELEASE_TAGS.join(", ")}`
+    );
+    process.exit(1);
+  }
+  return [tag];
 }
 
 /**
- * Check if package name is available on npm
+ * versionPolicy from the user config; exits when it doesn't match the schema
  */
-async function checkPackageAvailability(packageName: string): Promise<boolean> {
+function readStoredVersionPolicy(): VersionPolicy | undefined {
+  const policy = readUserConfig()?.versionPolicy;
+  const errors = policy === undefined ? [] : validateVersionPolicy(policy, getConfigPath());
+  if (errors.length > 0) {
+    for (const error of errors) {
+      clack.log.error(error);
+    }
+    clack.cancel("Invalid versionPolicy");
+    process.exit(1);
+  }
+  return policy;
+}
+
+/**
+ * Check if package name is available on npm (or the registry it will be published to)
+ */
+async function checkPackageAvailability(packageName: string, registry?: string): Promise<boolean> {
   try {
-    execSync(`npm view ${packageName}`, { stdio: "pipe" });
+    const registryFlag = registry ? ` --registry ${JSON.stringify(registry)}` : "";
+    execSync(`npm view ${packageName}${registryFlag}`, { stdio: "pipe" });
     return false; // Package exists
   } catch {
     return true; // Package doesn't exist (404)
@@ -122,17 +274,105 @@ const program = new Command();
 program
   .name("forge-npm-pkg")
   .description("Scaffold a production-ready npm package")
+  // Let subcommands (add, upgrade) own options like --dry-run
+  .enablePositionalOptions()
   .argument("[package-name]", "Name of the package to create")
   .option("--dry-run", "Show what would be generated without creating files")
+  .option("--show <path>", "Print the exact contents of one generated file (implies --dry-run)")
+  .option("--out-json", "Print every generated file as JSON (implies --dry-run)")
   .option("--skip-install", "Skip dependency installation")
+  .option("--offline", "Use the bundled version snapshot instead of fetching versions")
+  .option(
+    "--registry <url>",
+    "Registry to fetch versions from and publish to (defaults to your .npmrc)"
+  )
+  .option(
+    "--allow-prerelease [tag]",
+    "Use the next or beta dist-tag when it is newer than latest (both if no tag is given)"
+  )
+  .option("--verbose", "Log every network request with its status and timing")
   .option(
     "--no-save",
     "Don't offer to save user information for future projects"
   )
   .option("--reset-config", "Reset stored user configuration")
   .option("--config", "Show current stored configuration")
-  .action(async (packageName?: string, options?: { dryRun?: boolean; skipInstall?: boolean; noSave?: boolean; resetConfig?: boolean; config?: boolean }) => {
-    console.clear();
+  .option("-y, --yes", "Skip all prompts and use defaults for anything not set by flags")
+  .option("--project-kind <kind>", "Project kind: library | cli")
+  .option("--workspace", "Create a monorepo with the package under packages/")
+  .option("--no-workspace", "Create a single package")
+  .option("--language <language>", "Language: typescript | javascript")
+  .option("--module-type <type>", "Module format: esm | commonjs | dual")
+  .option("--test-runner <runner>", "Test runner: vitest | jest | none")
+  .option("--lint", "Set up ESLint + Prettier")
+  .option("--no-lint", "Skip ESLint + Prettier")
+  .option("--git", "Initialize a git repository")
+  .option("--no-git", "Don't initialize a git repository")
+  .option("--ci", "Set up GitHub Actions CI")
+  .option("--no-ci", "Skip GitHub Actions CI")
+  .option("--cd", "Set up automated npm publishing (requires CI)")
+  .option("--no-cd", "Skip automated npm publishing")
+  .option("--publish-auth <mode>", "How CD authenticates to npm: token | provenance | oidc")
+  .option(
+    "--release-strategy <strategy>",
+    "How releases are cut: script | changesets | semantic-release | release-please"
+  )
+  .option("--codecov", "Upload coverage to Codecov (requires CI and tests)")
+  .option("--no-codecov", "Skip Codecov")
+  .option("--dependabot", "Set up Dependabot (requires CI)")
+  .option("--no-dependabot", "Skip Dependabot")
+  .option("--pm <manager>", "Package manager: npm | pnpm | yarn | bun")
+  .option("--description <text>", "Package description")
+  .option("--author <name>", "Author name")
+  .option("--author-email <email>", "Author email")
+  .option("--github-username <username>", "GitHub username")
+  .option("--github-repo <visibility>", "Create a GitHub repository: public | private | skip")
+  .option("--from <file>", "Load answers from a JSON or YAML answers file")
+  .option("--save-answers <file>", "Write the answers from this run to a JSON or YAML file")
+  .action(async (packageName?: string, options?: CliFlags) => {
+    const flags = options ?? {};
+    const nonInteractive = flags.yes === true;
+    if (flags.verbose) configureHttpClient({ verbose: true });
+
+    // --show and --out-json print machine-readable output on stdout,
+    // so the banner, prompts and logs move to stderr for this run
+    const writeOutput = process.stdout.write.bind(process.stdout);
+    if (flags.show !== undefined || flags.outJson) {
+      process.stdout.write = process.stderr.write.bind(process.stderr);
+    }
+    const flagResult = parseCliFlags(flags);
+    const fileResult = flags.from
+      ? await loadAnswersFile(flags.from)
+      : { answers: {}, errors: [] };
+
+    // Flags take precedence over the answers file
+    const { answers: presets, errors: combinationErrors } = resolvePresets({
+      ...fileResult.answers,
+      ...flagResult.answers,
+    });
+    const presetErrors = [
+      ...fileResult.errors,
+      ...flagResult.errors,
+      ...combinationErrors,
+    ];
+
+    /**
+     * Resolves an answer from flags, --yes defaults, or an interactive prompt (in that order)
+     */
+    async function ask<T>(
+      preset: T | undefined,
+      fallback: T,
+      prompt: () => Promise<T | symbol>
+    ): Promise<T> {
+      if (preset !== undefined) return preset;
+      if (nonInteractive) return fallback;
+      return handleCancel(await prompt());
+    }
+
+    // Keep earlier output visible when driven by scripts
+    if (!nonInteractive) {
+      console.clear();
+    }
 
     // Display logo banner
     console.log(
@@ -156,7 +396,10 @@ program
     console.log(`\x1b[90mVersion: v${VERSION}\x1b[0m\n`);
 
     // Check for updates BEFORE starting the workflow
-    if (notifier.update) {
+    if (notifier.update && nonInteractive) {
+      const { current, latest } = notifier.update;
+      clack.log.warn(`Update available: ${current} → ${latest}`);
+    } else if (notifier.update) {
       const { current, latest } = notifier.update;
 
       clack.note(
@@ -205,14 +448,51 @@ program
       process.exit(0);
     }
 
+    /**
+     * Writes the collected answers when --save-answers is passed
+     */
+    async function writeAnswers(answers: PresetAnswers): Promise<void> {
+      if (!flags.saveAnswers) return;
+      try {
+        await saveAnswersFile(flags.saveAnswers, answers);
+        clack.log.success(`✓ Answers saved to ${flags.saveAnswers}`);
+      } catch (error) {
+        clack.log.warn(
+          `Failed to save answers: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    }
+
+    // Reject invalid flags or answers up front instead of falling back to prompts
+    if (presetErrors.length > 0) {
+      for (const error of presetErrors) {
+        clack.log.error(error);
+      }
+      clack.cancel("Invalid options");
+      process.exit(1);
+    }
+
+    // The answers file refines the policy stored in the user config
+    const versionPolicy = mergeVersionPolicies(readStoredVersionPolicy(), presets.versionPolicy);
+    const prereleaseTags = readPrereleaseOption(flags.allowPrerelease);
+
     try {
-      const isDryRun = options?.dryRun || false;
-      const skipInstall = options?.skipInstall || false;
+      const isDryRun = flags.dryRun || flags.show !== undefined || flags.outJson || false;
 
       // Step 1: Get or confirm package name
-      let finalPackageName = packageName;
-
-      if (!finalPackageName) {
+      let finalPackageName = packageName ?? presets.packageName;
+
+      if (nonInteractive) {
+        const nameError = finalPackageName
+          ? validatePackageName(finalPackageName)
+          : "Package name is required when using --yes (pass it as an argument or in --from)";
+        if (nameError || !finalPackageName) {
+          clack.cancel(nameError);
+          process.exit(1);
+        }
+      } else if (!finalPackageName) {
         const nameInput = handleCancel(
           await clack.text({
             message: "What is your package name?",
@@ -221,7 +501,8 @@ program
           })
         );
         finalPackageName = nameInput;
-      } else {
+      } else if (packageName) {
+        // Names coming from an answers file are not re-confirmed
         const confirmed = handleCancel(
           await clack.confirm({
             message: `Create package "${packageName}"?`,
@@ -233,22 +514,39 @@ program
         }
       }
 
-      // Check package name availability
+      // Publish registry: --registry or the answers file, then the scope's registry in .npmrc
+      const registry = presets.registry ?? getScopeRegistry(finalPackageName, readNpmrc());
+      if (!isDefaultRegistry(registry) && !presets.registry) {
+        if (presets.publishAuth === "provenance" || presets.publishAuth === "oidc") {
+          clack.cancel(
+            `--publish-auth ${presets.publishAuth} requires the public npm registry, but .npmrc publishes this scope to ${registry}`
+          );
+          process.exit(1);
+        }
+        clack.log.info(`Publishing to ${registry} (scope registry from .npmrc)`);
+      }
+
+      // Check package name availability (needs the registry, so skipped offline)
       let spinner = clack.spinner();
-      spinner.start("Checking package name availability on npm");
-      const isAvailable = await checkPackageAvailability(finalPackageName);
-      spinner.stop(
-        isAvailable
-          ? "✓ Package name is available"
-          : "⚠ Package name already exists on npm"
-      );
+      let isAvailable = true;
+      if (flags.offline) {
+        clack.log.info("Offline: skipping the npm package name check");
+      } else {
+        spinner.start("Checking package name availability on npm");
+        isAvailable = await checkPackageAvailability(finalPackageName, registry);
+        spinner.stop(
+          isAvailable
+            ? "✓ Package name is available"
+            : "⚠ Package name already exists on npm"
+        );
+      }
 
       if (!isAvailable) {
         clack.log.warn(
           `The package "${finalPackageName}" already exists on npm. You can still create it locally, but you won't be able to publish it with this name.`
         );
-        const continueAnyway = handleCancel(
-          await clack.confirm({
+        const continueAnyway = await ask(undefined, true, () =>
+          clack.confirm({
             message: "Continue anyway?",
             initialValue: false,
           })
@@ -266,6 +564,14 @@ program
         process.exit(1);
       }
 
+      // Defaults used for anything not answered when running with --yes
+      const defaults = applyDefaults(presets, {
+        packageName: finalPackageName,
+        packageManager: detectPackageManager(),
+      });
+
+      let projectKind: "library" | "cli";
+      let workspace: boolean;
       let language: "typescript" | "javascript";
       let moduleType: "esm" | "commonjs" | "dual";
       let testRunner: "vitest" | "jest" | "none";
@@ -273,13 +579,32 @@ program
       let initGit: boolean;
       let setupCI: boolean;
       let setupCD: boolean;
+      let publishAuth: "token" | "provenance" | "oidc" | undefined;
+      let releaseStrategy: NonNullable<ProjectConfig["releaseStrategy"]> | undefined;
       let useCodecov: boolean;
       let useDependabot: boolean;
 
       // Step 2: Configuration - ask questions
+      projectKind = (await ask(presets.projectKind, defaults.projectKind ?? "library", () =>
+        clack.select({
+          message: "What are you building?",
+          options: [
+            { value: "library", label: "Library", hint: "Imported by other packages" },
+            { value: "cli", label: "CLI", hint: "Command-line tool with a bin entry" },
+          ],
+        })
+      )) as "library" | "cli";
+
+      workspace = await ask(presets.workspace, defaults.workspace ?? false, () =>
+        clack.confirm({
+          message: "Create a monorepo? (workspace root with the package under packages/)",
+          initialValue: false,
+        })
+      );
+
       // TypeScript is the default (first option)
-      language = handleCancel(
-        await clack.select({
+      language = (await ask(presets.language, defaults.language, () =>
+        clack.select({
           message: "Which language?",
           options: [
             {
@@ -294,10 +619,10 @@ program
             },
           ],
         })
-      ) as "typescript" | "javascript";
+      )) as "typescript" | "javascript";
 
       // Warn if JavaScript is selected
-      if (language === "javascript") {
+      if (language === "javascript" && !nonInteractive) {
         clack.note(
           "JavaScript packages won't have type definitions.\n" +
             "Consider using TypeScript for better IDE support and type safety.",
@@ -305,11 +630,11 @@ program
         );
       }
 
-      // Always use dual format for maximum compatibility
-      moduleType = "dual";
+      // Always use dual format for maximum compatibility (unless --module-type is passed)
+      moduleType = presets.moduleType ?? "dual";
 
-      testRunner = handleCancel(
-        await clack.select({
+      testRunner = (await ask(presets.testRunner, defaults.testRunner, () =>
+        clack.select({
           message: "Which test runner?",
           options: [
             { value: "vitest", label: "Vitest", hint: "Fast & modern" },
@@ -317,96 +642,155 @@ program
             { value: "none", label: "None" },
           ],
         })
-      ) as "vitest" | "jest" | "none";
+      )) as "vitest" | "jest" | "none";
 
-      useLinting = handleCancel(
-        await clack.confirm({
+      useLinting = await ask(presets.useLinting, defaults.useLinting, () =>
+        clack.confirm({
           message: "Initialize ESLint + Prettier?",
           initialValue: true,
         })
       );
 
-      initGit = handleCancel(
-        await clack.confirm({
+      initGit = await ask(presets.initGit, defaults.initGit, () =>
+        clack.confirm({
           message: "Initialize a new git repository?",
           initialValue: false,
         })
       );
 
       // Ask about CI/CD setup
-      setupCI = handleCancel(
-        await clack.confirm({
+      setupCI = await ask(presets.setupCI, defaults.setupCI ?? false, () =>
+        clack.confirm({
           message: "Set up GitHub Actions CI? (runs tests on every push/PR)",
           initialValue: testRunner !== "none",
         })
       );
 
       if (setupCI) {
-        // Show CD information BEFORE asking
-        clack.note(
-          "Automated publishing using GitHub Actions.\n\n" +
-            "Benefits:\n" +
-            "• Automatically publishes to npm when you create a GitHub release\n" +
-            "• Runs tests before publishing\n" +
-            "• No manual npm publish needed\n\n" +
-            "How it works:\n" +
-            "1. Update version: npm version patch/minor/major\n" +
-            "2. Push: git push && git push --tags\n" +
-            "3. Create GitHub release → automatically publishes to npm\n\n" +
-            "Recommended: Skip for beginners (can set up later)\n" +
-            "Requires: NPM_TOKEN secret in GitHub repository",
-          "Automated Publishing (CD)"
-        );
+        // The CD workflow publishes a single package, so workspaces skip the question
+        const cdPreset = workspace ? false : presets.setupCD;
+        setupCD = await ask(cdPreset, defaults.setupCD ?? false, () => {
+          // Show CD information BEFORE asking
+          clack.note(
+            "Automated publishing using GitHub Actions.\n\n" +
+              "Benefits:\n" +
+              "• Automatically publishes to npm when you create a GitHub release\n" +
+              "• Runs tests before publishing\n" +
+              "• No manual npm publish needed\n\n" +
+              "How it works:\n" +
+              "1. Update version: npm version patch/minor/major\n" +
+              "2. Push: git push && git push --tags\n" +
+              "3. Create GitHub release → automatically publishes to npm\n\n" +
+              "Recommended: Skip for beginners (can set up later)\n" +
+              "Requires: an NPM_TOKEN secret or npm trusted publishing (asked next)",
+            "Automated Publishing (CD)"
+          );
 
-        setupCD = handleCancel(
-          await clack.confirm({
+          return clack.confirm({
             message: "Set up automated publishing to npm? (CD workflow)",
             initialValue: false,
-          })
-        );
+          });
+        });
+
+        if (setupCD) {
+          // Provenance and trusted publishing only exist on the public npm registry
+          publishAuth = !isDefaultRegistry(registry)
+            ? "token"
+            : ((await ask(presets.publishAuth, defaults.publishAuth ?? "token", () =>
+                clack.select({
+                  message: "How should the workflow authenticate to npm?",
+                  options: [
+                    { value: "token", label: "Token", hint: "NPM_TOKEN repository secret" },
+                    {
+                      value: "provenance",
+                      label: "Token + provenance",
+                      hint: "Signed build provenance on npmjs.com",
+                    },
+                    {
+                      value: "oidc",
+                      label: "Trusted publishing (OIDC)",
+                      hint: "No secrets; configure the workflow on npmjs.com",
+                    },
+                  ],
+                  initialValue: "token",
+                })
+              )) as "token" | "provenance" | "oidc");
+
+          releaseStrategy = (await ask(
+            presets.releaseStrategy,
+            defaults.releaseStrategy ?? "script",
+            () =>
+              clack.select({
+                message: "How do you want to cut releases?",
+                options: [
+                  {
+                    value: "script",
+                    label: "Release script",
+                    hint: "npm run release bumps, tags and creates the GitHub release",
+                  },
+                  {
+                    value: "changesets",
+                    label: "Changesets",
+                    hint: "Changeset files per PR, a version PR, publish on merge",
+                  },
+                  {
+                    value: "semantic-release",
+                    label: "semantic-release",
+                    hint: "Versions from conventional commits, enforced by commitlint",
+                  },
+                  {
+                    value: "release-please",
+                    label: "release-please",
+                    hint: "A release PR from conventional commits, publish on merge",
+                  },
+                ],
+                initialValue: "script",
+              })
+          )) as NonNullable<ProjectConfig["releaseStrategy"]>;
+        }
 
         // Ask about Codecov only if tests are configured
         if (testRunner !== "none") {
-          clack.note(
-            "Codecov tracks test coverage over time and shows coverage in PRs.\n\n" +
-              "Benefits:\n" +
-              "• Visualize coverage trends with graphs and badges\n" +
-              "• See coverage changes in pull requests\n" +
-              "• Identify untested code paths\n\n" +
-              "Recommended: Skip for beginners (can be added later)\n" +
-              "Requires: CODECOV_TOKEN secret in GitHub repository",
-            "Test Coverage Tracking"
-          );
+          useCodecov = await ask(presets.useCodecov, defaults.useCodecov ?? false, () => {
+            clack.note(
+              "Codecov tracks test coverage over time and shows coverage in PRs.\n\n" +
+                "Benefits:\n" +
+                "• Visualize coverage trends with graphs and badges\n" +
+                "• See coverage changes in pull requests\n" +
+                "• Identify untested code paths\n\n" +
+                "Recommended: Skip for beginners (can be added later)\n" +
+                "Requires: CODECOV_TOKEN secret in GitHub repository",
+              "Test Coverage Tracking"
+            );
 
-          useCodecov = handleCancel(
-            await clack.confirm({
+            return clack.confirm({
               message: "Upload test coverage to Codecov?",
               initialValue: false,
-            })
-          );
+            });
+          });
         } else {
           useCodecov = false; // No tests, no coverage
         }
 
         // Ask about Dependabot (always available if CI is enabled)
-        clack.note(
-          "Dependabot automatically creates PRs to update dependencies.\n\n" +
-            "Benefits:\n" +
-            "• Keep dependencies up-to-date automatically\n" +
-            "• Get security vulnerability alerts and fixes\n" +
-            "• Reduce maintenance burden\n" +
-            "• Configure update frequency (daily/weekly/monthly)\n\n" +
-            "Recommended: Skip for beginners (can add noise with many PRs)\n" +
-            "Note: Free for all GitHub repositories, no secrets needed",
-          "Automated Dependency Updates"
-        );
+        useDependabot = await ask(presets.useDependabot, defaults.useDependabot ?? false, () => {
+          clack.note(
+            "Dependabot automatically creates PRs to update dependencies.\n\n" +
+              "Benefits:\n" +
+              "• Keep dependencies up-to-date automatically\n" +
+              "• Get security vulnerability alerts and fixes\n" +
+              "• Reduce maintenance burden\n" +
+              "• Configure update frequency (daily/weekly/monthly)\n\n" +
+              "Recommended: Skip for beginners (can add noise with many PRs)\n" +
+              "Note: Free for all GitHub repositories, no secrets needed",
+            "Automated Dependency Updates"
+          );
 
-        useDependabot = handleCancel(
-          await clack.confirm({
+          return clack.confirm({
             message: "Set up Dependabot for automated dependency updates?",
             initialValue: false,
-          })
-        );
+          });
+        });
       } else {
         setupCD = false;
         useCodecov = false; // No CI, no Codecov
@@ -421,91 +805,72 @@ program
       let shouldSaveConfig = false;
 
       description =
-        handleCancel(
-          await clack.text({
+        (await ask(presets.description, "", () =>
+          clack.text({
             message: "Package description (optional):",
             placeholder: "A brief description of your package",
             defaultValue: "",
           })
-        ) || undefined;
+        )) || undefined;
 
-        // Try to load from stored config first
-        const storedConfig = readUserConfig();
+      // Try to load from stored config first
+      const userConfig = readUserConfig();
+      const storedConfig = hasStoredAuthor(userConfig) ? userConfig : null;
+      const gitConfig = storedConfig ? null : readGitConfig();
 
-        if (storedConfig) {
-          // Use stored configuration
-          author = storedConfig.author;
-          authorEmail = storedConfig.email;
-          githubUsername = storedConfig.github;
+      // Author info passed as flags always wins over stored or git values
+      const hasAuthorFlags =
+        presets.author !== undefined ||
+        presets.authorEmail !== undefined ||
+        presets.githubUsername !== undefined;
 
-          clack.log.info(
-            `Using stored author info: ${storedConfig.author || ""}${
-              storedConfig.email ? ` <${storedConfig.email}>` : ""
-            }`
+      if (storedConfig) {
+        // Use stored configuration
+        author = presets.author ?? storedConfig.author;
+        authorEmail = presets.authorEmail ?? storedConfig.email;
+        githubUsername = presets.githubUsername ?? storedConfig.github;
+
+        clack.log.info(
+          `Using stored author info: ${author || ""}${
+            authorEmail ? ` <${authorEmail}>` : ""
+          }`
+        );
+      } else if (nonInteractive) {
+        // No prompts: fall back to git config for anything not passed as a flag
+        author = presets.author ?? gitConfig?.name;
+        authorEmail = presets.authorEmail ?? gitConfig?.email;
+        githubUsername = presets.githubUsername;
+      } else {
+        if (gitConfig && (gitConfig.name || gitConfig.email) && !hasAuthorFlags) {
+          // Git config found, ask if user wants to use it
+          const useGitConfig = handleCancel(
+            await clack.confirm({
+              message: `Use git config: ${formatGitConfig(gitConfig)}?`,
+              initialValue: true,
+            })
           );
-        } else {
-          // Try to read from git config
-          const gitConfig = readGitConfig();
-
-          if (gitConfig && (gitConfig.name || gitConfig.email)) {
-            // Git config found, ask if user wants to use it
-            const useGitConfig = handleCancel(
-              await clack.confirm({
-                message: `Use git config: ${formatGitConfig(gitConfig)}?`,
-                initialValue: true,
-              })
-            );
 
-            if (useGitConfig) {
-              author = gitConfig.name;
-              authorEmail = gitConfig.email;
-
-              // Only ask for GitHub username
-              githubUsername =
-                handleCancel(
-                  await clack.text({
-                    message: "GitHub username (optional):",
-                    placeholder: "yourusername",
-                    defaultValue: "",
-                  })
-                ) || undefined;
-            } else {
-              // User declined git config, ask all fields but pre-fill with git values
-              author =
-                handleCancel(
-                  await clack.text({
-                    message: "Author name (optional):",
-                    placeholder: "Your Name",
-                    defaultValue: gitConfig.name || "",
-                  })
-                ) || undefined;
-
-              authorEmail =
-                handleCancel(
-                  await clack.text({
-                    message: "Author email (optional):",
-                    placeholder: "your.email@example.com",
-                    defaultValue: gitConfig.email || "",
-                  })
-                ) || undefined;
-
-              githubUsername =
-                handleCancel(
-                  await clack.text({
-                    message: "GitHub username (optional):",
-                    placeholder: "yourusername",
-                    defaultValue: "",
-                  })
-                ) || undefined;
-            }
+          if (useGitConfig) {
+            author = gitConfig.name;
+            authorEmail = gitConfig.email;
+
+            // Only ask for GitHub username
+            githubUsername =
+              handleCancel(
+                await clack.text({
+                  message: "GitHub username (optional):",
+                  placeholder: "yourusername",
+                  defaultValue: "",
+                })
+              ) || undefined;
           } else {
-            // No git config found, ask all fields
+            // User declined git config, ask all fields but pre-fill with git values
             author =
               handleCancel(
                 await clack.text({
                   message: "Author name (optional):",
                   placeholder: "Your Name",
-                  defaultValue: "",
+                  defaultValue: gitConfig.name || "",
                 })
               ) || undefined;
 
@@ -514,7 +879,7 @@ program
                 await clack.text({
                   message: "Author email (optional):",
                   placeholder: "your.email@example.com",
-                  defaultValue: "",
+                  defaultValue: gitConfig.email || "",
                 })
               ) || undefined;
 
@@ -527,45 +892,79 @@ program
                 })
               ) || undefined;
           }
-
-          // Ask if user wants to save for future projects (only if not already stored and --no-save not specified)
-          if (
-            !storedConfig &&
-            !options?.noSave &&
-            (author || authorEmail || githubUsername)
-          ) {
-            shouldSaveConfig = handleCancel(
-              await clack.confirm({
-                message: "Save this information for future projects?",
-                initialValue: true,
+        } else {
+          // No git config found (or some author flags passed), ask the remaining fields
+          author =
+            (await ask(presets.author, "", () =>
+              clack.text({
+                message: "Author name (optional):",
+                placeholder: "Your Name",
+                defaultValue: gitConfig?.name || "",
               })
-            );
+            )) || undefined;
+
+          authorEmail =
+            (await ask(presets.authorEmail, "", () =>
+              clack.text({
+                message: "Author email (optional):",
+                placeholder: "your.email@example.com",
+                defaultValue: gitConfig?.email || "",
+              })
+            )) || undefined;
+
+          githubUsername =
+            (await ask(presets.githubUsername, "", () =>
+              clack.text({
+                message: "GitHub username (optional):",
+                placeholder: "yourusername",
+                defaultValue: "",
+              })
+            )) || undefined;
+        }
 
-            if (shouldSaveConfig) {
-              clack.note(
-                `Configuration will be saved to:\n${getConfigPath()}`,
-                "Info"
-              );
-            }
+        // Ask if user wants to save for future projects (only if not already stored and --no-save not specified)
+        if (
+          !storedConfig &&
+          flags.save !== false &&
+          (author || authorEmail || githubUsername)
+        ) {
+          shouldSaveConfig = handleCancel(
+            await clack.confirm({
+              message: "Save this information for future projects?",
+              initialValue: true,
+            })
+          );
+
+          if (shouldSaveConfig) {
+            clack.note(
+              `Configuration will be saved to:\n${getConfigPath()}`,
+              "Info"
+            );
           }
         }
+      }
 
       // Step 4: Package manager selection
-      const packageManager = handleCancel(
-        await clack.select({
-          message: "Which package manager?",
-          options: [
-            { value: "npm", label: "npm" },
-            { value: "pnpm", label: "pnpm", hint: "Faster, efficient" },
-            { value: "yarn", label: "Yarn" },
-            { value: "bun", label: "Bun", hint: "Fastest" },
-          ],
-          initialValue: detectPackageManager(),
-        })
-      ) as "npm" | "pnpm" | "yarn" | "bun";
+      const packageManager = (await ask(
+        presets.packageManager,
+        defaults.packageManager ?? "npm",
+        () =>
+          clack.select({
+            message: "Which package manager?",
+            options: [
+              { value: "npm", label: "npm" },
+              { value: "pnpm", label: "pnpm", hint: "Faster, efficient" },
+              { value: "yarn", label: "Yarn" },
+              { value: "bun", label: "Bun", hint: "Fastest" },
+            ],
+            initialValue: detectPackageManager(),
+          })
+      )) as "npm" | "pnpm" | "yarn" | "bun";
 
       const config: ProjectConfig = {
         packageName: finalPackageName,
+        projectKind,
+        workspace,
         language,
         moduleType,
         testRunner,
@@ -573,6 +972,8 @@ program
         initGit,
         setupCI,
         setupCD,
+        publishAuth,
+        releaseStrategy,
         useCodecov,
         useDependabot,
         packageManager,
@@ -580,11 +981,15 @@ program
         author: author || undefined,
         authorEmail: authorEmail || undefined,
         githubUsername: githubUsername || undefined,
+        registry,
       };
 
       // Step 5: Show configuration summary
       clack.note(
         `Package: ${config.packageName}
+Kind: ${config.projectKind === "cli" ? "CLI" : "Library"}${
+          config.workspace ? `\nWorkspace: Yes (${getMemberDir(config.packageName)})` : ""
+        }
 Language: ${config.language === "typescript" ? "TypeScript" : "JavaScript"}
 Module format: ${config.moduleType.toUpperCase()}
 Test runner: ${config.testRunner === "none" ? "None" : config.testRunner}
@@ -593,7 +998,9 @@ Git: ${config.initGit ? "Yes" : "No"}
 CI/CD: ${
           config.setupCI
             ? config.setupCD
-              ? "CI + CD"
+              ? `CI + CD (${PUBLISH_AUTH_LABELS[config.publishAuth ?? "token"]}, ${
+                  RELEASE_STRATEGY_LABELS[config.releaseStrategy ?? "script"]
+                })`
               : "CI only"
             : "No"
         }${
@@ -606,6 +1013,14 @@ CI/CD: ${
             : ""
         }
 Package Manager: ${config.packageManager}${
+          config.registry ? `\nRegistry: ${config.registry}` : ""
+        }${
+          versionPolicy ? `\nVersion policy: ${describeVersionPolicy(versionPolicy)}` : ""
+        }${
+          prereleaseTags
+            ? `\nPre-releases: ${prereleaseTags.join(", ")} dist-tag${prereleaseTags.length > 1 ? "s" : ""}`
+            : ""
+        }${
           config.description ? `\nDescription: ${config.description}` : ""
         }${config.author ? `\nAuthor: ${config.author}` : ""}${
           config.authorEmail ? ` <${config.authorEmail}>` : ""
@@ -615,8 +1030,8 @@ Package Manager: ${config.packageManager}${
         "Configuration Summary"
       );
 
-      const proceed = handleCancel(
-        await clack.confirm({
+      const proceed = await ask(undefined, true, () =>
+        clack.confirm({
           message: "Proceed with this configuration?",
           initialValue: true,
         })
@@ -630,67 +1045,64 @@ Package Manager: ${config.packageManager}${
       // Dry run mode - just show what would be created
       if (isDryRun) {
         clack.log.info("🔍 Dry run mode - no files will be created");
-        clack.log.info("\nFiles that would be created:");
-        clack.log.info(`  ${finalPackageName}/`);
-        clack.log.info(`    src/`);
-        clack.log.info(
-          `      index.${config.language === "typescript" ? "ts" : "js"}`
-        );
-        if (config.testRunner !== "none") {
-          clack.log.info(
-            `      index.test.${config.language === "typescript" ? "ts" : "js"}`
-          );
+
+        spinner = clack.spinner();
+        spinner.start(resolvingVersionsMessage(flags.offline));
+        const { files, warnings: dryRunWarnings } = await generateProjectFiles(config, {
+          offline: flags.offline,
+          registry: config.registry,
+          policy: versionPolicy,
+          prereleaseTags,
+        });
+        spinner.stop("✓ Generated project in memory");
+
+        if (dryRunWarnings.length > 0) {
+          clack.note(dryRunWarnings.join('\n\n'), "⚠️  Package Version Warnings");
         }
-        clack.log.info(`    package.json`);
-        clack.log.info(`    README.md`);
-        clack.log.info(`    .gitignore`);
-        if (config.language === "typescript") {
-          clack.log.info(`    .npmignore         # Exclude source files from npm package`);
-          clack.log.info(`    tsconfig.json`);
-          clack.log.info(`    tsup.config.ts`);
-          clack.log.info(
-            `    index.js           # Root re-export for better IDE autocomplete`
-          );
-          clack.log.info(`    index.d.ts         # Root type definitions`);
-          if (config.moduleType === "dual") {
-            clack.log.info(
-              `    index.mjs          # ESM re-export for dual format`
-            );
+
+        if (flags.show !== undefined) {
+          const shown = files.get(flags.show.replace(/\\/g, "/").replace(/^\.\//, ""));
+          if (!shown) {
+            clack.log.error(`"${flags.show}" would not be generated. Generated files:`);
+            clack.log.message(formatFileTree(files.keys(), finalPackageName));
+            clack.cancel("Unknown file");
+            process.exit(1);
           }
-        }
-        if (config.useLinting) {
-          clack.log.info(`    .eslintrc.json`);
-          clack.log.info(`    .prettierrc`);
-          clack.log.info(`    .editorconfig`);
-        }
-        if (config.testRunner === "vitest") {
-          clack.log.info(`    vitest.config.ts`);
-        } else if (config.testRunner === "jest") {
+          writeOutput(shown.content);
+        } else if (flags.outJson) {
+          writeOutput(fileMapToJson(files) + "\n");
+        } else {
           clack.log.info(
-            `    jest.config.${config.language === "typescript" ? "ts" : "js"}`
+            `Files that would be created:\n${formatFileTree(files.keys(), finalPackageName)}`
           );
         }
-        if (config.setupCI) {
-          clack.log.info(`    .github/workflows/ci.yml`);
-        }
-        if (config.setupCD) {
-          clack.log.info(`    .github/workflows/publish.yml`);
-        }
-        if (config.useDependabot) {
-          clack.log.info(`    .github/dependabot.yml`);
-          clack.log.info(`    .github/workflows/dependabot-auto-merge.yml`);
-        }
+
+        await writeAnswers({
+          ...config,
+          install: presets.install,
+          githubRepo: presets.githubRepo,
+          versionPolicy: presets.versionPolicy,
+        });
         clack.outro("✨ Dry run complete!");
         return;
       }
 
       // Step 6: Create project
       spinner = clack.spinner();
-      spinner.start("Fetching latest package versions from npm...");
+      spinner.start(resolvingVersionsMessage(flags.offline));
 
-      const projectWarnings = await createProject(config, targetDir);
+      const { warnings: projectWarnings } = await createProject(config, targetDir, {
+        offline: flags.offline,
+        registry: config.registry,
+        policy: versionPolicy,
+        prereleaseTags,
+      });
 
-      spinner.stop("✓ Project created with latest package versions!");
+      spinner.stop(
+        flags.offline
+          ? "✓ Project created with the bundled package versions!"
+          : "✓ Project created with latest package versions!"
+      );
 
       // Display version warnings if any
       if (projectWarnings.length > 0) {
@@ -701,17 +1113,14 @@ Package Manager: ${config.packageManager}${
       }
 
       // Step 7: Install dependencies
-      let shouldInstall = !skipInstall;
-
-      // Ask user if they want to install dependencies (unless using --skip-install)
-      if (!skipInstall) {
-        shouldInstall = handleCancel(
-          await clack.confirm({
-            message: `Install dependencies now with ${config.packageManager}?`,
-            initialValue: true,
-          })
-        );
-      }
+      // --skip-install and answers files set presets.install, otherwise ask
+      const shouldInstall = await ask(presets.install, true, () =>
+        clack.confirm({
+          message: `Install dependencies now with ${config.packageManager}?`,
+          initialValue: true,
+        })
+      );
+      let githubRepoChoice: GitHubRepoChoice | undefined = presets.githubRepo;
 
       if (shouldInstall) {
         clack.log.step(
@@ -759,6 +1168,10 @@ Package Manager: ${config.packageManager}${
             (async () => {
               try {
                 execSync("git init", { cwd: targetDir, stdio: "pipe" });
+                // The install ran before git init, so husky couldn't install the commit-msg hook yet
+                if (config.releaseStrategy === "semantic-release") {
+                  execSync(runScript(config, "prepare"), { cwd: targetDir, stdio: "pipe" });
+                }
                 execSync("git add .", { cwd: targetDir, stdio: "pipe" });
                 execSync(`git commit -m "${INITIAL_COMMIT_MESSAGE}"`, {
                   cwd: targetDir,
@@ -809,8 +1222,8 @@ Package Manager: ${config.packageManager}${
               `Repository "${finalPackageName}" already exists on GitHub`
             );
           } else {
-            const createRepo = handleCancel(
-              await clack.select({
+            const createRepo = await ask<GitHubRepoChoice>(presets.githubRepo, "skip", () =>
+              clack.select<GitHubRepoChoice>({
                 message: "Create GitHub repository?",
                 options: [
                   { value: "public", label: "Public repository" },
@@ -821,6 +1234,8 @@ Package Manager: ${config.packageManager}${
               })
             );
 
+            githubRepoChoice = createRepo;
+
             if (createRepo !== "skip") {
               spinner.start("Creating GitHub repository...");
               const result = createGitHubRepo({
@@ -846,6 +1261,10 @@ Package Manager: ${config.packageManager}${
               }
             }
           }
+        } else if (presets.githubRepo && presets.githubRepo !== "skip") {
+          clack.log.warn(
+            "Skipping GitHub repository creation (requires git init and an authenticated gh CLI)"
+          );
         }
 
         // Step 10: Post-install verification
@@ -872,6 +1291,7 @@ Package Manager: ${config.packageManager}${
       if (shouldSaveConfig) {
         try {
           await writeUserConfig({
+            ...readUserConfig(),
             author,
             email: authorEmail,
             github: githubUsername,
@@ -886,26 +1306,90 @@ Package Manager: ${config.packageManager}${
         }
       }
 
+      await writeAnswers({
+        ...config,
+        install: shouldInstall,
+        githubRepo: githubRepoChoice,
+        versionPolicy: presets.versionPolicy,
+      });
+
       // Success message
       clack.outro("✨ All done! Your package is ready.");
 
       console.log("\n📦 Next steps:\n");
       console.log(`  cd ${finalPackageName}`);
+      const nextStep = (command: string, description: string) =>
+        console.log(`  ${command.padEnd(20)} # ${description}`);
       if (!shouldInstall) {
-        console.log(
-          `  ${config.packageManager} install  # Install dependencies`
-        );
+        nextStep(installCommand(config), "Install dependencies");
       }
-      console.log("  npm run build        # Build your package");
+      nextStep(runScript(config, "build"), "Build your package");
       if (config.testRunner !== "none") {
-        console.log("  npm test             # Run tests");
+        nextStep(runScript(config, "test"), "Run tests");
+      }
+      nextStep(runScript(config, "check:exports"), "Validate package exports");
+      if (config.projectKind === "cli") {
+        console.log(
+          `  npm link             # Put "${getBinName(config)}" on your PATH while developing`
+        );
       }
-      console.log("  npm run check:exports # Validate package exports");
       if (config.useLinting) {
-        console.log("  npm run lint         # Lint your code");
+        nextStep(runScript(config, "lint"), "Lint your code");
       }
       console.log("");
 
+      // Show what npm needs before the first automated publish
+      if (config.setupCD) {
+        console.log("🔑 npm Publishing Setup:\n");
+        if (usesPublishToken(config)) {
+          console.log("  The publish workflow needs an npm token:\n");
+          if (!isDefaultRegistry(config.registry)) {
+            console.log(`  1. Create a token with publish rights on ${config.registry}\n`);
+          } else {
+            console.log("  1. Create a granular access token with publish rights on npmjs.com:");
+            console.log("     Avatar → Access Tokens → Generate New Token\n");
+          }
+          console.log("  2. Add it to the GitHub repository as NPM_TOKEN:");
+          console.log("     gh secret set NPM_TOKEN\n");
+        } else {
+          console.log("  The publish workflow uses trusted publishing, so no secret is needed:\n");
+          console.log("  1. Publish the first version by hand (npm publish) to create the package");
+          console.log("  2. On npmjs.com, open the package → Settings → Trusted Publisher");
+          console.log(
+            `     → GitHub Actions, ${config.githubUsername ?? "<owner>"}/${finalPackageName}, workflow publish.yml\n`
+          );
+        }
+      }
+
+      // The version and release PRs are opened with the default GITHUB_TOKEN
+      if (config.releaseStrategy === "changesets") {
+        console.log("🦋 Changesets Setup:\n");
+        console.log("  Add a changeset to every PR that should be released:");
+        console.log(`     ${execCommand(config, "changeset")}\n`);
+        console.log("  Allow the Version workflow to open the version PR:");
+        console.log("     Settings → Actions → General → Workflow permissions");
+        console.log("     → ✅ Allow GitHub Actions to create and approve pull requests\n");
+        console.log("  Merging the version PR publishes the new version to npm.\n");
+      }
+
+      if (config.releaseStrategy === "semantic-release") {
+        console.log("🚀 semantic-release Setup:\n");
+        console.log("  Every push to main is released; the version comes from the commit messages:");
+        console.log("     fix: → patch, feat: → minor, feat!: or BREAKING CHANGE: → major\n");
+        console.log("  commitlint checks each message in the commit-msg hook (installed by husky).");
+        console.log("  The first release is 1.0.0.\n");
+      }
+
+      if (config.releaseStrategy === "release-please") {
+        console.log("🚀 release-please Setup:\n");
+        console.log("  Write conventional commits (fix:, feat:, feat!:); the Release workflow keeps");
+        console.log("  a release PR open with the next version and its CHANGELOG.md entry.\n");
+        console.log("  Allow the Release workflow to open the release PR:");
+        console.log("     Settings → Actions → General → Workflow permissions");
+        console.log("     → ✅ Allow GitHub Actions to create and approve pull requests\n");
+        console.log("  Merging the release PR tags the release and publishes it to npm.\n");
+      }
+
       // Show Dependabot auto-merge setup instructions
       if (config.useDependabot) {
         console.log("🤖 Dependabot Auto-Merge Setup:\n");
@@ -925,241 +1409,385 @@ Package Manager: ${config.packageManager}${
     }
   });
 
-program.parse();
-
-/**
- * Creates the project directory structure and files
- */
-async function createProject(
-  config: ProjectConfig,
-  targetDir: string
-): Promise<string[]> {
-  // Create main directory
-  await mkdir(targetDir, { recursive: true });
-
-  // Create src directory
-  const srcDir = join(targetDir, "src");
-  await mkdir(srcDir, { recursive: true });
-
-  // Create example source file
-  const mainFile = config.language === "typescript" ? "index.ts" : "index.js";
-  const exampleCode =
-    config.language === "typescript"
-      ? `/**
- * Example function that greets a user
- * @param name - The name to greet
- * @returns A greeting message
- */
-export function greet(name: string): string {
-  return \`Hello, \${name}!\`;
+interface AddCommandOptions {
+  dryRun?: boolean;
+  force?: boolean;
+  projectKind?: string;
+  offline?: boolean;
+  registry?: string;
+  allowPrerelease?: string | boolean;
+  verbose?: boolean;
 }
 
-/**
- * Example function that adds two numbers
- * @param a - First number
- * @param b - Second number
- * @returns The sum of a and b
- */
-export function add(a: number, b: number): number {
-  return a + b;
-}
-`
-      : `/**
- * Example function that greets a user
- * @param {string} name - The name to greet
- * @returns {string} A greeting message
- */
-export function greet(name) {
-  return \`Hello, \${name}!\`;
-}
+program
+  .command("add")
+  .description(
+    `Add a feature to an existing package (${FEATURES.join(", ")}), or a package to a workspace`
+  )
+  .argument("<feature>", `Feature to add: ${FEATURES.join(" | ")} | package`)
+  .argument("[name]", "Package name (for add package)")
+  .option("--dry-run", "Show what would change without writing anything")
+  .option("--force", "Overwrite files that already exist")
+  .option("--project-kind <kind>", "Kind of the new package: library | cli (for add package)")
+  .option("--offline", "Use the bundled version snapshot instead of fetching versions")
+  .option("--registry <url>", "Registry to fetch versions from (defaults to your .npmrc)")
+  .option("--allow-prerelease [tag]", "Use the next or beta dist-tag when newer than latest")
+  .option("--verbose", "Log every network request with its status and timing")
+  .action(async (featureArg: string, name: string | undefined, options: AddCommandOptions) => {
+    const feature = featureArg.toLowerCase() as Feature;
+    const projectDir = process.cwd();
+    checkRegistryOption(options.registry);
+    if (options.verbose) configureHttpClient({ verbose: true });
+
+    if (feature === ("package" as string)) {
+      await addWorkspacePackage(name, projectDir, options);
+      return;
+    }
 
-/**
- * Example function that adds two numbers
- * @param {number} a - First number
- * @param {number} b - Second number
- * @returns {number} The sum of a and b
- */
-export function add(a, b) {
-  return a + b;
-}
-`;
-
-  await writeFile(join(srcDir, mainFile), exampleCode);
-
-  // Create test file if testing is enabled
-  if (config.testRunner !== "none") {
-    const testExt = config.language === "typescript" ? "ts" : "js";
-    const testFile = `index.test.${testExt}`;
-    const testCode =
-      config.language === "typescript"
-        ? `import { describe, it, expect } from '${
-            config.testRunner === "vitest" ? "vitest" : "@jest/globals"
-          }';
-import { greet, add } from './index.js';
-
-describe('greet', () => {
-  it('should return a greeting message', () => {
-    expect(greet('World')).toBe('Hello, World!');
-  });
-});
+    clack.intro(`🔧 Add ${featureArg}`);
 
-describe('add', () => {
-  it('should add two numbers correctly', () => {
-    expect(add(2, 3)).toBe(5);
-  });
-});
-`
-        : `import { describe, it, expect } from '${
-            config.testRunner === "vitest" ? "vitest" : "@jest/globals"
-          }';
-import { greet, add } from './index.js';
-
-describe('greet', () => {
-  it('should return a greeting message', () => {
-    expect(greet('World')).toBe('Hello, World!');
-  });
-});
+    if (!FEATURES.includes(feature)) {
+      clack.cancel(`Unknown feature "${featureArg}". Expected one of: ${FEATURES.join(", ")}`);
+      process.exit(1);
+    }
 
-describe('add', () => {
-  it('should add two numbers correctly', () => {
-    expect(add(2, 3)).toBe(5);
-  });
-});
-`;
+    const policy = readStoredVersionPolicy();
+    const prereleaseTags = readPrereleaseOption(options.allowPrerelease);
 
-    await writeFile(join(srcDir, testFile), testCode);
-  }
+    try {
+      const spinner = clack.spinner();
+      spinner.start(resolvingVersionsMessage(options.offline));
+      const { plan, errors } = await planFeature(feature, projectDir, {
+        offline: options.offline,
+        registry: options.registry,
+        policy,
+        prereleaseTags,
+      });
+      spinner.stop(plan ? "✓ Feature generated" : "✗ Cannot add feature");
+
+      if (!plan) {
+        for (const error of errors) {
+          clack.log.error(error);
+        }
+        clack.cancel("Nothing was changed");
+        process.exit(1);
+      }
 
-  // Generate configuration files with dynamic version fetching
-  const { packageJson, warnings, nodeConfig } = await generatePackageJson(config);
+      if (plan.warnings.length > 0) {
+        clack.note(plan.warnings.join('\n\n'), "⚠️  Package Version Warnings");
+      }
 
-  // Fetch GitHub Actions versions in parallel with package.json generation
-  const actionVersions = await fetchLatestActionVersions();
+      if (options.dryRun) {
+        const { added, kept } = mergePackageJson(
+          JSON.parse(readFileSync(join(projectDir, "package.json"), "utf-8")),
+          plan.additions
+        );
+        clack.log.info(`Files:\n${[...plan.files.keys()].map((path) => `  ${path}`).join("\n")}`);
+        if (added.length > 0) {
+          clack.log.info(`package.json additions:\n${added.map((entry) => `  + ${entry}`).join("\n")}`);
+        }
+        if (kept.length > 0) {
+          clack.log.info(`Kept (customized):\n${kept.map((entry) => `  = ${entry}`).join("\n")}`);
+        }
+        clack.outro("✨ Dry run complete!");
+        return;
+      }
 
-  // Collect warnings from action version fetching
-  for (const [, result] of actionVersions) {
-    if (result.warning) {
-      warnings.push(result.warning);
-    }
-  }
+      const result = await applyFeaturePlan(plan, projectDir, { force: options.force });
 
-  await writeFile(
-    join(targetDir, "package.json"),
-    JSON.stringify(packageJson, null, 2)
-  );
+      for (const path of result.written) {
+        clack.log.success(`Created ${path}`);
+      }
+      for (const path of result.skipped) {
+        clack.log.warn(`Skipped ${path} (already exists, use --force to overwrite)`);
+      }
+      if (result.added.length > 0) {
+        clack.log.success(
+          `Updated package.json:\n${result.added.map((entry) => `  + ${entry}`).join("\n")}`
+        );
+      }
+      if (result.kept.length > 0) {
+        clack.log.info(
+          `Kept your customized entries:\n${result.kept.map((entry) => `  = ${entry}`).join("\n")}`
+        );
+      }
 
-  await writeFile(join(targetDir, "README.md"), generateReadme(config));
-  await writeFile(join(targetDir, ".gitignore"), generateGitignore());
+      const hasNewDependencies = result.added.some((entry) => entry.startsWith("devDependencies."));
+      clack.outro(
+        hasNewDependencies
+          ? `✨ Done! Run "${plan.config.packageManager} install" to install the new devDependencies.`
+          : "✨ Done!"
+      );
+    } catch (error) {
+      clack.cancel("An error occurred");
+      console.error(error);
+      process.exit(1);
+    }
+  });
 
-  // Generate .npmignore for TypeScript projects
-  if (config.language === 'typescript') {
-    await writeFile(join(targetDir, ".npmignore"), generateNpmignore(config));
-  }
+interface UpgradeCommandOptions {
+  dryRun?: boolean;
+  markers?: boolean;
+  offline?: boolean;
+  registry?: string;
+  allowPrerelease?: string | boolean;
+  verbose?: boolean;
+}
 
-  // TypeScript-specific files
-  if (config.language === "typescript") {
-    await writeFile(
-      join(targetDir, "tsconfig.json"),
-      JSON.stringify(generateTsConfig(config), null, 2)
-    );
-    await writeFile(
-      join(targetDir, "tsup.config.ts"),
-      generateTsupConfig(config)
-    );
+program
+  .command("upgrade")
+  .description("Re-sync templated files with the current generator version")
+  .option("--dry-run", "Show the three-way diff without writing anything")
+  .option("--markers", "Write conflict markers instead of keeping your lines for conflicting hunks")
+  .option("--offline", "Use the bundled version snapshot instead of fetching versions")
+  .option("--registry <url>", "Registry to fetch versions from (defaults to your .npmrc)")
+  .option("--allow-prerelease [tag]", "Use the next or beta dist-tag when newer than latest")
+  .option("--verbose", "Log every network request with its status and timing")
+  .action(async (options: UpgradeCommandOptions) => {
+    const projectDir = process.cwd();
+    checkRegistryOption(options.registry);
+    if (options.verbose) configureHttpClient({ verbose: true });
+
+    clack.intro("⬆️  Upgrade generated files");
+    const policy = readStoredVersionPolicy();
+    const prereleaseTags = readPrereleaseOption(options.allowPrerelease);
 
-    // Generate root index files for better IDE experience
-    // Following the pattern used by axios, express, and jsforce
-    await writeFile(join(targetDir, "index.js"), generateRootIndexJs(config));
-    await writeFile(
-      join(targetDir, "index.d.ts"),
-      generateRootIndexDts(config)
-    );
+    try {
+      const spinner = clack.spinner();
+      spinner.start("Regenerating templates with the latest versions...");
+      const { plan, errors } = await planUpgrade(projectDir, {
+        offline: options.offline,
+        registry: options.registry,
+        policy,
+        prereleaseTags,
+      });
+      spinner.stop(plan ? "✓ Templates regenerated" : "✗ Cannot upgrade");
+
+      if (!plan) {
+        for (const error of errors) {
+          clack.log.error(error);
+        }
+        clack.cancel("Nothing was changed");
+        process.exit(1);
+      }
 
-    // For dual format, also generate index.mjs
-    if (config.moduleType === "dual") {
-      await writeFile(
-        join(targetDir, "index.mjs"),
-        generateRootIndexMjs(config)
+      clack.log.info(
+        plan.fromVersion
+          ? `Template base: v${plan.fromVersion} → v${plan.toVersion}`
+          : `No ${FORGE_METADATA_FILE} found - files that differ from the v${plan.toVersion} templates are shown but not changed`
       );
-    }
-  }
 
-  // Linting files
-  if (config.useLinting) {
-    await writeFile(
-      join(targetDir, "eslint.config.js"),
-      generateEslintConfig(config)
-    );
-    await writeFile(
-      join(targetDir, ".prettierrc"),
-      JSON.stringify(generatePrettierConfig(), null, 2)
-    );
-    await writeFile(join(targetDir, ".editorconfig"), generateEditorConfig());
-  }
+      const labels = {
+        ours: "yours",
+        base: `template v${plan.fromVersion ?? "unknown"}`,
+        theirs: `template v${plan.toVersion}`,
+      };
 
-  // Test configuration files
-  if (config.testRunner === "vitest") {
-    await writeFile(
-      join(targetDir, "vitest.config.ts"),
-      generateVitestConfig()
-    );
-  } else if (config.testRunner === "jest") {
-    const jestExt = config.language === "typescript" ? "ts" : "js";
-    await writeFile(
-      join(targetDir, `jest.config.${jestExt}`),
-      generateJestConfig(config)
-    );
-  }
+      for (const file of plan.files) {
+        switch (file.status) {
+          case "added":
+            clack.log.success(`${file.path}: new template file`);
+            break;
+          case "deleted":
+            clack.log.info(`${file.path}: deleted by you, left deleted`);
+            break;
+          case "merged":
+            clack.log.success(
+              `${file.path}: template changes merged\n${colorizeDiff(
+                formatUnifiedDiff(file.current ?? "", file.next ?? "", `a/${file.path}`, `b/${file.path}`)
+              )}`
+            );
+            break;
+          case "conflict": {
+            const conflicts = (file.chunks ?? []).filter((chunk) => chunk.type === "conflict");
+            clack.log.warn(
+              `${file.path}: ${conflicts.length} conflicting hunk(s), ${
+                options.markers ? "written with conflict markers" : "kept your lines"
+              }\n${conflicts.map((chunk) => resolveMerge([chunk], "markers", labels)).join("\n\n")}`
+            );
+            if (file.next !== file.current) {
+              clack.log.info(
+                `${file.path}: non-conflicting changes applied\n${colorizeDiff(
+                  formatUnifiedDiff(file.current ?? "", file.next ?? "", `a/${file.path}`, `b/${file.path}`)
+                )}`
+              );
+            }
+            break;
+          }
+          case "no-base":
+            clack.log.warn(
+              `${file.path}: skipped, no recorded template to merge with (differs from the current template)\n${colorizeDiff(
+                formatUnifiedDiff(file.current ?? "", file.template, `a/${file.path}`, `template/${file.path}`)
+              )}`
+            );
+            break;
+          default:
+            // up-to-date and unchanged files need no attention
+            break;
+        }
+      }
 
-  // GitHub Actions workflows and Dependabot
-  if (config.setupCD || config.setupCI || config.useDependabot) {
-    const githubDir = join(targetDir, ".github");
-    const workflowDir = join(githubDir, "workflows");
-    await mkdir(workflowDir, { recursive: true });
+      if (options.dryRun) {
+        clack.outro("✨ Dry run complete!");
+        return;
+      }
 
-    // CD publish workflow
-    if (config.setupCD) {
-      await writeFile(join(workflowDir, "publish.yml"), generateCDWorkflow(nodeConfig, actionVersions));
+      const { written } = await applyUpgradePlan(plan, projectDir, {
+        conflictStyle: options.markers ? "markers" : "ours",
+      });
+      clack.log.success(
+        `Updated ${written.length} file(s) and recorded v${plan.toVersion} in ${FORGE_METADATA_FILE}`
+      );
+      const skipped = plan.files.filter((file) => file.status === "no-base");
+      if (skipped.length > 0) {
+        clack.log.warn(
+          `Skipped ${skipped.length} file(s) with no recorded template to merge with; apply the differences shown above by hand if you want them:\n${skipped
+            .map((file) => `  ${file.path}`)
+            .join("\n")}`
+        );
+      }
+      clack.outro(
+        plan.files.some((file) => file.status === "conflict")
+          ? "⚠ Done with conflicts - review the hunks above"
+          : "✨ Done!"
+      );
+    } catch (error) {
+      clack.cancel("An error occurred");
+      console.error(error);
+      process.exit(1);
     }
+  });
 
-    // CI workflow
-    if (config.setupCI) {
-      await writeFile(join(workflowDir, "ci.yml"), generateCIWorkflow(config, nodeConfig, actionVersions));
+program
+  .command("inspect")
+  .description("Detect the configuration of an existing package")
+  .argument("[dir]", "Package directory", ".")
+  .option("--json", "Print the detected configuration as JSON")
+  .action(async (dir: string, options: { json?: boolean }) => {
+    const projectDir = resolve(dir);
+
+    let detected: DetectionResult;
+    try {
+      detected = await detectProjectConfig(projectDir);
+    } catch (error) {
+      const message = `Could not read package.json in ${projectDir} (${
+        error instanceof Error ? error.message : "Unknown error"
+      })`;
+      if (options.json) {
+        console.error(message);
+      } else {
+        clack.cancel(message);
+      }
+      process.exit(1);
     }
 
-    // Dependabot configuration and auto-merge workflow
-    if (config.useDependabot) {
-      await writeFile(
-        join(githubDir, "dependabot.yml"),
-        generateDependabotConfig()
-      );
-      await writeFile(
-        join(workflowDir, "dependabot-auto-merge.yml"),
-        generateDependabotAutoMergeWorkflow(actionVersions)
+    if (options.json) {
+      console.log(
+        JSON.stringify(
+          { path: projectDir, config: detected.config, evidence: detected.evidence },
+          null,
+          2
+        )
       );
+      return;
     }
-  }
 
-  // Release automation script (only for projects with CI/CD setup)
-  if (config.setupCD) {
-    const scriptsDir = join(targetDir, "scripts");
-    await mkdir(scriptsDir, { recursive: true });
-    await writeFile(join(scriptsDir, "release.mjs"), generateReleaseScript(config));
-    await writeFile(join(scriptsDir, "get-token.mjs"), generateGetTokenScript());
+    clack.intro(`🔍 ${detected.config.packageName}`);
+    const lines = Object.entries(detected.config)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => {
+        const source = detected.evidence[key as keyof ProjectConfig];
+        return `${key}: ${String(value)}${source ? `  \x1b[90m(${source})\x1b[0m` : ""}`;
+      });
+    clack.note(lines.join("\n"), "Detected configuration");
+    clack.outro(projectDir);
+  });
 
-    // Make the scripts executable on Unix systems
+program
+  .command("doctor")
+  .description("Check an existing package for publishing and CI problems")
+  .argument("[dir]", "Package directory", ".")
+  .option("--json", "Print the report as JSON")
+  .action(async (dir: string, options: { json?: boolean }) => {
+    const projectDir = resolve(dir);
+
+    let report: DoctorReport;
     try {
-      const { chmodSync } = await import('fs');
-      chmodSync(join(scriptsDir, "release.mjs"), 0o755);
-      chmodSync(join(scriptsDir, "get-token.mjs"), 0o755);
-    } catch {
-      // Ignore chmod errors on Windows
+      report = await runDoctor(projectDir);
+    } catch (error) {
+      const message = `Could not read package.json in ${projectDir} (${
+        error instanceof Error ? error.message : "Unknown error"
+      })`;
+      if (options.json) {
+        console.error(message);
+      } else {
+        clack.cancel(message);
+      }
+      process.exit(1);
     }
-  }
 
-  // Return warnings from version fetching
-  return warnings;
-}
+    if (options.json) {
+      console.log(JSON.stringify({ path: projectDir, ...report }, null, 2));
+    } else {
+      clack.intro("🩺 forge-npm-pkg doctor");
+      for (const check of report.checks) {
+        const hasError = check.issues.some((issue) => issue.severity === "error");
+        const icon = hasError
+          ? "\x1b[31m✗\x1b[0m"
+          : check.issues.length > 0
+            ? "\x1b[33m!\x1b[0m"
+            : "\x1b[32m✓\x1b[0m";
+        console.log(`${icon} ${check.title}`);
+        for (const issue of check.issues) {
+          const color = issue.severity === "error" ? "\x1b[31m" : "\x1b[33m";
+          console.log(`    ${color}${issue.message}\x1b[0m`);
+          if (issue.fix) console.log(`      \x1b[90m→ ${issue.fix}\x1b[0m`);
+        }
+      }
+      console.log();
+
+      const summary = `${report.errors} error(s), ${report.warnings} warning(s)`;
+      if (report.errors > 0) {
+        clack.outro(`\x1b[31m${summary}\x1b[0m`);
+      } else {
+        clack.outro(`\x1b[32m${summary}\x1b[0m`);
+      }
+    }
+
+    if (report.errors > 0) {
+      process.exit(1);
+    }
+  });
+
+program
+  .command("cache")
+  .description("Show or clear the cached registry, nodejs.org and GitHub lookups")
+  .argument("<action>", "info | clear")
+  .action(async (action: string) => {
+    if (action === "info") {
+      const info = await getCacheInfo();
+      const lines = [
+        `Location: ${info.dir}`,
+        `Entries:  ${info.entries}`,
+        `Size:     ${(info.size / 1024).toFixed(1)} KB`,
+      ];
+      if (info.oldest && info.newest) {
+        lines.push(
+          `Oldest:   ${info.oldest.toLocaleString()}`,
+          `Newest:   ${info.newest.toLocaleString()}`
+        );
+      }
+      clack.note(lines.join("\n"), "Version lookup cache");
+    } else if (action === "clear") {
+      const removed = await clearCache();
+      clack.log.success(`Removed ${removed} cached lookup${removed === 1 ? "" : "s"}`);
+    } else {
+      clack.cancel(`Unknown action "${action}". Expected one of: info, clear`);
+      process.exit(1);
+    }
+  });
+
+program.parse();
 
 /**
  * Detects which package manager the user prefers
@@ -3,6 +3,10 @@
  * Fetches latest major version tags for GitHub Actions (e.g., v5, v6)
  */
 
+import type { FetchOptions } from './versionFetcher.js';
+import { VERSION_SNAPSHOT } from './versionSnapshot.js';
+import { CACHE_TTL, cachedFetchJson } from './fetchCache.js';
+
 export interface ActionVersionResult {
   version: string;
   warning?: string;
@@ -38,23 +42,25 @@ async function fetchLatestMajorVersion(
 ): Promise<ActionVersionResult> {
   try {
     // Fetch releases from GitHub API
-    const response = await fetch(
+    const releases = await cachedFetchJson<GitHubRelease[]>(
       `https://api.github.com/repos/${owner}/${repo}/releases`,
       {
-        signal: AbortSignal.timeout(5000),
+        ttl: CACHE_TTL.github,
         headers: {
           'Accept': 'application/vnd.github.v3+json',
           'User-Agent': 'forge-npm-pkg'
-        }
+        },
+        // Release notes make up most of the response
+        select: body =>
+          (body as GitHubRelease[]).map(({ tag_name, published_at, prerelease, draft }) => ({
+            tag_name,
+            published_at,
+            prerelease,
+            draft
+          }))
       }
     );
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
-    }
-
-    const releases = await response.json() as GitHubRelease[];
-
     // Filter out drafts and pre-releases, find latest major version
     const stableReleases = releases.filter(r => !r.draft && !r.prerelease);
 
@@ -80,11 +86,12 @@ async function fetchLatestMajorVersion(
     };
 
   } catch {
-    // Return a warning but don't fail - use a reasonable default
+    // Return a warning but don't fail - use the known-good major for this action
+    const version = FALLBACK_VERSIONS[`${owner}/${repo}`] ?? 'v5';
     return {
-      version: 'v5', // Conservative default
+      version,
       usedFallback: true,
-      warning: `⚠️  Could not fetch ${owner}/${repo} version, using v5`
+      warning: `⚠️  Could not fetch ${owner}/${repo} version, using ${version}`
     };
   }
 }
@@ -102,14 +109,27 @@ export const SUPPORTED_ACTIONS: ActionConfig[] = [
   { owner: 'actions', repo: 'checkout', key: 'actions/checkout' },
   { owner: 'actions', repo: 'setup-node', key: 'actions/setup-node' },
   { owner: 'codecov', repo: 'codecov-action', key: 'codecov/codecov-action' },
-  { owner: 'dependabot', repo: 'fetch-metadata', key: 'dependabot/fetch-metadata' }
+  { owner: 'dependabot', repo: 'fetch-metadata', key: 'dependabot/fetch-metadata' },
+  { owner: 'pnpm', repo: 'action-setup', key: 'pnpm/action-setup' },
+  { owner: 'oven-sh', repo: 'setup-bun', key: 'oven-sh/setup-bun' },
+  { owner: 'actions', repo: 'cache', key: 'actions/cache' },
+  { owner: 'changesets', repo: 'action', key: 'changesets/action' },
+  { owner: 'googleapis', repo: 'release-please-action', key: 'googleapis/release-please-action' }
 ];
 
 /**
  * Fetches latest major versions for all supported GitHub Actions in parallel
  * @returns Map of action key (e.g., "actions/checkout") to version result
  */
-export async function fetchLatestActionVersions(): Promise<Map<string, ActionVersionResult>> {
+export async function fetchLatestActionVersions(
+  options: FetchOptions = {}
+): Promise<Map<string, ActionVersionResult>> {
+  if (options.offline) {
+    return new Map(
+      SUPPORTED_ACTIONS.map(action => [action.key, { version: FALLBACK_VERSIONS[action.key] ?? 'v5' }])
+    );
+  }
+
   const results = await Promise.all(
     SUPPORTED_ACTIONS.map(async (action) => {
       const result = await fetchLatestMajorVersion(action.owner, action.repo);
@@ -121,11 +141,6 @@ export async function fetchLatestActionVersions(): Promise<Map<string, ActionVer
 }
 
 /**
- * Fallback versions if API calls fail
+ * Fallback versions if API calls fail (and for --offline), from the bundled snapshot
  */
-export const FALLBACK_VERSIONS: Record<string, string> = {
-  'actions/checkout': 'v5',
-  'actions/setup-node': 'v6',
-  'codecov/codecov-action': 'v5',
-  'dependabot/fetch-metadata': 'v2'
-};
+export const FALLBACK_VERSIONS: Record<string, string> = VERSION_SNAPSHOT.actions;
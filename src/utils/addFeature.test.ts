@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { mergePackageJson } from './addFeature';
+
+describe('mergePackageJson', () => {
+  it('should add missing scripts and devDependencies', () => {
+    const { packageJson, added, kept } = mergePackageJson(
+      { name: 'my-package', scripts: { build: 'tsup' }, devDependencies: { tsup: '^8.0.0' } },
+      {
+        scripts: { lint: 'eslint .' },
+        devDependencies: { eslint: '^9.0.0' },
+      }
+    );
+
+    expect(packageJson.scripts).toEqual({ build: 'tsup', lint: 'eslint .' });
+    expect(packageJson.devDependencies).toEqual({ tsup: '^8.0.0', eslint: '^9.0.0' });
+    expect(added).toEqual(['scripts.lint', 'devDependencies.eslint']);
+    expect(kept).toEqual([]);
+  });
+
+  it('should keep scripts the user customized', () => {
+    const { packageJson, added, kept } = mergePackageJson(
+      { scripts: { lint: 'eslint src --max-warnings 0' } },
+      { scripts: { lint: 'eslint .' }, devDependencies: {} }
+    );
+
+    expect(packageJson.scripts?.lint).toBe('eslint src --max-warnings 0');
+    expect(added).toEqual([]);
+    expect(kept).toEqual(['scripts.lint']);
+  });
+
+  it('should not report scripts that already match', () => {
+    const { added, kept } = mergePackageJson(
+      { scripts: { test: 'vitest run' } },
+      { scripts: { test: 'vitest run' }, devDependencies: {} }
+    );
+
+    expect(added).toEqual([]);
+    expect(kept).toEqual([]);
+  });
+
+  it('should never re-add or re-pin an existing dependency', () => {
+    const { packageJson, added } = mergePackageJson(
+      {
+        dependencies: { prettier: '^2.0.0' },
+        devDependencies: { eslint: '8.57.0' },
+      },
+      { scripts: {}, devDependencies: { eslint: '^9.0.0', prettier: '^3.0.0' } }
+    );
+
+    expect(packageJson.devDependencies).toEqual({ eslint: '8.57.0' });
+    expect(added).toEqual([]);
+  });
+
+  it('should preserve unrelated fields and their order', () => {
+    const { packageJson } = mergePackageJson(
+      { name: 'my-package', version: '1.2.3', files: ['dist'] },
+      { scripts: { test: 'jest' }, devDependencies: { jest: '^30.0.0' } }
+    );
+
+    expect(Object.keys(packageJson)).toEqual([
+      'name',
+      'version',
+      'files',
+      'scripts',
+      'devDependencies',
+    ]);
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * `add <feature>` support
+ * Bolts a single feature onto an existing package by reusing the project generators,
+ * merging new scripts and devDependencies into package.json without touching user edits
+ */
+
+import { existsSync } from 'fs';
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import {
+  type ProjectConfig,
+  generateScripts,
+  getDevDependencyNames,
+  fetchDevDependencies,
+  generateEslintConfig,
+  generatePrettierConfig,
+  generateEditorConfig,
+  generateVitestConfig,
+  generateJestConfig,
+  generateCIWorkflow,
+  generateDependabotConfig,
+  generateDependabotAutoMergeWorkflow,
+} from './generators/index.js';
+import { fetchLatestActionVersions } from './actionsFetcher.js';
+import { getNodeLTSVersions } from './nodeFetcher.js';
+import type { FetchOptions } from './versionFetcher.js';
+import { type FileMap, addFile, writeFileMap } from './fileMap.js';
+import { addReleaseFiles } from './createProject.js';
+import { type DetectionResult, detectProjectConfig } from './projectDetector.js';
+import { FORGE_METADATA_FILE, readForgeMetadata, serializeForgeMetadata } from './forgeMetadata.js';
+
+export const FEATURES = ['ci', 'cd', 'dependabot', 'linting', 'vitest', 'jest'] as const;
+export type Feature = (typeof FEATURES)[number];
+
+type PackageJsonData = Record<string, unknown> & {
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+};
+
+export interface PackageJsonAdditions {
+  scripts: Record<string, string>;
+  devDependencies: Record<string, string>;
+}
+
+export interface MergeResult {
+  packageJson: PackageJsonData;
+  /** Entries that were added, e.g. "scripts.lint" or "devDependencies.eslint" */
+  added: string[];
+  /** Entries the user already has with a different value; left untouched */
+  kept: string[];
+}
+
+export interface FeaturePlan {
+  feature: Feature;
+  /** Config of the project before the feature is added */
+  config: ProjectConfig;
+  files: FileMap;
+  additions: PackageJsonAdditions;
+  warnings: string[];
+}
+
+export interface ApplyFeatureResult {
+  written: string[];
+  /** Files that already existed and were not overwritten (see `force`) */
+  skipped: string[];
+  added: string[];
+  kept: string[];
+}
+
+/**
+ * Returns the config with the feature turned on, or an error when it can't be added
+ */
+function enableFeature(
+  config: ProjectConfig,
+  feature: Feature
+): { config: ProjectConfig; error?: string } {
+  switch (feature) {
+    case 'ci':
+      return { config: { ...config, setupCI: true } };
+    case 'cd':
+    case 'dependabot':
+      if (!config.setupCI) {
+        return {
+          config,
+          error: `"add ${feature}" requires CI. Run "forge-npm-pkg add ci" first.`,
+        };
+      }
+      return {
+        config:
+          feature === 'cd' ? { ...config, setupCD: true } : { ...config, useDependabot: true },
+      };
+    case 'linting':
+      return { config: { ...config, useLinting: true } };
+    case 'vitest':
+    case 'jest':
+      if (config.testRunner !== 'none' && config.testRunner !== feature) {
+        return { config, error: `This package already uses ${config.testRunner}.` };
+      }
+      return { config: { ...config, testRunner: feature } };
+  }
+}
+
+/**
+ * Generates only the files a feature contributes
+ */
+async function generateFeatureFiles(
+  config: ProjectConfig,
+  feature: Feature,
+  version: string,
+  options: FetchOptions
+): Promise<{
+  files: FileMap;
+  warnings: string[];
+}> {
+  const files: FileMap = new Map();
+  const warnings: string[] = [];
+  const ext = config.language === 'typescript' ? 'ts' : 'js';
+
+  if (feature === 'linting') {
+    addFile(files, 'eslint.config.js', generateEslintConfig(config));
+    addFile(files, '.prettierrc', JSON.stringify(generatePrettierConfig(), null, 2));
+    addFile(files, '.editorconfig', generateEditorConfig());
+    return { files, warnings };
+  }
+
+  if (feature === 'vitest') {
+    addFile(files, 'vitest.config.ts', generateVitestConfig());
+    return { files, warnings };
+  }
+
+  if (feature === 'jest') {
+    addFile(files, `jest.config.${ext}`, generateJestConfig(config));
+    return { files, warnings };
+  }
+
+  // Workflows need Node.js and GitHub Actions versions
+  const [nodeConfig, actionVersions] = await Promise.all([
+    getNodeLTSVersions(options),
+    fetchLatestActionVersions(options),
+  ]);
+  for (const [, result] of actionVersions) {
+    if (result.warning) {
+      warnings.push(result.warning);
+    }
+  }
+
+  if (feature === 'ci') {
+    addFile(
+      files,
+      '.github/workflows/ci.yml',
+      generateCIWorkflow(config, nodeConfig, actionVersions)
+    );
+  } else if (feature === 'cd') {
+    addReleaseFiles(files, config, nodeConfig, actionVersions, version);
+  } else {
+    addFile(files, '.github/dependabot.yml', generateDependabotConfig());
+    addFile(
+      files,
+      '.github/workflows/dependabot-auto-merge.yml',
+      generateDependabotAutoMergeWorkflow(actionVersions)
+    );
+  }
+
+  return { files, warnings };
+}
+
+/**
+ * Merges new scripts and devDependencies into package.json
+ * Existing entries always win: a script the user customized is kept and reported,
+ * and a package that is already a (dev/peer) dependency is never re-added
+ */
+export function mergePackageJson(
+  pkg: PackageJsonData,
+  additions: PackageJsonAdditions
+): MergeResult {
+  const scripts = { ...pkg.scripts };
+  const devDependencies = { ...pkg.devDependencies };
+  const installed = { ...pkg.dependencies, ...pkg.peerDependencies, ...pkg.devDependencies };
+  const added: string[] = [];
+  const kept: string[] = [];
+
+  for (const [name, command] of Object.entries(additions.scripts)) {
+    if (scripts[name] === undefined) {
+      scripts[name] = command;
+      added.push(`scripts.${name}`);
+    } else if (scripts[name] !== command) {
+      kept.push(`scripts.${name}`);
+    }
+  }
+
+  for (const [name, version] of Object.entries(additions.devDependencies)) {
+    if (installed[name] === undefined) {
+      devDependencies[name] = version;
+      added.push(`devDependencies.${name}`);
+    }
+  }
+
+  const packageJson: PackageJsonData = { ...pkg };
+  if (Object.keys(scripts).length > 0) packageJson.scripts = scripts;
+  if (Object.keys(devDependencies).length > 0) packageJson.devDependencies = devDependencies;
+
+  return { packageJson, added, kept };
+}
+
+/**
+ * Works out everything a feature would add to an existing package, without writing anything
+ */
+export async function planFeature(
+  feature: Feature,
+  projectDir: string,
+  options: FetchOptions = {}
+): Promise<{ plan?: FeaturePlan; errors: string[] }> {
+  let detected: DetectionResult;
+  try {
+    detected = await detectProjectConfig(projectDir);
+  } catch (error) {
+    return {
+      errors: [
+        `Could not read package.json in ${projectDir} (${error instanceof Error ? error.message : 'Unknown error'})`,
+      ],
+    };
+  }
+
+  const { config, packageJson: pkg } = detected;
+  const { config: nextConfig, error } = enableFeature(config, feature);
+  if (error) {
+    return { errors: [error] };
+  }
+
+  // Only what the feature adds on top of the current setup
+  const currentScripts = generateScripts(config);
+  const scripts = Object.fromEntries(
+    Object.entries(generateScripts(nextConfig)).filter(
+      ([name, command]) => currentScripts[name] !== command
+    )
+  );
+
+  const installed = { ...pkg.dependencies, ...pkg.peerDependencies, ...pkg.devDependencies };
+  const currentPackages = new Set(getDevDependencyNames(config));
+  const newPackages = getDevDependencyNames(nextConfig).filter(
+    name => !currentPackages.has(name) && installed[name] === undefined
+  );
+
+  const [{ devDependencies, warnings }, generated] = await Promise.all([
+    fetchDevDependencies(newPackages, options),
+    generateFeatureFiles(nextConfig, feature, pkg.version ?? '0.0.0', options),
+  ]);
+
+  return {
+    plan: {
+      feature,
+      config,
+      files: generated.files,
+      additions: { scripts, devDependencies },
+      warnings: [...warnings, ...generated.warnings],
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Writes a feature plan into the project
+ * Existing files are left alone unless `force` is set
+ */
+export async function applyFeaturePlan(
+  plan: FeaturePlan,
+  projectDir: string,
+  options: { force?: boolean } = {}
+): Promise<ApplyFeatureResult> {
+  const files: FileMap = new Map();
+  const skipped: string[] = [];
+
+  for (const [path, file] of plan.files) {
+    if (!options.force && existsSync(join(projectDir, path))) {
+      skipped.push(path);
+    } else {
+      files.set(path, file);
+    }
+  }
+
+  await writeFileMap(files, projectDir);
+
+  // Record the written templates as the upgrade base for packages that track one; a skipped file
+  // is the user's own, and upgrade must not merge a template it never came from into it
+  const metadata = await readForgeMetadata(projectDir);
+  if (metadata) {
+    for (const [path, file] of files) {
+      metadata.templates[path] = file.content;
+    }
+    metadata.config = enableFeature(plan.config, plan.feature).config;
+    await writeFile(join(projectDir, FORGE_METADATA_FILE), serializeForgeMetadata(metadata));
+  }
+
+  // Re-read right before writing and keep the file's own indentation
+  const pkgPath = join(projectDir, 'package.json');
+  const raw = await readFile(pkgPath, 'utf-8');
+  const { packageJson, added, kept } = mergePackageJson(JSON.parse(raw), plan.additions);
+
+  if (added.length > 0) {
+    const indent = raw.match(/^[ \t]+(?=")/m)?.[0] ?? 2;
+    await writeFile(
+      pkgPath,
+      JSON.stringify(packageJson, null, indent) + (raw.endsWith('\n') ? '\n' : '')
+    );
+  }
+
+  return { written: [...files.keys()], skipped, added, kept };
+}
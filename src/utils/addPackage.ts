@@ -0,0 +1,128 @@
+/**
+ * `add package <name>` support
+ * Adds a member package to an existing workspace, generated with the workspace's settings
+ */
+
+import { existsSync } from 'fs';
+import { readdir } from 'fs/promises';
+import { join } from 'path';
+import { type ProjectConfig, WORKSPACE_PACKAGES_DIR, getMemberDir } from './generators/index.js';
+import { generateWorkspaceMemberFiles } from './createProject.js';
+import type { FetchOptions } from './versionFetcher.js';
+import { detectProjectConfig } from './projectDetector.js';
+import { readForgeMetadata } from './forgeMetadata.js';
+import { validatePackageName } from './packageName.js';
+import { type FileMap, writeFileMap } from './fileMap.js';
+
+export interface WorkspacePackagePlan {
+  config: ProjectConfig;
+  /** Member directory relative to the workspace root, e.g. "packages/utils" */
+  dir: string;
+  /** Files relative to the member directory */
+  files: FileMap;
+  warnings: string[];
+}
+
+/**
+ * Works out the settings new members use
+ * Prefers the config recorded in the root .forge; without it, copies an existing member's
+ * detected settings and takes linting and the package manager from the root
+ */
+async function readWorkspaceConfig(
+  rootDir: string
+): Promise<{ config?: ProjectConfig; errors: string[] }> {
+  const metadata = await readForgeMetadata(rootDir);
+  if (metadata?.config.workspace) {
+    return { config: metadata.config, errors: [] };
+  }
+
+  let root: ProjectConfig;
+  try {
+    ({ config: root } = await detectProjectConfig(rootDir));
+  } catch (error) {
+    return {
+      errors: [
+        `Could not read package.json in ${rootDir} (${error instanceof Error ? error.message : 'Unknown error'})`,
+      ],
+    };
+  }
+
+  if (!root.workspace) {
+    return {
+      errors: [
+        `${rootDir} is not a workspace root (no "workspaces" in package.json or pnpm-workspace.yaml)`,
+      ],
+    };
+  }
+
+  let members: string[] = [];
+  try {
+    members = (await readdir(join(rootDir, WORKSPACE_PACKAGES_DIR))).filter(name =>
+      existsSync(join(rootDir, WORKSPACE_PACKAGES_DIR, name, 'package.json'))
+    );
+  } catch {
+    // No members yet
+  }
+
+  const template = members.length
+    ? (await detectProjectConfig(join(rootDir, WORKSPACE_PACKAGES_DIR, members.sort()[0]))).config
+    : root;
+
+  return {
+    config: {
+      ...template,
+      workspace: true,
+      useLinting: root.useLinting,
+      setupCI: root.setupCI,
+      packageManager: root.packageManager,
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Generates a new member package without writing anything
+ */
+export async function planWorkspacePackage(
+  packageName: string,
+  rootDir: string,
+  options: { projectKind?: ProjectConfig['projectKind'] } & FetchOptions = {}
+): Promise<{ plan?: WorkspacePackagePlan; errors: string[] }> {
+  const nameError = validatePackageName(packageName);
+  if (nameError) {
+    return { errors: [nameError] };
+  }
+
+  const { config: workspaceConfig, errors } = await readWorkspaceConfig(rootDir);
+  if (!workspaceConfig) {
+    return { errors };
+  }
+
+  const dir = getMemberDir(packageName);
+  if (existsSync(join(rootDir, dir))) {
+    return { errors: [`${dir} already exists`] };
+  }
+
+  // The new member shares the workspace setup but not the first package's metadata
+  const config: ProjectConfig = {
+    ...workspaceConfig,
+    packageName,
+    projectKind: options.projectKind ?? 'library',
+    description: undefined,
+  };
+  const { files, warnings } = await generateWorkspaceMemberFiles(config, options);
+
+  return { plan: { config, dir, files, warnings }, errors: [] };
+}
+
+/**
+ * Writes a planned member package into the workspace
+ * Returns the written paths, relative to the workspace root
+ */
+export async function applyWorkspacePackagePlan(
+  plan: WorkspacePackagePlan,
+  rootDir: string
+): Promise<{ written: string[] }> {
+  await writeFileMap(plan.files, join(rootDir, plan.dir));
+  return { written: [...plan.files.keys()].map(path => `${plan.dir}/${path}`) };
+}
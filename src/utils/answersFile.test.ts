@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseAnswers,
+  serializeAnswers,
+  validateVersionPolicy,
+  ANSWERS_SCHEMA_URL,
+} from './answersFile';
+
+describe('parseAnswers', () => {
+  it('should parse a JSON answers file', () => {
+    const { answers, errors } = parseAnswers(
+      JSON.stringify({
+        $schema: ANSWERS_SCHEMA_URL,
+        packageName: '@acme/widgets',
+        language: 'typescript',
+        testRunner: 'jest',
+        setupCI: true,
+        install: false,
+        githubRepo: 'private',
+      }),
+      'forge.json'
+    );
+
+    expect(errors).toEqual([]);
+    expect(answers).toEqual({
+      packageName: '@acme/widgets',
+      language: 'typescript',
+      testRunner: 'jest',
+      setupCI: true,
+      install: false,
+      githubRepo: 'private',
+    });
+  });
+
+  it('should parse a YAML answers file', () => {
+    const { answers, errors } = parseAnswers(
+      'packageName: widgets\nmoduleType: esm\nuseLinting: false\npackageManager: pnpm\n',
+      'forge.yaml'
+    );
+
+    expect(errors).toEqual([]);
+    expect(answers).toEqual({
+      packageName: 'widgets',
+      moduleType: 'esm',
+      useLinting: false,
+      packageManager: 'pnpm',
+    });
+  });
+
+  it('should treat an empty YAML document as no answers', () => {
+    expect(parseAnswers('', 'forge.yml')).toEqual({ answers: {}, errors: [] });
+  });
+
+  it('should report schema errors with their JSON pointer', () => {
+    const { answers, errors } = parseAnswers(
+      JSON.stringify({ testRunner: 'mocha', setupCI: 'yes', colour: 'blue' }),
+      'forge.json'
+    );
+
+    expect(answers).toEqual({});
+    expect(errors).toContain('forge.json: /: unknown property "colour"');
+    expect(errors).toContain('forge.json: /testRunner: must be one of vitest, jest, none');
+    expect(errors).toContain('forge.json: /setupCI: must be boolean');
+  });
+
+  it('should reject invalid and reserved package names', () => {
+    expect(parseAnswers('{"packageName":"My Package"}', 'forge.json').errors[0]).toContain(
+      '/packageName: must match pattern'
+    );
+    expect(parseAnswers('{"packageName":"node_modules"}', 'forge.json').errors).toEqual([
+      'forge.json: /packageName: is a reserved name',
+    ]);
+  });
+
+  it('should reject a document that is not an object', () => {
+    expect(parseAnswers('- typescript\n', 'forge.yaml').errors).toEqual([
+      'forge.yaml: /: must be object',
+    ]);
+  });
+
+  it('should validate the versionPolicy section', () => {
+    const { answers, errors } = parseAnswers(
+      'versionPolicy:\n  rangeStyle: exact\n  minimumAgeDays: 7\n  packages:\n    typescript:\n      deny: ["5.4.x"]\n',
+      'forge.yaml'
+    );
+
+    expect(errors).toEqual([]);
+    expect(answers.versionPolicy).toEqual({
+      rangeStyle: 'exact',
+      minimumAgeDays: 7,
+      packages: { typescript: { deny: ['5.4.x'] } },
+    });
+    expect(
+      validateVersionPolicy(
+        { minimumAgeDays: -1, packages: { eslint: { allow: ['^9 || >=10.1', 'nine'] } } },
+        'config.json'
+      )
+    ).toEqual([
+      'config.json: /versionPolicy/minimumAgeDays: must be >= 0',
+      'config.json: /versionPolicy/packages/eslint/allow/1: must be a semver range (e.g. 5.x or >=5.4.0 <5.6.0)',
+    ]);
+  });
+
+  it('should report parse errors', () => {
+    const { errors } = parseAnswers('{ not json', 'forge.json');
+
+    expect(errors[0]).toContain('forge.json: could not parse file');
+  });
+});
+
+describe('serializeAnswers', () => {
+  const answers = {
+    packageManager: 'npm' as const,
+    packageName: 'widgets',
+    language: 'typescript' as const,
+    description: undefined,
+    install: true,
+  };
+
+  it('should write JSON with a $schema reference and prompt-ordered keys', () => {
+    const output = serializeAnswers(answers, 'forge.json');
+
+    expect(JSON.parse(output)).toEqual({
+      $schema: ANSWERS_SCHEMA_URL,
+      packageName: 'widgets',
+      language: 'typescript',
+      packageManager: 'npm',
+      install: true,
+    });
+    expect(Object.keys(JSON.parse(output))).toEqual([
+      '$schema',
+      'packageName',
+      'language',
+      'packageManager',
+      'install',
+    ]);
+  });
+
+  it('should write YAML with a schema modeline', () => {
+    const output = serializeAnswers(answers, 'forge.yml');
+
+    expect(output).toContain(`# yaml-language-server: $schema=${ANSWERS_SCHEMA_URL}`);
+    expect(output).toContain('packageName: widgets');
+    expect(output).not.toContain('description');
+  });
+
+  it('should round-trip through parseAnswers', () => {
+    for (const file of ['forge.json', 'forge.yaml']) {
+      const { answers: parsed, errors } = parseAnswers(serializeAnswers(answers, file), file);
+
+      expect(errors).toEqual([]);
+      expect(parsed).toEqual({
+        packageName: 'widgets',
+        language: 'typescript',
+        packageManager: 'npm',
+        install: true,
+      });
+    }
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Answers file support (--from / --save-answers)
+ * Loads a JSON or YAML document that answers the scaffold questions, validated against the
+ * published JSON Schema in schema/forge.schema.json
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { extname } from 'path';
+import Ajv, { type ErrorObject } from 'ajv';
+import YAML from 'yaml';
+import answersSchema from '../../schema/forge.schema.json';
+import type { PresetAnswers } from './cliOptions.js';
+import type { VersionPolicy } from './versionPolicy.js';
+import { validateRange } from './semver.js';
+
+export const ANSWERS_SCHEMA_URL = answersSchema.$id;
+
+const ajv = new Ajv({ allErrors: true, allowUnionTypes: true });
+// versionPolicy allow/deny entries use npm's range syntax, which no regex captures well
+ajv.addFormat('semver-range', range => !validateRange(range));
+const validateAnswers = ajv.compile<PresetAnswers & { $schema?: string }>(answersSchema);
+const validatePolicy = ajv.compile<VersionPolicy>(answersSchema.properties.versionPolicy);
+
+/**
+ * Field order used when writing answers back out
+ * Mirrors the order of the interactive prompts
+ */
+const ANSWER_KEYS: (keyof PresetAnswers)[] = [
+  'packageName',
+  'projectKind',
+  'workspace',
+  'language',
+  'moduleType',
+  'testRunner',
+  'useLinting',
+  'initGit',
+  'setupCI',
+  'setupCD',
+  'publishAuth',
+  'releaseStrategy',
+  'useCodecov',
+  'useDependabot',
+  'description',
+  'author',
+  'authorEmail',
+  'githubUsername',
+  'packageManager',
+  'registry',
+  'install',
+  'githubRepo',
+  'versionPolicy',
+];
+
+function isYamlPath(filePath: string): boolean {
+  const ext = extname(filePath).toLowerCase();
+  return ext === '.yaml' || ext === '.yml';
+}
+
+/**
+ * Formats a schema error with its JSON pointer so users can find the offending field
+ * @example "/testRunner: must be one of vitest, jest, none"
+ */
+function formatSchemaError(error: ErrorObject): string {
+  const path = error.instancePath || '/';
+
+  switch (error.keyword) {
+    case 'enum':
+      return `${path}: must be one of ${(error.params.allowedValues as string[]).join(', ')}`;
+    case 'additionalProperties':
+      return `${path}: unknown property "${error.params.additionalProperty}"`;
+    case 'not':
+      return `${path}: is a reserved name`;
+    case 'format':
+      return error.params.format === 'semver-range'
+        ? `${path}: must be a semver range (e.g. 5.x or >=5.4.0 <5.6.0)`
+        : `${path}: ${error.message}`;
+    default:
+      return `${path}: ${error.message}`;
+  }
+}
+
+/**
+ * Validates a versionPolicy from outside an answers file (the user config) with the same schema
+ * @param source - File the policy came from, prefixed to every error
+ */
+export function validateVersionPolicy(policy: unknown, source: string): string[] {
+  if (validatePolicy(policy)) return [];
+
+  return (validatePolicy.errors || []).map(
+    error =>
+      `${source}: ${formatSchemaError({ ...error, instancePath: `/versionPolicy${error.instancePath}` })}`
+  );
+}
+
+/**
+ * Parses and validates the contents of an answers file
+ * JSON is used for .json files; everything else is parsed as YAML
+ */
+export function parseAnswers(
+  content: string,
+  filePath: string
+): { answers: PresetAnswers; errors: string[] } {
+  let data: unknown;
+
+  try {
+    data = isYamlPath(filePath) ? YAML.parse(content) : JSON.parse(content);
+  } catch (error) {
+    return {
+      answers: {},
+      errors: [
+        `${filePath}: could not parse file (${error instanceof Error ? error.message : 'Unknown error'})`,
+      ],
+    };
+  }
+
+  // An empty YAML document means "no answers"
+  if (data === null || data === undefined) {
+    return { answers: {}, errors: [] };
+  }
+
+  if (!validateAnswers(data)) {
+    return {
+      answers: {},
+      errors: (validateAnswers.errors || []).map(
+        error => `${filePath}: ${formatSchemaError(error)}`
+      ),
+    };
+  }
+
+  const { $schema: _schema, ...answers } = data;
+  return { answers, errors: [] };
+}
+
+/**
+ * Reads an answers file from disk
+ */
+export async function loadAnswersFile(
+  filePath: string
+): Promise<{ answers: PresetAnswers; errors: string[] }> {
+  let content: string;
+
+  try {
+    content = await readFile(filePath, 'utf-8');
+  } catch (error) {
+    return {
+      answers: {},
+      errors: [
+        `${filePath}: could not read file (${error instanceof Error ? error.message : 'Unknown error'})`,
+      ],
+    };
+  }
+
+  return parseAnswers(content, filePath);
+}
+
+/**
+ * Serializes answers in the format implied by the file extension
+ * Unset fields are left out so the file only records what was actually answered
+ */
+export function serializeAnswers(answers: PresetAnswers, filePath: string): string {
+  const ordered: Record<string, unknown> = {};
+  for (const key of ANSWER_KEYS) {
+    if (answers[key] !== undefined) {
+      ordered[key] = answers[key];
+    }
+  }
+
+  if (isYamlPath(filePath)) {
+    return `# yaml-language-server: $schema=${ANSWERS_SCHEMA_URL}\n${YAML.stringify(ordered)}`;
+  }
+
+  return JSON.stringify({ $schema: ANSWERS_SCHEMA_URL, ...ordered }, null, 2) + '\n';
+}
+
+/**
+ * Writes answers to disk so the same scaffold can be replayed with --from
+ */
+export async function saveAnswersFile(filePath: string, answers: PresetAnswers): Promise<void> {
+  await writeFile(filePath, serializeAnswers(answers, filePath), 'utf-8');
+}
@@ -0,0 +1,259 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseCliFlags,
+  resolvePresets,
+  validateAnswerCombination,
+  applyDefaults,
+} from './cliOptions';
+
+describe('parseCliFlags', () => {
+  it('should return no answers when no flags are passed', () => {
+    const { answers, errors } = parseCliFlags({});
+
+    expect(answers).toEqual({});
+    expect(errors).toEqual([]);
+  });
+
+  it('should map choice flags onto ProjectConfig fields', () => {
+    const { answers, errors } = parseCliFlags({
+      projectKind: 'cli',
+      language: 'javascript',
+      moduleType: 'esm',
+      testRunner: 'jest',
+      pm: 'pnpm',
+    });
+
+    expect(errors).toEqual([]);
+    expect(answers).toEqual({
+      projectKind: 'cli',
+      language: 'javascript',
+      moduleType: 'esm',
+      testRunner: 'jest',
+      packageManager: 'pnpm',
+    });
+  });
+
+  it('should accept choice values case-insensitively', () => {
+    const { answers } = parseCliFlags({ language: 'TypeScript', pm: 'NPM' });
+
+    expect(answers.language).toBe('typescript');
+    expect(answers.packageManager).toBe('npm');
+  });
+
+  it('should map boolean flag pairs, including explicit false', () => {
+    const { answers } = parseCliFlags({ lint: false, git: true, ci: true, cd: false });
+
+    expect(answers.useLinting).toBe(false);
+    expect(answers.initGit).toBe(true);
+    expect(answers.setupCI).toBe(true);
+    expect(answers.setupCD).toBe(false);
+    expect(answers.useCodecov).toBeUndefined();
+  });
+
+  it('should map metadata flags', () => {
+    const { answers, errors } = parseCliFlags({
+      description: 'My package',
+      author: 'Jane Doe',
+      authorEmail: 'jane@example.com',
+      githubUsername: 'jane-doe',
+    });
+
+    expect(errors).toEqual([]);
+    expect(answers.description).toBe('My package');
+    expect(answers.author).toBe('Jane Doe');
+    expect(answers.authorEmail).toBe('jane@example.com');
+    expect(answers.githubUsername).toBe('jane-doe');
+  });
+
+  it('should map --skip-install and --github-repo', () => {
+    const { answers, errors } = parseCliFlags({ skipInstall: true, githubRepo: 'private' });
+
+    expect(errors).toEqual([]);
+    expect(answers.install).toBe(false);
+    expect(answers.githubRepo).toBe('private');
+  });
+
+  describe('validation errors', () => {
+    it('should reject unknown choice values', () => {
+      const { errors } = parseCliFlags({ language: 'rust', testRunner: 'mocha', pm: 'pip' });
+
+      expect(errors).toHaveLength(3);
+      expect(errors[0]).toContain('--language');
+      expect(errors[0]).toContain('typescript, javascript');
+      expect(errors[1]).toContain('--test-runner');
+      expect(errors[2]).toContain('--pm');
+    });
+
+    it('should reject an invalid author email', () => {
+      const { answers, errors } = parseCliFlags({ authorEmail: 'not-an-email' });
+
+      expect(answers.authorEmail).toBeUndefined();
+      expect(errors[0]).toContain('--author-email');
+    });
+
+    it('should reject an invalid GitHub username', () => {
+      const { errors } = parseCliFlags({ githubUsername: '-bad-' });
+
+      expect(errors[0]).toContain('--github-username');
+    });
+
+    it('should reject an unknown --github-repo value', () => {
+      const { errors } = parseCliFlags({ githubRepo: 'internal' });
+
+      expect(errors[0]).toContain('public, private, skip');
+    });
+
+    it('should reject a --registry that is not an http(s) URL', () => {
+      expect(parseCliFlags({ registry: 'https://npm.acme.dev/' }).answers.registry).toBe(
+        'https://npm.acme.dev/'
+      );
+      expect(parseCliFlags({ registry: 'npm.acme.dev' }).errors[0]).toContain('--registry');
+    });
+  });
+});
+
+describe('resolvePresets', () => {
+  it('should imply CI when CD, Codecov or Dependabot is requested', () => {
+    expect(resolvePresets({ setupCD: true }).answers.setupCI).toBe(true);
+    expect(resolvePresets({ useCodecov: true }).answers.setupCI).toBe(true);
+    expect(resolvePresets({ useDependabot: true }).answers.setupCI).toBe(true);
+  });
+
+  it('should imply CD and CI when a publishing auth mode is passed', () => {
+    const { answers, errors } = resolvePresets({ publishAuth: 'oidc' });
+
+    expect(answers.setupCD).toBe(true);
+    expect(answers.setupCI).toBe(true);
+    expect(errors).toEqual([]);
+  });
+
+  it('should imply CD when a release strategy is passed', () => {
+    const { answers, errors } = resolvePresets({ releaseStrategy: 'changesets' });
+
+    expect(answers.setupCD).toBe(true);
+    expect(errors).toEqual([]);
+  });
+
+  it('should not override an explicit CI choice', () => {
+    const { answers, errors } = resolvePresets({ setupCI: false, setupCD: true });
+
+    expect(answers.setupCI).toBe(false);
+    expect(errors).toEqual(['CD requires CI (--cd/setupCD conflicts with --no-ci)']);
+  });
+});
+
+describe('validateAnswerCombination', () => {
+  it('should accept consistent answers', () => {
+    expect(
+      validateAnswerCombination({ setupCI: true, setupCD: true, testRunner: 'vitest' })
+    ).toEqual([]);
+  });
+
+  it('should reject CI-dependent features when CI is disabled', () => {
+    const errors = validateAnswerCombination({
+      setupCI: false,
+      useCodecov: true,
+      useDependabot: true,
+    });
+
+    expect(errors).toEqual([
+      'Codecov requires CI (--codecov/useCodecov conflicts with --no-ci)',
+      'Dependabot requires CI (--dependabot/useDependabot conflicts with --no-ci)',
+    ]);
+  });
+
+  it('should reject Codecov without a test runner', () => {
+    const errors = validateAnswerCombination({ testRunner: 'none', useCodecov: true });
+
+    expect(errors).toContain('Codecov requires a test runner (--test-runner/testRunner is "none")');
+  });
+
+  it('should reject a publishing auth mode without CD', () => {
+    const errors = validateAnswerCombination({ setupCD: false, publishAuth: 'provenance' });
+
+    expect(errors).toEqual([
+      'Publishing auth requires CD (--publish-auth/publishAuth conflicts with --no-cd)',
+    ]);
+  });
+
+  it('should reject a release strategy without CD', () => {
+    const errors = validateAnswerCombination({ setupCD: false, releaseStrategy: 'changesets' });
+
+    expect(errors).toEqual([
+      'A release strategy requires CD (--release-strategy/releaseStrategy conflicts with --no-cd)',
+    ]);
+  });
+
+  it('should reject CD for workspaces', () => {
+    const errors = validateAnswerCombination({ workspace: true, setupCI: true, setupCD: true });
+
+    expect(errors).toEqual([
+      'CD is not supported for workspaces yet (--cd/setupCD conflicts with --workspace)',
+    ]);
+  });
+
+  it('should reject provenance and trusted publishing on a custom registry', () => {
+    const registry = 'https://npm.acme.dev/';
+
+    expect(validateAnswerCombination({ publishAuth: 'token', registry })).toEqual([]);
+    expect(validateAnswerCombination({ publishAuth: 'oidc', registry })[0]).toContain(
+      'require the public npm registry'
+    );
+    expect(
+      validateAnswerCombination({
+        publishAuth: 'provenance',
+        registry: 'https://registry.npmjs.org',
+      })
+    ).toEqual([]);
+  });
+});
+
+describe('applyDefaults', () => {
+  const fallbacks = { packageName: 'my-package', packageManager: 'npm' as const };
+
+  it('should use the interactive defaults when nothing is answered', () => {
+    expect(applyDefaults({}, fallbacks)).toEqual({
+      packageName: 'my-package',
+      projectKind: 'library',
+      workspace: false,
+      language: 'typescript',
+      moduleType: 'dual',
+      testRunner: 'vitest',
+      useLinting: true,
+      initGit: false,
+      setupCI: true,
+      setupCD: false,
+      publishAuth: undefined,
+      releaseStrategy: undefined,
+      useCodecov: false,
+      useDependabot: false,
+      packageManager: 'npm',
+      description: undefined,
+      author: undefined,
+      authorEmail: undefined,
+      githubUsername: undefined,
+      registry: undefined,
+    });
+  });
+
+  it('should keep answered fields', () => {
+    const config = applyDefaults(
+      { language: 'javascript', testRunner: 'jest', setupCD: true, packageManager: 'bun' },
+      fallbacks
+    );
+
+    expect(config.language).toBe('javascript');
+    expect(config.testRunner).toBe('jest');
+    expect(config.setupCD).toBe(true);
+    expect(config.publishAuth).toBe('token');
+    expect(config.releaseStrategy).toBe('script');
+    expect(config.packageManager).toBe('bun');
+  });
+
+  it('should default CI off when there is no test runner', () => {
+    const config = applyDefaults({ testRunner: 'none' }, fallbacks);
+
+    expect(config.setupCI).toBe(false);
+    expect(config.useCodecov).toBe(false);
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * CLI flag parsing and validation
+ * Maps command-line flags onto ProjectConfig fields so the scaffold can run without prompts
+ */
+
+import type { ProjectConfig } from './generators/types.js';
+import { isDefaultRegistry, validateRegistryUrl } from './npmrc.js';
+import type { VersionPolicy } from './versionPolicy.js';
+
+/**
+ * Raw options as parsed by commander
+ * Boolean pairs (--lint/--no-lint) stay undefined unless one side is passed
+ */
+export interface CliFlags {
+  dryRun?: boolean;
+  show?: string;
+  outJson?: boolean;
+  skipInstall?: boolean;
+  offline?: boolean;
+  registry?: string;
+  allowPrerelease?: string | boolean;
+  verbose?: boolean;
+  save?: boolean;
+  resetConfig?: boolean;
+  config?: boolean;
+  yes?: boolean;
+  projectKind?: string;
+  workspace?: boolean;
+  language?: string;
+  moduleType?: string;
+  testRunner?: string;
+  lint?: boolean;
+  git?: boolean;
+  ci?: boolean;
+  cd?: boolean;
+  publishAuth?: string;
+  releaseStrategy?: string;
+  codecov?: boolean;
+  dependabot?: boolean;
+  pm?: string;
+  description?: string;
+  author?: string;
+  authorEmail?: string;
+  githubUsername?: string;
+  githubRepo?: string;
+  from?: string;
+  saveAnswers?: string;
+}
+
+export type GitHubRepoChoice = 'public' | 'private' | 'skip';
+
+/**
+ * Answers that were provided up front (flags or an answers file) and must not be prompted for
+ * Besides ProjectConfig this covers the post-generation install and GitHub choices, and the
+ * version policy for this run
+ */
+export interface PresetAnswers extends Partial<ProjectConfig> {
+  install?: boolean;
+  githubRepo?: GitHubRepoChoice;
+  versionPolicy?: VersionPolicy;
+}
+
+export const PROJECT_KINDS = ['library', 'cli'] as const;
+export const LANGUAGES = ['typescript', 'javascript'] as const;
+export const MODULE_TYPES = ['esm', 'commonjs', 'dual'] as const;
+export const TEST_RUNNERS = ['vitest', 'jest', 'none'] as const;
+export const PACKAGE_MANAGERS = ['npm', 'pnpm', 'yarn', 'bun'] as const;
+export const PUBLISH_AUTH_MODES = ['token', 'provenance', 'oidc'] as const;
+export const RELEASE_STRATEGIES = [
+  'script',
+  'changesets',
+  'semantic-release',
+  'release-please',
+] as const;
+export const GITHUB_REPO_CHOICES = ['public', 'private', 'skip'] as const;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const GITHUB_USERNAME_PATTERN = /^[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}$/i;
+
+/**
+ * Validates a flag value against a list of allowed choices
+ */
+function parseChoice<T extends string>(
+  flag: string,
+  value: string | undefined,
+  choices: readonly T[],
+  errors: string[]
+): T | undefined {
+  if (value === undefined) return undefined;
+
+  const normalized = value.toLowerCase();
+  if ((choices as readonly string[]).includes(normalized)) {
+    return normalized as T;
+  }
+
+  errors.push(`Invalid value for ${flag}: "${value}". Expected one of: ${choices.join(', ')}`);
+  return undefined;
+}
+
+/**
+ * Converts CLI flags into preset answers
+ * Collects every validation error instead of stopping at the first one
+ */
+export function parseCliFlags(flags: CliFlags): { answers: PresetAnswers; errors: string[] } {
+  const errors: string[] = [];
+  const answers: PresetAnswers = {};
+
+  const projectKind = parseChoice('--project-kind', flags.projectKind, PROJECT_KINDS, errors);
+  const language = parseChoice('--language', flags.language, LANGUAGES, errors);
+  const moduleType = parseChoice('--module-type', flags.moduleType, MODULE_TYPES, errors);
+  const testRunner = parseChoice('--test-runner', flags.testRunner, TEST_RUNNERS, errors);
+  const packageManager = parseChoice('--pm', flags.pm, PACKAGE_MANAGERS, errors);
+  const publishAuth = parseChoice('--publish-auth', flags.publishAuth, PUBLISH_AUTH_MODES, errors);
+  const releaseStrategy = parseChoice(
+    '--release-strategy',
+    flags.releaseStrategy,
+    RELEASE_STRATEGIES,
+    errors
+  );
+  const githubRepo = parseChoice('--github-repo', flags.githubRepo, GITHUB_REPO_CHOICES, errors);
+
+  if (projectKind) answers.projectKind = projectKind;
+  if (language) answers.language = language;
+  if (moduleType) answers.moduleType = moduleType;
+  if (testRunner) answers.testRunner = testRunner;
+  if (packageManager) answers.packageManager = packageManager;
+  if (publishAuth) answers.publishAuth = publishAuth;
+  if (releaseStrategy) answers.releaseStrategy = releaseStrategy;
+  if (githubRepo) answers.githubRepo = githubRepo;
+
+  if (flags.workspace !== undefined) answers.workspace = flags.workspace;
+  if (flags.lint !== undefined) answers.useLinting = flags.lint;
+  if (flags.git !== undefined) answers.initGit = flags.git;
+  if (flags.ci !== undefined) answers.setupCI = flags.ci;
+  if (flags.cd !== undefined) answers.setupCD = flags.cd;
+  if (flags.codecov !== undefined) answers.useCodecov = flags.codecov;
+  if (flags.dependabot !== undefined) answers.useDependabot = flags.dependabot;
+  if (flags.skipInstall) answers.install = false;
+
+  if (flags.description !== undefined) answers.description = flags.description;
+  if (flags.author !== undefined) answers.author = flags.author;
+
+  if (flags.authorEmail !== undefined) {
+    if (EMAIL_PATTERN.test(flags.authorEmail)) {
+      answers.authorEmail = flags.authorEmail;
+    } else {
+      errors.push(`Invalid value for --author-email: "${flags.authorEmail}"`);
+    }
+  }
+
+  if (flags.githubUsername !== undefined) {
+    if (GITHUB_USERNAME_PATTERN.test(flags.githubUsername)) {
+      answers.githubUsername = flags.githubUsername;
+    } else {
+      errors.push(`Invalid value for --github-username: "${flags.githubUsername}"`);
+    }
+  }
+
+  if (flags.registry !== undefined) {
+    if (validateRegistryUrl(flags.registry)) {
+      errors.push(`Invalid value for --registry: "${flags.registry}". Expected an http(s) URL`);
+    } else {
+      answers.registry = flags.registry;
+    }
+  }
+
+  return { answers, errors };
+}
+
+/**
+ * Finalizes preset answers merged from every source (answers file, then flags)
+ * A publishing auth mode or release strategy implies CD, and CD, Codecov and Dependabot imply CI,
+ * unless they were explicitly turned off
+ */
+export function resolvePresets(answers: PresetAnswers): {
+  answers: PresetAnswers;
+  errors: string[];
+} {
+  const resolved = { ...answers };
+
+  if (resolved.setupCD === undefined && (resolved.publishAuth || resolved.releaseStrategy)) {
+    resolved.setupCD = true;
+  }
+
+  if (
+    resolved.setupCI === undefined &&
+    (resolved.setupCD || resolved.useCodecov || resolved.useDependabot)
+  ) {
+    resolved.setupCI = true;
+  }
+
+  return { answers: resolved, errors: validateAnswerCombination(resolved) };
+}
+
+/**
+ * Checks that the preset answers don't contradict each other
+ * CD, Codecov and Dependabot all run on top of the CI setup
+ */
+export function validateAnswerCombination(answers: PresetAnswers): string[] {
+  const errors: string[] = [];
+
+  if (answers.setupCI === false) {
+    if (answers.setupCD) errors.push('CD requires CI (--cd/setupCD conflicts with --no-ci)');
+    if (answers.useCodecov) {
+      errors.push('Codecov requires CI (--codecov/useCodecov conflicts with --no-ci)');
+    }
+    if (answers.useDependabot) {
+      errors.push('Dependabot requires CI (--dependabot/useDependabot conflicts with --no-ci)');
+    }
+  }
+
+  if (answers.setupCD === false && answers.publishAuth) {
+    errors.push('Publishing auth requires CD (--publish-auth/publishAuth conflicts with --no-cd)');
+  }
+  if (answers.setupCD === false && answers.releaseStrategy) {
+    errors.push(
+      'A release strategy requires CD (--release-strategy/releaseStrategy conflicts with --no-cd)'
+    );
+  }
+
+  // Provenance and trusted publishing are npmjs.com features
+  if (
+    (answers.publishAuth === 'provenance' || answers.publishAuth === 'oidc') &&
+    !isDefaultRegistry(answers.registry)
+  ) {
+    errors.push(
+      `Provenance and trusted publishing require the public npm registry (--publish-auth/publishAuth "${answers.publishAuth}" conflicts with --registry/registry)`
+    );
+  }
+
+  // Publishing is per package; the generated CD workflow publishes a single package
+  if (answers.workspace && answers.setupCD) {
+    errors.push('CD is not supported for workspaces yet (--cd/setupCD conflicts with --workspace)');
+  }
+
+  if (answers.testRunner === 'none' && answers.useCodecov) {
+    errors.push('Codecov requires a test runner (--test-runner/testRunner is "none")');
+  }
+
+  return errors;
+}
+
+/**
+ * Fills every unanswered field with the same default the interactive prompts would offer
+ * Used by --yes so the scaffold never blocks on input
+ */
+export function applyDefaults(
+  answers: PresetAnswers,
+  fallbacks: Pick<ProjectConfig, 'packageName' | 'packageManager'>
+): ProjectConfig {
+  const testRunner = answers.testRunner ?? 'vitest';
+  const setupCI = answers.setupCI ?? testRunner !== 'none';
+  const setupCD = setupCI && !answers.workspace ? (answers.setupCD ?? false) : false;
+
+  return {
+    packageName: answers.packageName ?? fallbacks.packageName,
+    projectKind: answers.projectKind ?? 'library',
+    workspace: answers.workspace ?? false,
+    language: answers.language ?? 'typescript',
+    moduleType: answers.moduleType ?? 'dual',
+    testRunner,
+    useLinting: answers.useLinting ?? true,
+    initGit: answers.initGit ?? false,
+    setupCI,
+    setupCD,
+    publishAuth: setupCD ? (answers.publishAuth ?? 'token') : undefined,
+    releaseStrategy: setupCD ? (answers.releaseStrategy ?? 'script') : undefined,
+    useCodecov: setupCI && testRunner !== 'none' ? (answers.useCodecov ?? false) : false,
+    useDependabot: setupCI ? (answers.useDependabot ?? false) : false,
+    packageManager: answers.packageManager ?? fallbacks.packageManager,
+    description: answers.description || undefined,
+    author: answers.author || undefined,
+    authorEmail: answers.authorEmail || undefined,
+    githubUsername: answers.githubUsername || undefined,
+    registry: answers.registry || undefined,
+  };
+}
@@ -0,0 +1,416 @@
+/**
+ * Project creation
+ * Generates every file for a ProjectConfig into an in-memory file map, then writes it out
+ */
+
+import {
+  type ProjectConfig,
+  generatePackageJson,
+  generateTsConfig,
+  generateTsupConfig,
+  generateEslintConfig,
+  generatePrettierConfig,
+  generateVitestConfig,
+  generateJestConfig,
+  generateReadme,
+  generateGitignore,
+  generateNpmignore,
+  generateEditorConfig,
+  generateRootIndexJs,
+  generateRootIndexMjs,
+  generateRootIndexDts,
+  generateCIWorkflow,
+  generateCDWorkflow,
+  generateChangesetsVersionWorkflow,
+  generateChangesetsPublishWorkflow,
+  generateChangesetConfig,
+  generateChangesetReadme,
+  generateSemanticReleaseWorkflow,
+  generateSemanticReleaseConfig,
+  generateCommitlintConfig,
+  generateCommitMsgHook,
+  generateReleasePleaseWorkflow,
+  generateReleasePleaseConfig,
+  generateReleasePleaseManifest,
+  generateDependabotConfig,
+  generateDependabotAutoMergeWorkflow,
+  generateGetTokenScript,
+  usesPublishToken,
+  generateReleaseScript,
+  generateSourceFile,
+  generateTestFile,
+  generateCliFile,
+  generateCliTestFile,
+  generateTsConfigBase,
+  generateMemberTsConfig,
+  getLintingDevDependencyNames,
+  getMemberDir,
+  generateWorkspacePackageJson,
+  generatePnpmWorkspace,
+  generateWorkspaceReadme,
+} from './generators/index.js';
+import { type ActionVersionResult, fetchLatestActionVersions } from './actionsFetcher.js';
+import type { NodeVersionConfig } from './nodeFetcher.js';
+import type { FetchOptions } from './versionFetcher.js';
+import { type FileMap, addFile, writeFileMap, EXECUTABLE_FILE_MODE } from './fileMap.js';
+import {
+  FORGE_METADATA_FILE,
+  createForgeMetadata,
+  serializeForgeMetadata,
+} from './forgeMetadata.js';
+
+/**
+ * Versions that were resolved while generating the project
+ */
+export interface ResolvedVersions {
+  devDependencies: Record<string, string>;
+  node: NodeVersionConfig;
+  actions: Record<string, string>;
+}
+
+export interface GeneratedProject {
+  files: FileMap;
+  /** Version fetch warnings (young releases, fallbacks) */
+  warnings: string[];
+  versions: ResolvedVersions;
+}
+
+export interface CreateProjectResult {
+  targetDir: string;
+  /** Paths of the written files, relative to targetDir, in write order */
+  files: string[];
+  /** Version fetch warnings (young releases, fallbacks) */
+  warnings: string[];
+  versions: ResolvedVersions;
+}
+
+/**
+ * Generates every project file in memory without touching the file system
+ * Used by createProject and by --dry-run, so both always agree
+ */
+export async function generateProjectFiles(
+  config: ProjectConfig,
+  options: FetchOptions = {}
+): Promise<GeneratedProject> {
+  if (config.workspace) {
+    return generateWorkspaceFiles(config, options);
+  }
+
+  const files: FileMap = new Map();
+
+  // Create example source file
+  const ext = config.language === 'typescript' ? 'ts' : 'js';
+  addFile(files, `src/index.${ext}`, generateSourceFile(config));
+
+  // Create test file if testing is enabled
+  if (config.testRunner !== 'none') {
+    addFile(files, `src/index.test.${ext}`, generateTestFile(config));
+  }
+
+  // CLI entry and its tests; JavaScript bins run straight from src/, so they must be executable
+  if (config.projectKind === 'cli') {
+    addFile(
+      files,
+      `src/cli.${ext}`,
+      generateCliFile(config),
+      config.language === 'javascript' ? EXECUTABLE_FILE_MODE : undefined
+    );
+    if (config.testRunner !== 'none') {
+      addFile(files, `src/cli.test.${ext}`, generateCliTestFile(config));
+    }
+  }
+
+  // Generate configuration files with dynamic version fetching
+  const { packageJson, warnings, nodeConfig } = await generatePackageJson(config, options);
+
+  // Fetch GitHub Actions versions
+  const actionVersions = await fetchLatestActionVersions(options);
+
+  // Collect warnings from action version fetching
+  for (const [, result] of actionVersions) {
+    if (result.warning) {
+      warnings.push(result.warning);
+    }
+  }
+
+  addFile(files, 'package.json', JSON.stringify(packageJson, null, 2));
+  addFile(files, 'README.md', generateReadme(config));
+  addFile(files, '.gitignore', generateGitignore());
+
+  // TypeScript-specific files
+  if (config.language === 'typescript') {
+    addFile(files, '.npmignore', generateNpmignore(config));
+    addFile(files, 'tsconfig.json', JSON.stringify(generateTsConfig(config), null, 2));
+    addFile(files, 'tsup.config.ts', generateTsupConfig(config));
+
+    // Generate root index files for better IDE experience
+    // Following the pattern used by axios, express, and jsforce
+    addFile(files, 'index.js', generateRootIndexJs(config));
+    addFile(files, 'index.d.ts', generateRootIndexDts(config));
+
+    // For dual format, also generate index.mjs
+    if (config.moduleType === 'dual') {
+      addFile(files, 'index.mjs', generateRootIndexMjs(config));
+    }
+  }
+
+  // Linting files
+  if (config.useLinting) {
+    addFile(files, 'eslint.config.js', generateEslintConfig(config));
+    addFile(files, '.prettierrc', JSON.stringify(generatePrettierConfig(), null, 2));
+    addFile(files, '.editorconfig', generateEditorConfig());
+  }
+
+  // Test configuration files
+  if (config.testRunner === 'vitest') {
+    addFile(files, 'vitest.config.ts', generateVitestConfig());
+  } else if (config.testRunner === 'jest') {
+    addFile(files, `jest.config.${ext}`, generateJestConfig(config));
+  }
+
+  // CD publish workflow and release tooling
+  if (config.setupCD) {
+    addReleaseFiles(files, config, nodeConfig, actionVersions, packageJson.version);
+  }
+
+  // CI workflow
+  if (config.setupCI) {
+    addFile(
+      files,
+      '.github/workflows/ci.yml',
+      generateCIWorkflow(config, nodeConfig, actionVersions)
+    );
+  }
+
+  // Dependabot configuration and auto-merge workflow
+  if (config.useDependabot) {
+    addFile(files, '.github/dependabot.yml', generateDependabotConfig());
+    addFile(
+      files,
+      '.github/workflows/dependabot-auto-merge.yml',
+      generateDependabotAutoMergeWorkflow(actionVersions)
+    );
+  }
+
+  // Generator version and template contents, the merge base for `upgrade`
+  addFile(files, FORGE_METADATA_FILE, serializeForgeMetadata(createForgeMetadata(config, files)));
+
+  return {
+    files,
+    warnings,
+    versions: {
+      devDependencies: packageJson.devDependencies,
+      node: nodeConfig,
+      actions: Object.fromEntries(
+        [...actionVersions].map(([key, result]) => [key, result.version])
+      ),
+    },
+  };
+}
+
+/**
+ * Adds the publish workflow and the files of the configured release strategy
+ * Shared with `add cd`
+ * @param version Current package.json version, which release-please releases from
+ */
+export function addReleaseFiles(
+  files: FileMap,
+  config: ProjectConfig,
+  nodeConfig: NodeVersionConfig,
+  actionVersions: Map<string, ActionVersionResult>,
+  version: string
+): void {
+  if (config.releaseStrategy === 'changesets') {
+    addFile(files, '.changeset/config.json', generateChangesetConfig());
+    addFile(files, '.changeset/README.md', generateChangesetReadme(config));
+    addFile(
+      files,
+      '.github/workflows/version.yml',
+      generateChangesetsVersionWorkflow(config, nodeConfig, actionVersions)
+    );
+    addFile(
+      files,
+      '.github/workflows/publish.yml',
+      generateChangesetsPublishWorkflow(config, nodeConfig, actionVersions)
+    );
+  } else if (config.releaseStrategy === 'semantic-release') {
+    addFile(files, '.releaserc.json', generateSemanticReleaseConfig());
+    addFile(files, '.commitlintrc.json', generateCommitlintConfig());
+    addFile(files, '.husky/commit-msg', generateCommitMsgHook(config), EXECUTABLE_FILE_MODE);
+    addFile(
+      files,
+      '.github/workflows/publish.yml',
+      generateSemanticReleaseWorkflow(config, nodeConfig, actionVersions)
+    );
+  } else if (config.releaseStrategy === 'release-please') {
+    addFile(files, 'release-please-config.json', generateReleasePleaseConfig(config));
+    addFile(files, '.release-please-manifest.json', generateReleasePleaseManifest(version));
+    addFile(
+      files,
+      '.github/workflows/publish.yml',
+      generateReleasePleaseWorkflow(config, nodeConfig, actionVersions)
+    );
+  } else {
+    addFile(
+      files,
+      '.github/workflows/publish.yml',
+      generateCDWorkflow(config, nodeConfig, actionVersions)
+    );
+    // Release automation script, executable on Unix
+    addFile(files, 'scripts/release.mjs', generateReleaseScript(config), EXECUTABLE_FILE_MODE);
+  }
+
+  if (usesPublishToken(config)) {
+    addFile(files, 'scripts/get-token.mjs', generateGetTokenScript(), EXECUTABLE_FILE_MODE);
+  }
+}
+
+/**
+ * Files a workspace member leaves to the workspace root
+ */
+function isWorkspaceRootFile(path: string): boolean {
+  return (
+    path === '.gitignore' ||
+    path === 'eslint.config.js' ||
+    path === '.prettierrc' ||
+    path === '.editorconfig' ||
+    path === FORGE_METADATA_FILE ||
+    path.startsWith('.github/')
+  );
+}
+
+/**
+ * Generates one workspace member package, with paths relative to the member directory
+ * Members are regular packages minus what the root shares: lint config and tools, the
+ * tsconfig base, workflows and .forge
+ */
+export async function generateWorkspaceMemberFiles(
+  config: ProjectConfig,
+  options: FetchOptions = {}
+): Promise<GeneratedProject> {
+  const { files, warnings, versions } = await generateProjectFiles(
+    {
+      ...config,
+      workspace: false,
+      initGit: false,
+      setupCD: false,
+      useCodecov: false,
+      useDependabot: false,
+    },
+    options
+  );
+
+  for (const path of [...files.keys()]) {
+    if (isWorkspaceRootFile(path)) files.delete(path);
+  }
+
+  if (config.language === 'typescript') {
+    addFile(files, 'tsconfig.json', JSON.stringify(generateMemberTsConfig(config), null, 2));
+  }
+
+  if (config.useLinting) {
+    const packageJson = JSON.parse(files.get('package.json')!.content);
+    for (const name of getLintingDevDependencyNames(config)) {
+      delete packageJson.devDependencies[name];
+    }
+    addFile(files, 'package.json', JSON.stringify(packageJson, null, 2));
+  }
+
+  return { files, warnings, versions };
+}
+
+/**
+ * Generates a workspace root with the configured package as its first member
+ */
+async function generateWorkspaceFiles(
+  config: ProjectConfig,
+  options: FetchOptions
+): Promise<GeneratedProject> {
+  const member = await generateWorkspaceMemberFiles(config, options);
+  const { devDependencies, node: nodeConfig, actions } = member.versions;
+  const actionVersions = new Map<string, ActionVersionResult>(
+    Object.entries(actions).map(([key, version]) => [key, { version }])
+  );
+  const files: FileMap = new Map();
+
+  // Linting tools live at the root next to the shared eslint.config.js
+  const rootDevDependencies = Object.fromEntries(
+    config.useLinting
+      ? getLintingDevDependencyNames(config)
+          .filter(name => name in devDependencies)
+          .map(name => [name, devDependencies[name]])
+      : []
+  );
+  const packageJson = generateWorkspacePackageJson(config, {
+    nodeEngines: nodeConfig.engines,
+    devDependencies: rootDevDependencies,
+  });
+
+  addFile(files, 'package.json', JSON.stringify(packageJson, null, 2));
+  addFile(files, 'README.md', generateWorkspaceReadme(config));
+  addFile(files, '.gitignore', generateGitignore());
+
+  if (config.packageManager === 'pnpm') {
+    addFile(files, 'pnpm-workspace.yaml', generatePnpmWorkspace());
+  }
+
+  if (config.language === 'typescript') {
+    addFile(files, 'tsconfig.base.json', JSON.stringify(generateTsConfigBase(config), null, 2));
+  }
+
+  if (config.useLinting) {
+    addFile(files, 'eslint.config.js', generateEslintConfig(config));
+    addFile(files, '.prettierrc', JSON.stringify(generatePrettierConfig(), null, 2));
+    addFile(files, '.editorconfig', generateEditorConfig());
+  }
+
+  // Root scripts fan out to every member, so one CI workflow covers the workspace
+  if (config.setupCI) {
+    addFile(
+      files,
+      '.github/workflows/ci.yml',
+      generateCIWorkflow(config, nodeConfig, actionVersions)
+    );
+  }
+
+  if (config.useDependabot) {
+    addFile(files, '.github/dependabot.yml', generateDependabotConfig());
+    addFile(
+      files,
+      '.github/workflows/dependabot-auto-merge.yml',
+      generateDependabotAutoMergeWorkflow(actionVersions)
+    );
+  }
+
+  // Only root files are templates; the config is what `add package` builds new members from
+  const metadata = serializeForgeMetadata(createForgeMetadata(config, files));
+
+  const memberDir = getMemberDir(config.packageName);
+  for (const [path, file] of member.files) {
+    files.set(`${memberDir}/${path}`, file);
+  }
+
+  addFile(files, FORGE_METADATA_FILE, metadata);
+
+  return { files, warnings: member.warnings, versions: member.versions };
+}
+
+/**
+ * Creates the project directory structure and files
+ */
+export async function createProject(
+  config: ProjectConfig,
+  targetDir: string,
+  options: FetchOptions = {}
+): Promise<CreateProjectResult> {
+  const { files, warnings, versions } = await generateProjectFiles(config, options);
+
+  await writeFileMap(files, targetDir);
+
+  return {
+    targetDir,
+    files: [...files.keys()],
+    warnings,
+    versions,
+  };
+}
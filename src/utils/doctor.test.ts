@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { findScriptReferences, isPublished, runDoctor } from './doctor';
+
+describe('isPublished', () => {
+  it('should follow the files field', () => {
+    const pkg = { files: ['dist', 'index.js', 'index.d.ts'] };
+
+    expect(isPublished('dist/index.js', pkg)).toBe(true);
+    expect(isPublished('./index.d.ts', pkg)).toBe(true);
+    expect(isPublished('index.mjs', pkg)).toBe(false);
+    expect(isPublished('src/index.ts', pkg)).toBe(false);
+  });
+
+  it('should support globs in the files field', () => {
+    const pkg = { files: ['lib/**/*.js', '*.d.ts'] };
+
+    expect(isPublished('lib/utils/a.js', pkg)).toBe(true);
+    expect(isPublished('index.d.ts', pkg)).toBe(true);
+    expect(isPublished('lib/utils/a.ts', pkg)).toBe(false);
+  });
+
+  it('should always publish package.json, the README and main', () => {
+    const pkg = { files: ['dist'], main: './index.js' };
+
+    expect(isPublished('package.json', pkg)).toBe(true);
+    expect(isPublished('README.md', pkg)).toBe(true);
+    expect(isPublished('index.js', pkg)).toBe(true);
+  });
+
+  it('should apply .npmignore patterns when files is not set', () => {
+    const npmignore = ['# Source', 'src/', '*.ts', '!*.d.ts', '/tests'].join('\n');
+
+    expect(isPublished('dist/index.js', {}, npmignore)).toBe(true);
+    expect(isPublished('src/index.js', {}, npmignore)).toBe(false);
+    expect(isPublished('dist/utils/helper.ts', {}, npmignore)).toBe(false);
+    expect(isPublished('dist/index.d.ts', {}, npmignore)).toBe(true);
+    expect(isPublished('tests/a.test.js', {}, npmignore)).toBe(false);
+    expect(isPublished('lib/tests/a.js', {}, npmignore)).toBe(true);
+  });
+});
+
+describe('findScriptReferences', () => {
+  it('should find scripts run by each package manager', () => {
+    expect(findScriptReferences('npm run lint && npm run build')).toEqual(['lint', 'build']);
+    expect(findScriptReferences('pnpm run test:coverage')).toEqual(['test:coverage']);
+    expect(findScriptReferences('npm test')).toEqual(['test']);
+    expect(findScriptReferences('bun run typecheck')).toEqual(['typecheck']);
+  });
+
+  it('should treat yarn shorthand as a script but not yarn commands', () => {
+    expect(findScriptReferences('yarn install --frozen-lockfile')).toEqual([]);
+    expect(findScriptReferences('yarn build')).toEqual(['build']);
+    expect(findScriptReferences('yarn npm publish')).toEqual([]);
+  });
+
+  it('should ignore commands that do not run scripts', () => {
+    expect(findScriptReferences('npm ci')).toEqual([]);
+    expect(findScriptReferences('npm publish --access public')).toEqual([]);
+    expect(findScriptReferences('npx tsc --noEmit')).toEqual([]);
+  });
+});
+
+describe('runDoctor', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    // engines.node is checked against the bundled Node.js release schedule
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(null, { status: 404 })));
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function createPackage(files: Record<string, string | object>): Promise<string> {
+    dir = await mkdtemp(join(tmpdir(), 'forge-doctor-'));
+    for (const [path, content] of Object.entries(files)) {
+      await mkdir(dirname(join(dir, path)), { recursive: true });
+      await writeFile(
+        join(dir, path),
+        typeof content === 'string' ? content : JSON.stringify(content, null, 2)
+      );
+    }
+    return dir;
+  }
+
+  const ciWorkflow = [
+    'name: CI',
+    'on: [pull_request]',
+    'jobs:',
+    '  test:',
+    '    runs-on: ubuntu-latest',
+    '    steps:',
+    '      - run: npm ci',
+    '      - run: npm run lint',
+    '      - run: npm test',
+  ].join('\n');
+
+  it('should pass a healthy package', async () => {
+    const report = await runDoctor(
+      await createPackage({
+        'package.json': {
+          name: 'healthy',
+          main: './index.js',
+          types: './index.d.ts',
+          exports: { '.': { types: './index.d.ts', default: './index.js' } },
+          files: ['dist', 'index.js', 'index.d.ts'],
+          engines: { node: '>=99.0.0' },
+          scripts: { lint: 'eslint .', test: 'vitest run' },
+        },
+        'tsconfig.json': {},
+        'index.js': "export * from './dist/index.js';\n",
+        'index.d.ts': "export * from './dist/index';\n",
+        '.github/workflows/ci.yml': ciWorkflow,
+      })
+    );
+
+    expect(report.errors).toBe(0);
+    expect(report.warnings).toBe(0);
+  });
+
+  it('should report each problem with a fix', async () => {
+    const report = await runDoctor(
+      await createPackage({
+        'package.json': {
+          name: 'broken',
+          exports: { '.': { import: './index.mjs', require: './index.js' } },
+          files: ['index.js', 'index.d.ts'],
+          engines: { node: '>=14' },
+          scripts: { test: 'vitest run' },
+        },
+        'tsconfig.json': {},
+        'index.js': "module.exports = require('./lib/index.js');\n",
+        'index.d.ts': "export * from './dist/index';\n",
+        '.github/workflows/ci.yml': ciWorkflow,
+      })
+    );
+
+    const issuesFor = (id: string) =>
+      report.checks.find(check => check.id === id)?.issues.map(issue => issue.message) ?? [];
+
+    expect(issuesFor('exports')).toEqual([
+      'exports["."]["import"] points to ./index.mjs, which would not be published',
+    ]);
+    expect(issuesFor('root-index')).toEqual([
+      'index.js does not re-export from ./dist',
+      'index.mjs is missing',
+    ]);
+    expect(issuesFor('engines')[0]).toMatch(/allows Node\.js 14, which reached End-of-Life/);
+    expect(issuesFor('ci-scripts')).toEqual([
+      '.github/workflows/ci.yml runs the "lint" script, which is not in package.json',
+    ]);
+    expect(report.checks.flatMap(check => check.issues).every(issue => issue.fix)).toBe(true);
+    expect(report.errors).toBe(5);
+  });
+
+  it('should throw without a package.json', async () => {
+    await expect(runDoctor(await createPackage({}))).rejects.toThrow();
+  });
+});
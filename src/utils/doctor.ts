@@ -0,0 +1,475 @@
+/**
+ * `doctor` health checks
+ * Verifies that a package still follows the conventions the generator sets up and
+ * suggests a fix for every problem found
+ */
+
+import { existsSync } from 'fs';
+import { readFile, readdir } from 'fs/promises';
+import { join } from 'path';
+import YAML from 'yaml';
+import {
+  type NodeSchedule,
+  getEOLDate,
+  getNodeSchedule,
+  isPastEOL,
+  resolveNodeVersions,
+} from './nodeFetcher.js';
+import { SUPPORTED_ACTIONS, fetchLatestActionVersions } from './actionsFetcher.js';
+
+export interface DoctorIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  fix?: string;
+}
+
+export interface DoctorCheck {
+  id: 'exports' | 'root-index' | 'engines' | 'actions' | 'ci-scripts';
+  title: string;
+  issues: DoctorIssue[];
+}
+
+export interface DoctorReport {
+  checks: DoctorCheck[];
+  errors: number;
+  warnings: number;
+}
+
+interface PackageJson {
+  name?: string;
+  main?: string;
+  module?: string;
+  types?: string;
+  exports?: unknown;
+  bin?: string | Record<string, string>;
+  files?: string[];
+  engines?: { node?: string };
+  scripts?: Record<string, string>;
+}
+
+interface WorkflowFile {
+  path: string;
+  content: string;
+}
+
+/** Files npm always publishes, whatever `files` or .npmignore say */
+const ALWAYS_PUBLISHED = /^(package\.json|readme(\..*)?|licen[cs]e(\..*)?|changelog(\..*)?)$/i;
+
+/** yarn commands that are not script names (`yarn build` runs a script, `yarn add` doesn't) */
+const YARN_BUILTINS = new Set([
+  'add',
+  'bin',
+  'cache',
+  'config',
+  'dlx',
+  'exec',
+  'info',
+  'init',
+  'install',
+  'link',
+  'node',
+  'npm',
+  'pack',
+  'publish',
+  'remove',
+  'run',
+  'set',
+  'up',
+  'upgrade',
+  'version',
+  'why',
+  'workspace',
+  'workspaces',
+]);
+
+async function readTextFile(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Converts a gitignore-style glob to a regular expression source
+ */
+function globToRegExp(glob: string): string {
+  return glob
+    .split(/(\*\*\/?|\*|\?)/)
+    .map(part => {
+      if (part === '**/') return '(?:.*/)?';
+      if (part === '**') return '.*';
+      if (part === '*') return '[^/]*';
+      if (part === '?') return '[^/]';
+      return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+}
+
+/**
+ * Tests a path against one .npmignore/.gitignore pattern
+ * Patterns without a slash match at any depth; a trailing slash matches directories only
+ */
+function matchesIgnorePattern(path: string, pattern: string): boolean {
+  const directoryOnly = pattern.endsWith('/');
+  const trimmed = pattern.replace(/^\//, '').replace(/\/$/, '');
+  const anchored = pattern.startsWith('/') || trimmed.includes('/');
+  const source = globToRegExp(trimmed);
+  const regex = new RegExp(
+    anchored
+      ? `^${source}${directoryOnly ? '/' : '(?:/|$)'}`
+      : `(?:^|/)${source}${directoryOnly ? '/' : '(?:/|$)'}`
+  );
+  return regex.test(path);
+}
+
+/**
+ * Decides whether npm would publish a path, following the `files` field or, without it,
+ * .npmignore (falling back to .gitignore)
+ */
+export function isPublished(
+  path: string,
+  pkg: Pick<PackageJson, 'files' | 'main'>,
+  ignoreFile?: string
+): boolean {
+  const normalized = path.replace(/^\.\//, '');
+
+  if (ALWAYS_PUBLISHED.test(normalized)) return true;
+  if (pkg.main && normalized === pkg.main.replace(/^\.\//, '')) return true;
+
+  if (pkg.files) {
+    return pkg.files.some(entry => {
+      const pattern = entry.replace(/^\.\//, '').replace(/\/$/, '');
+      return new RegExp(`^${globToRegExp(pattern)}(?:/|$)`).test(normalized);
+    });
+  }
+
+  // Last matching pattern wins, negations re-include
+  let published = true;
+  for (const line of (ignoreFile ?? '').split('\n')) {
+    const pattern = line.trim();
+    if (!pattern || pattern.startsWith('#')) continue;
+    if (pattern.startsWith('!')) {
+      if (matchesIgnorePattern(normalized, pattern.slice(1))) published = true;
+    } else if (matchesIgnorePattern(normalized, pattern)) {
+      published = false;
+    }
+  }
+  return published;
+}
+
+/**
+ * Collects every file path referenced by main/module/types, the exports map and bin
+ */
+function collectEntryPoints(pkg: PackageJson): { field: string; target: string }[] {
+  const entries: { field: string; target: string }[] = [];
+
+  for (const field of ['main', 'module', 'types'] as const) {
+    const target = pkg[field];
+    if (typeof target === 'string') entries.push({ field, target });
+  }
+
+  const walk = (value: unknown, field: string) => {
+    if (typeof value === 'string') {
+      entries.push({ field, target: value });
+    } else if (value && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value)) {
+        walk(child, `${field}[${JSON.stringify(key)}]`);
+      }
+    }
+  };
+  walk(pkg.exports, 'exports');
+  walk(pkg.bin, 'bin');
+
+  return entries;
+}
+
+/**
+ * The exports map (and main/module/types/bin) must point at files npm will publish
+ */
+function checkExports(projectDir: string, pkg: PackageJson, ignoreFile?: string): DoctorIssue[] {
+  const issues: DoctorIssue[] = [];
+  const hasDist = existsSync(join(projectDir, 'dist'));
+
+  for (const { field, target } of collectEntryPoints(pkg)) {
+    const path = target.replace(/^\.\//, '');
+    if (path.includes('*')) continue;
+
+    if (!isPublished(path, pkg, ignoreFile)) {
+      issues.push({
+        severity: 'error',
+        message: `${field} points to ./${path}, which would not be published`,
+        fix: pkg.files
+          ? `Add "${path.split('/')[0]}" to "files" in package.json`
+          : `Remove the pattern excluding ${path} from .npmignore`,
+      });
+      continue;
+    }
+
+    // Build output only exists after a build; everything else must exist now
+    const isBuildOutput = path.startsWith('dist/');
+    if ((!isBuildOutput || hasDist) && !existsSync(join(projectDir, path))) {
+      issues.push({
+        severity: 'error',
+        message: `${field} points to ./${path}, which does not exist`,
+        fix: isBuildOutput
+          ? 'Check the tsup entry and output names match the exports map'
+          : `Create ./${path} or update ${field} in package.json`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Root index files must re-export the compiled output in dist/
+ */
+async function checkRootIndex(
+  projectDir: string,
+  pkg: PackageJson,
+  ignoreFile?: string
+): Promise<DoctorIssue[]> {
+  // Only TypeScript packages ship root re-export files
+  if (!existsSync(join(projectDir, 'tsconfig.json'))) return [];
+
+  const issues: DoctorIssue[] = [];
+  const required = ['index.js', 'index.d.ts'];
+  if (JSON.stringify(pkg.exports ?? {}).includes('index.mjs')) required.push('index.mjs');
+
+  for (const file of required) {
+    const content = await readTextFile(join(projectDir, file));
+    if (content === undefined) {
+      issues.push({
+        severity: 'error',
+        message: `${file} is missing`,
+        // upgrade keeps deleted template files deleted, so it would not restore this one
+        fix: `Recreate ${file} so it re-exports the build output in ./dist`,
+      });
+    } else if (!/['"]\.\/dist\//.test(content)) {
+      issues.push({
+        severity: 'error',
+        message: `${file} does not re-export from ./dist`,
+        fix: `Re-export the build output, e.g. export * from './dist/index.js'`,
+      });
+    }
+  }
+
+  if (issues.length === 0 && !isPublished('dist/index.js', pkg, ignoreFile)) {
+    issues.push({
+      severity: 'error',
+      message: 'Root index files re-export ./dist, which would not be published',
+      fix: pkg.files
+        ? 'Add "dist" to "files" in package.json'
+        : 'Remove the pattern excluding dist/ from .npmignore',
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * engines.node must not allow Node.js versions past End-of-Life
+ */
+function checkEngines(pkg: PackageJson, schedule: NodeSchedule): DoctorIssue[] {
+  const range = pkg.engines?.node;
+  // Oldest LTS line still in support
+  const recommended = resolveNodeVersions(schedule)?.engines;
+
+  if (!range) {
+    return [
+      {
+        severity: 'warning',
+        message: 'engines.node is not set',
+        fix: recommended
+          ? `Add "engines": { "node": "${recommended}" } to package.json`
+          : 'Add engines.node to package.json',
+      },
+    ];
+  }
+
+  // The lowest major the range mentions is the oldest one it allows
+  const majors = [...range.matchAll(/(?:^|[^\d.])(\d+)(?:\.\d+|\.x)*/g)].map(match =>
+    parseInt(match[1], 10)
+  );
+  if (majors.length === 0) return [];
+
+  const lowest = Math.min(...majors);
+  if (!isPastEOL(lowest, schedule)) return [];
+
+  const eolDate = getEOLDate(lowest, schedule);
+  return [
+    {
+      severity: 'error',
+      message: `engines.node "${range}" allows Node.js ${lowest}, which reached End-of-Life${
+        eolDate ? ` on ${eolDate.toISOString().slice(0, 10)}` : ''
+      }`,
+      fix: recommended
+        ? `Set engines.node to "${recommended}"`
+        : 'Raise engines.node to a supported LTS line',
+    },
+  ];
+}
+
+async function readWorkflowFiles(projectDir: string): Promise<WorkflowFile[]> {
+  const dir = join(projectDir, '.github', 'workflows');
+  let entries: string[];
+  try {
+    entries = await readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const workflows: WorkflowFile[] = [];
+  for (const entry of entries.filter(name => /\.ya?ml$/.test(name)).sort()) {
+    workflows.push({
+      path: `.github/workflows/${entry}`,
+      content: (await readTextFile(join(dir, entry))) ?? '',
+    });
+  }
+  return workflows;
+}
+
+/**
+ * Supported actions must be on their latest major version
+ */
+async function checkActions(workflows: WorkflowFile[]): Promise<DoctorIssue[]> {
+  const used = workflows.flatMap(workflow =>
+    [...workflow.content.matchAll(/uses:\s*['"]?([\w.-]+\/[\w.-]+)@v(\d+)/g)].map(match => ({
+      workflow: workflow.path,
+      action: match[1],
+      major: parseInt(match[2], 10),
+    }))
+  );
+  const supported = new Set(SUPPORTED_ACTIONS.map(action => action.key));
+  const relevant = used.filter(use => supported.has(use.action));
+  if (relevant.length === 0) return [];
+
+  const issues: DoctorIssue[] = [];
+  const latest = await fetchLatestActionVersions();
+
+  for (const use of relevant) {
+    const result = latest.get(use.action);
+    if (!result || result.usedFallback) {
+      issues.push({
+        severity: 'warning',
+        message: `Could not check the latest version of ${use.action}`,
+      });
+      continue;
+    }
+
+    const latestMajor = parseInt(result.version.replace(/^v/, ''), 10);
+    if (use.major < latestMajor) {
+      issues.push({
+        severity: 'error',
+        message: `${use.workflow} uses ${use.action}@v${use.major}; latest is ${result.version}`,
+        fix: `Update to ${use.action}@${result.version} (or run "forge-npm-pkg upgrade")`,
+      });
+    }
+  }
+
+  // Report each unverifiable action once
+  return issues.filter(
+    (issue, index) => issues.findIndex(other => other.message === issue.message) === index
+  );
+}
+
+/**
+ * Extracts the package.json scripts a shell command runs
+ * @example "npm run lint && npm test" -> ["lint", "test"]
+ */
+export function findScriptReferences(command: string): string[] {
+  const scripts = new Set<string>();
+
+  for (const match of command.matchAll(/\b(?:npm|pnpm|yarn|bun)\s+run\s+([a-z][\w:.-]*)/gi)) {
+    scripts.add(match[1]);
+  }
+  for (const match of command.matchAll(/\b(?:npm|pnpm|yarn|bun)\s+(test|start)\b/g)) {
+    scripts.add(match[1]);
+  }
+  // yarn runs scripts without `run`
+  for (const match of command.matchAll(/\byarn\s+([a-z][\w:.-]*)/gi)) {
+    if (!YARN_BUILTINS.has(match[1])) scripts.add(match[1]);
+  }
+
+  return [...scripts];
+}
+
+/**
+ * Every script a workflow runs must exist in package.json
+ */
+function checkCIScripts(workflows: WorkflowFile[], pkg: PackageJson): DoctorIssue[] {
+  const issues: DoctorIssue[] = [];
+
+  for (const workflow of workflows) {
+    let data: { jobs?: Record<string, { steps?: { run?: string }[] }> } | undefined;
+    try {
+      data = YAML.parse(workflow.content);
+    } catch {
+      issues.push({ severity: 'warning', message: `${workflow.path} is not valid YAML` });
+      continue;
+    }
+
+    const commands = Object.values(data?.jobs ?? {}).flatMap(job =>
+      (job?.steps ?? []).map(step => step?.run).filter((run): run is string => !!run)
+    );
+
+    for (const script of new Set(commands.flatMap(findScriptReferences))) {
+      if (pkg.scripts?.[script] === undefined) {
+        issues.push({
+          severity: 'error',
+          message: `${workflow.path} runs the "${script}" script, which is not in package.json`,
+          fix: `Add a "${script}" script to package.json or remove the step`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Runs every health check against a package directory
+ * Throws when the directory has no readable package.json
+ */
+export async function runDoctor(projectDir: string): Promise<DoctorReport> {
+  const pkg: PackageJson = JSON.parse(await readFile(join(projectDir, 'package.json'), 'utf-8'));
+  const workflows = await readWorkflowFiles(projectDir);
+
+  const ignoreFile =
+    (await readTextFile(join(projectDir, '.npmignore'))) ??
+    (await readTextFile(join(projectDir, '.gitignore')));
+
+  const [rootIndexIssues, actionIssues, nodeSchedule] = await Promise.all([
+    checkRootIndex(projectDir, pkg, ignoreFile),
+    checkActions(workflows),
+    getNodeSchedule(),
+  ]);
+
+  const checks: DoctorCheck[] = [
+    {
+      id: 'exports',
+      title: 'Exports map matches published files',
+      issues: checkExports(projectDir, pkg, ignoreFile),
+    },
+    { id: 'root-index', title: 'Root index files re-export dist', issues: rootIndexIssues },
+    {
+      id: 'engines',
+      title: 'engines.node is not End-of-Life',
+      issues: checkEngines(pkg, nodeSchedule),
+    },
+    { id: 'actions', title: 'GitHub Actions are on their latest major', issues: actionIssues },
+    {
+      id: 'ci-scripts',
+      title: 'Scripts used by workflows exist',
+      issues: checkCIScripts(workflows, pkg),
+    },
+  ];
+
+  const all = checks.flatMap(check => check.issues);
+  return {
+    checks,
+    errors: all.filter(issue => issue.severity === 'error').length,
+    warnings: all.filter(issue => issue.severity === 'warning').length,
+  };
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'crypto';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { cachedFetchJson, clearCache, getCacheInfo } from './fetchCache';
+
+const REGISTRY_URL = 'https://registry.example.com/pkg';
+
+function jsonResponse(
+  body: unknown,
+  init: { status?: number; headers?: Record<string, string> } = {}
+): Response {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: { 'content-type': 'application/json', ...init.headers },
+  });
+}
+
+describe('cachedFetchJson', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'forge-cache-'));
+    vi.stubEnv('FORGE_NPM_PKG_CACHE_DIR', dir);
+    vi.stubEnv('FORGE_NPM_PKG_NO_CACHE', '');
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should serve fresh entries without a request', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ version: '1.0.0' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await cachedFetchJson(REGISTRY_URL, { ttl: 60_000 });
+    const second = await cachedFetchJson(REGISTRY_URL, { ttl: 60_000 });
+
+    expect(second).toEqual({ version: '1.0.0' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should revalidate stale entries with their ETag', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ version: '1.0.0' }, { headers: { etag: '"v1"' } }))
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await cachedFetchJson(REGISTRY_URL, { ttl: 0 });
+    const revalidated = await cachedFetchJson(REGISTRY_URL, { ttl: 0 });
+
+    expect(revalidated).toEqual({ version: '1.0.0' });
+    expect(fetchMock.mock.calls[1][1].headers).toMatchObject({ 'If-None-Match': '"v1"' });
+  });
+
+  it('should store the selected part and fall back to it when the request fails', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockResolvedValueOnce(jsonResponse({ version: '1.0.0', readme: 'x'.repeat(1000) }))
+        .mockRejectedValueOnce(new Error('offline'))
+    );
+    const select = (body: unknown) => ({ version: (body as { version: string }).version });
+
+    await cachedFetchJson(REGISTRY_URL, { ttl: 0, select });
+    const stale = await cachedFetchJson(REGISTRY_URL, { ttl: 0, select });
+
+    expect(stale).toEqual({ version: '1.0.0' });
+    expect((await getCacheInfo()).size).toBeLessThan(500);
+  });
+
+  it('should ignore entries written in an older format', async () => {
+    // Written by a release whose select() kept fewer fields
+    await writeFile(
+      join(dir, `${createHash('sha256').update(REGISTRY_URL).digest('hex')}.json`),
+      JSON.stringify({ url: REGISTRY_URL, etag: '"v1"', fetchedAt: Date.now(), body: {} })
+    );
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ version: '1.0.0' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await cachedFetchJson(REGISTRY_URL, { ttl: 60_000 })).toEqual({ version: '1.0.0' });
+    expect(fetchMock.mock.calls[0][1].headers).not.toHaveProperty('If-None-Match');
+  });
+
+  it('should not cache failed responses', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({}, { status: 404 })));
+
+    await expect(cachedFetchJson(REGISTRY_URL, { ttl: 60_000 })).rejects.toThrow('HTTP 404');
+    expect((await getCacheInfo()).entries).toBe(0);
+  });
+
+  it('should report and clear the cached entries', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockImplementation(async () => jsonResponse({ ok: true }))
+    );
+
+    await cachedFetchJson(`${REGISTRY_URL}/a`, { ttl: 60_000 });
+    await cachedFetchJson(`${REGISTRY_URL}/b`, { ttl: 60_000 });
+
+    const info = await getCacheInfo();
+    expect(info).toMatchObject({ dir, entries: 2 });
+    expect(info.size).toBeGreaterThan(0);
+
+    expect(await clearCache()).toBe(2);
+    expect((await getCacheInfo()).entries).toBe(0);
+  });
+
+  it('should bypass the cache when FORGE_NPM_PKG_NO_CACHE is set', async () => {
+    vi.stubEnv('FORGE_NPM_PKG_NO_CACHE', '1');
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse({ version: '1.0.0' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await cachedFetchJson(REGISTRY_URL, { ttl: 60_000 });
+    await cachedFetchJson(REGISTRY_URL, { ttl: 60_000 });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect((await getCacheInfo()).entries).toBe(0);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * On-disk cache for the version fetchers
+ * Keeps registry, nodejs.org and GitHub responses in the OS cache directory for a TTL, then
+ * revalidates them with If-None-Match so an unchanged resource costs a 304 instead of a download
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, readdir, rename, rm, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import envPaths from 'env-paths';
+import { httpGet } from './httpClient.js';
+
+const paths = envPaths('forge-npm-pkg', { suffix: '' });
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * How long a response is used without asking the server again
+ */
+export const CACHE_TTL = {
+  /** npm registry metadata */
+  registry: HOUR,
+  /** Node.js release schedule, which changes a few times a year */
+  nodeSchedule: 24 * HOUR,
+  /** GitHub releases; unauthenticated API calls are limited to 60 an hour */
+  github: 6 * HOUR,
+};
+
+/**
+ * Bumped whenever a fetcher's select() keeps different fields, since an ETag revalidation would
+ * otherwise keep serving the old shape until the resource itself changes
+ */
+const CACHE_FORMAT = 2;
+
+interface CacheEntry<T> {
+  format: number;
+  url: string;
+  etag?: string;
+  /** When the entry was last downloaded or revalidated (epoch ms) */
+  fetchedAt: number;
+  body: T;
+}
+
+export interface CachedFetchOptions<T> {
+  ttl: number;
+  headers?: Record<string, string>;
+  /** Keeps only what the caller needs, so large documents (full packuments) stay small on disk */
+  select?: (body: unknown) => T;
+}
+
+export interface CacheInfo {
+  dir: string;
+  entries: number;
+  /** Total size in bytes */
+  size: number;
+  oldest?: Date;
+  newest?: Date;
+}
+
+/**
+ * Directory holding the cached responses
+ * FORGE_NPM_PKG_CACHE_DIR overrides the OS default
+ */
+export function getCacheDir(): string {
+  return process.env.FORGE_NPM_PKG_CACHE_DIR || join(paths.cache, 'http');
+}
+
+/**
+ * FORGE_NPM_PKG_NO_CACHE bypasses the cache entirely (the test suite sets it)
+ */
+function isCacheEnabled(): boolean {
+  return !process.env.FORGE_NPM_PKG_NO_CACHE;
+}
+
+function getEntryPath(url: string): string {
+  return join(getCacheDir(), `${createHash('sha256').update(url).digest('hex')}.json`);
+}
+
+async function readEntry<T>(url: string): Promise<CacheEntry<T> | undefined> {
+  try {
+    const entry = JSON.parse(await readFile(getEntryPath(url), 'utf-8')) as CacheEntry<T>;
+    return entry.url === url && entry.format === CACHE_FORMAT ? entry : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Writes through a temporary file so parallel lookups never read half an entry
+ */
+async function writeEntry<T>(entry: CacheEntry<T>): Promise<void> {
+  const path = getEntryPath(entry.url);
+  const temporaryPath = `${path}.${process.pid}.tmp`;
+  try {
+    await mkdir(getCacheDir(), { recursive: true });
+    await writeFile(temporaryPath, JSON.stringify(entry));
+    await rename(temporaryPath, path);
+  } catch {
+    // An unwritable cache directory only costs speed
+    await rm(temporaryPath, { force: true }).catch(() => undefined);
+  }
+}
+
+/**
+ * Fetches a JSON document through the cache
+ * Fresh entries are returned without a request and stale ones are revalidated with their ETag.
+ * When the request fails, a stale entry is returned rather than nothing
+ * @throws When the request fails and nothing is cached
+ */
+export async function cachedFetchJson<T>(url: string, options: CachedFetchOptions<T>): Promise<T> {
+  const select = options.select ?? ((body: unknown) => body as T);
+  const enabled = isCacheEnabled();
+  const cached = enabled ? await readEntry<T>(url) : undefined;
+
+  if (cached && Date.now() - cached.fetchedAt < options.ttl) {
+    return cached.body;
+  }
+
+  try {
+    const response = await httpGet(url, {
+      headers: {
+        ...options.headers,
+        ...(cached?.etag && { 'If-None-Match': cached.etag }),
+      },
+    });
+
+    if (response.status === 304 && cached) {
+      await writeEntry({ ...cached, fetchedAt: Date.now() });
+      return cached.body;
+    }
+
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const body = select(await response.json());
+    if (enabled) {
+      await writeEntry({
+        format: CACHE_FORMAT,
+        url,
+        etag: response.headers.get('etag') ?? undefined,
+        fetchedAt: Date.now(),
+        body,
+      });
+    }
+    return body;
+  } catch (error) {
+    if (cached) return cached.body;
+    throw error;
+  }
+}
+
+/**
+ * Lists the cached entries, for `forge-npm-pkg cache info`
+ */
+export async function getCacheInfo(): Promise<CacheInfo> {
+  const dir = getCacheDir();
+  const info: CacheInfo = { dir, entries: 0, size: 0 };
+
+  let names: string[];
+  try {
+    names = (await readdir(dir)).filter(name => name.endsWith('.json'));
+  } catch {
+    return info;
+  }
+
+  for (const name of names) {
+    try {
+      const { size, mtime } = await stat(join(dir, name));
+      info.entries++;
+      info.size += size;
+      if (!info.oldest || mtime < info.oldest) info.oldest = mtime;
+      if (!info.newest || mtime > info.newest) info.newest = mtime;
+    } catch {
+      // Removed by a concurrent run
+    }
+  }
+
+  return info;
+}
+
+/**
+ * Removes every cached entry
+ * @returns Number of entries that were removed
+ */
+export async function clearCache(): Promise<number> {
+  const dir = getCacheDir();
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch {
+    return 0;
+  }
+
+  // Only cache files, in case FORGE_NPM_PKG_CACHE_DIR points somewhere shared
+  const entries = names.filter(name => name.endsWith('.json') || name.endsWith('.tmp'));
+  await Promise.all(entries.map(name => rm(join(dir, name), { force: true })));
+  return entries.filter(name => name.endsWith('.json')).length;
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, readFile, stat, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  type FileMap,
+  addFile,
+  writeFileMap,
+  formatFileTree,
+  fileMapToJson,
+  DEFAULT_FILE_MODE,
+  EXECUTABLE_FILE_MODE,
+} from './fileMap';
+
+describe('addFile', () => {
+  it('should use the default mode unless one is given', () => {
+    const files: FileMap = new Map();
+    addFile(files, 'README.md', '# Hello');
+    addFile(files, 'scripts/release.mjs', 'run()', EXECUTABLE_FILE_MODE);
+
+    expect(files.get('README.md')).toEqual({ content: '# Hello', mode: DEFAULT_FILE_MODE });
+    expect(files.get('scripts/release.mjs')?.mode).toBe(EXECUTABLE_FILE_MODE);
+  });
+});
+
+describe('formatFileTree', () => {
+  it('should list directories first, then files, alphabetically', () => {
+    const tree = formatFileTree(
+      ['package.json', 'src/index.ts', '.github/workflows/ci.yml', 'README.md', 'src/a.ts'],
+      'my-package'
+    );
+
+    expect(tree).toBe(
+      [
+        'my-package/',
+        '├── .github/',
+        '│   └── workflows/',
+        '│       └── ci.yml',
+        '├── src/',
+        '│   ├── a.ts',
+        '│   └── index.ts',
+        '├── package.json',
+        '└── README.md',
+      ].join('\n')
+    );
+  });
+});
+
+describe('fileMapToJson', () => {
+  it('should include exact contents and octal modes', () => {
+    const files: FileMap = new Map();
+    addFile(files, 'index.js', 'export {};\n');
+    addFile(files, 'scripts/release.mjs', '#!/usr/bin/env node\n', EXECUTABLE_FILE_MODE);
+
+    expect(JSON.parse(fileMapToJson(files))).toEqual({
+      files: {
+        'index.js': { mode: '0644', content: 'export {};\n' },
+        'scripts/release.mjs': { mode: '0755', content: '#!/usr/bin/env node\n' },
+      },
+    });
+  });
+});
+
+describe('writeFileMap', () => {
+  it('should write nested files in a single step', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'forge-filemap-'));
+
+    try {
+      const files: FileMap = new Map();
+      addFile(files, 'src/index.ts', 'export const x = 1;\n');
+      addFile(files, 'scripts/release.mjs', 'run()', EXECUTABLE_FILE_MODE);
+
+      await writeFileMap(files, join(dir, 'pkg'));
+
+      expect(await readFile(join(dir, 'pkg', 'src', 'index.ts'), 'utf-8')).toBe(
+        'export const x = 1;\n'
+      );
+      if (process.platform !== 'win32') {
+        const { mode } = await stat(join(dir, 'pkg', 'scripts', 'release.mjs'));
+        expect(mode & 0o111).not.toBe(0);
+      }
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
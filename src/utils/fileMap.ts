@@ -0,0 +1,113 @@
+/**
+ * In-memory file map
+ * Generators contribute files to a map that is written to disk in a single step,
+ * so dry runs can show exactly what would be created
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+
+export const DEFAULT_FILE_MODE = 0o644;
+export const EXECUTABLE_FILE_MODE = 0o755;
+
+export interface GeneratedFile {
+  content: string;
+  mode: number;
+}
+
+/**
+ * Project-relative POSIX path -> file, in insertion order
+ */
+export type FileMap = Map<string, GeneratedFile>;
+
+/**
+ * Adds a file to the map
+ * Paths always use forward slashes regardless of platform
+ */
+export function addFile(
+  files: FileMap,
+  path: string,
+  content: string,
+  mode: number = DEFAULT_FILE_MODE
+): void {
+  files.set(path, { content, mode });
+}
+
+/**
+ * Writes every file in the map below targetDir, creating directories as needed
+ */
+export async function writeFileMap(files: FileMap, targetDir: string): Promise<void> {
+  await mkdir(targetDir, { recursive: true });
+
+  for (const [path, file] of files) {
+    const fullPath = join(targetDir, ...path.split('/'));
+    await mkdir(dirname(fullPath), { recursive: true });
+    // mode is ignored on Windows
+    await writeFile(fullPath, file.content, { mode: file.mode });
+  }
+}
+
+interface TreeNode {
+  children: Map<string, TreeNode>;
+  isFile: boolean;
+}
+
+/**
+ * Renders the file map as a directory tree (directories first, then files, alphabetically)
+ * @example
+ * my-package/
+ * ├── src/
+ * │   └── index.ts
+ * └── package.json
+ */
+export function formatFileTree(paths: Iterable<string>, rootName: string): string {
+  const root: TreeNode = { children: new Map(), isFile: false };
+
+  for (const path of paths) {
+    let node = root;
+    const parts = path.split('/');
+    parts.forEach((part, index) => {
+      let child = node.children.get(part);
+      if (!child) {
+        child = { children: new Map(), isFile: index === parts.length - 1 };
+        node.children.set(part, child);
+      }
+      node = child;
+    });
+  }
+
+  const lines = [`${rootName}/`];
+
+  const render = (node: TreeNode, prefix: string): void => {
+    const entries = [...node.children.entries()].sort(([aName, a], [bName, b]) => {
+      if (a.isFile !== b.isFile) return a.isFile ? 1 : -1;
+      return aName.localeCompare(bName);
+    });
+
+    entries.forEach(([name, child], index) => {
+      const isLast = index === entries.length - 1;
+      lines.push(`${prefix}${isLast ? '└── ' : '├── '}${name}${child.isFile ? '' : '/'}`);
+      if (!child.isFile) {
+        render(child, `${prefix}${isLast ? '    ' : '│   '}`);
+      }
+    });
+  };
+
+  render(root, '');
+  return lines.join('\n');
+}
+
+/**
+ * Serializes the file map for --out-json
+ * Modes are written as octal strings (e.g. "0755") to match how they're usually read
+ */
+export function fileMapToJson(files: FileMap): string {
+  const output: Record<string, { mode: string; content: string }> = {};
+  for (const [path, file] of files) {
+    output[path] = {
+      mode: `0${file.mode.toString(8)}`,
+      content: file.content,
+    };
+  }
+  return JSON.stringify({ files: output }, null, 2);
+}
@@ -0,0 +1,68 @@
+/**
+ * .forge metadata file
+ * Records which generator version produced a package and the exact template contents of
+ * every templated file, so `upgrade` has a merge base for later template changes
+ */
+
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { version } from '../../package.json';
+import type { ProjectConfig } from './generators/types.js';
+import type { FileMap } from './fileMap.js';
+
+export const FORGE_METADATA_FILE = '.forge';
+export const GENERATOR_VERSION: string = version;
+
+export interface ForgeMetadata {
+  generatorVersion: string;
+  config: ProjectConfig;
+  /** Templated file path -> the template content it was last generated or upgraded from */
+  templates: Record<string, string>;
+}
+
+/**
+ * Files that are fully owned by templates and safe to re-sync
+ * package.json (merged by `add`), the README and source files belong to the user
+ */
+export function isTemplateFile(path: string): boolean {
+  return (
+    path !== 'package.json' &&
+    path !== 'README.md' &&
+    path !== FORGE_METADATA_FILE &&
+    !path.startsWith('src/')
+  );
+}
+
+/**
+ * Builds the metadata for a freshly generated file map
+ */
+export function createForgeMetadata(config: ProjectConfig, files: FileMap): ForgeMetadata {
+  const templates: Record<string, string> = {};
+  for (const [path, file] of files) {
+    if (isTemplateFile(path)) {
+      templates[path] = file.content;
+    }
+  }
+
+  return { generatorVersion: GENERATOR_VERSION, config, templates };
+}
+
+export function serializeForgeMetadata(metadata: ForgeMetadata): string {
+  return JSON.stringify(metadata, null, 2) + '\n';
+}
+
+/**
+ * Reads .forge from a package directory
+ * Returns null when the package predates .forge (or the file is unreadable)
+ */
+export async function readForgeMetadata(projectDir: string): Promise<ForgeMetadata | null> {
+  try {
+    const data = JSON.parse(await readFile(join(projectDir, FORGE_METADATA_FILE), 'utf-8'));
+    if (typeof data?.generatorVersion !== 'string' || typeof data?.templates !== 'object') {
+      return null;
+    }
+    return data as ForgeMetadata;
+  } catch {
+    return null;
+  }
+}
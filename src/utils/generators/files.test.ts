@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { spawnSync } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { generateReleaseScript } from './files';
+import type { ProjectConfig } from './types';
+
+describe('generateReleaseScript', () => {
+  const config: ProjectConfig = {
+    packageName: 'test-package',
+    language: 'typescript',
+    moduleType: 'esm',
+    testRunner: 'vitest',
+    useLinting: true,
+    initGit: false,
+    setupCI: true,
+    setupCD: true,
+    packageManager: 'pnpm',
+  };
+
+  it('should generate a script that Node.js can parse', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'forge-release-'));
+    try {
+      const file = join(dir, 'release.mjs');
+      await writeFile(file, generateReleaseScript(config));
+
+      const { status, stderr } = spawnSync(process.execPath, ['--check', file], {
+        encoding: 'utf-8',
+      });
+
+      expect(stderr).toBe('');
+      expect(status).toBe(0);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should write the changelog and create the GitHub release', () => {
+    const script = generateReleaseScript(config);
+
+    expect(script).toContain("const CHANGELOG_FILE = 'CHANGELOG.md';");
+    expect(script).toContain('--no-git-tag-version');
+    expect(script).toContain('gh release create');
+    expect(script).toContain("exec('pnpm run test:all')");
+  });
+
+  it('should offer prerelease bumps and mark prereleases on GitHub', () => {
+    const script = generateReleaseScript(config);
+
+    for (const type of ['prepatch', 'preminor', 'premajor', 'prerelease']) {
+      expect(script).toContain(`{ value: '${type}'`);
+    }
+    expect(script).toContain("parseArgs({ options: { preid: { type: 'string' } } })");
+    expect(script).toContain('--prerelease');
+  });
+});
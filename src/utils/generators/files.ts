@@ -4,6 +4,7 @@
  */
 
 import type { ProjectConfig } from './types.js';
+import { installCommand, runScript } from './packageManager.js';
 
 /**
  * Generates .gitignore
@@ -210,6 +211,11 @@ try {
 /**
  * Generates scripts/release.mjs - Interactive release automation script
  * This script provides a beautiful UX for the complete release workflow
+ * Installs and scripts use the project's package manager; versioning stays on `npm version`,
+ * which ships with Node.js and bumps package.json the same way for every manager.
+ * Release notes come from the conventional commits since the last tag: they are previewed,
+ * prepended to CHANGELOG.md and, when gh is available, used for the GitHub release that
+ * triggers the publish workflow
  */
 export function generateReleaseScript(config: ProjectConfig): string {
   const { packageName } = config;
@@ -223,7 +229,12 @@ export function generateReleaseScript(config: ProjectConfig): string {
 
 import * as clack from '@clack/prompts';
 import { execSync } from 'child_process';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
 import { exit } from 'process';
+import { parseArgs } from 'util';
+
+// --preid presets the prerelease identifier, e.g. node scripts/release.mjs --preid rc
+const { values: args } = parseArgs({ options: { preid: { type: 'string' } } });
 
 /**
  * Executes a shell command with error handling
@@ -243,6 +254,209 @@ function exec(command, silent = false) {
   }
 }
 
+const CHANGELOG_FILE = 'CHANGELOG.md';
+const CHANGELOG_HEADER =
+  '# Changelog\\n\\nAll notable changes to this project will be documented in this file.\\n';
+
+/**
+ * Conventional commit types that get a changelog section, in order
+ * Everything else (docs, chore, test, ...) is left out of the release notes
+ */
+const CHANGELOG_SECTIONS = [
+  ['feat', 'Features'],
+  ['fix', 'Bug Fixes'],
+  ['perf', 'Performance Improvements'],
+  ['revert', 'Reverts'],
+];
+
+/**
+ * Returns the latest release tag, or undefined before the first release
+ * @param {boolean} stable - Skip prerelease tags, so a release lists everything since the last one
+ */
+function getLastTag(stable) {
+  try {
+    const exclude = stable ? ' --exclude "*-*"' : '';
+    return exec(\`git describe --tags --abbrev=0\${exclude}\`, true).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Returns the GitHub URL of the origin remote for commit and compare links
+ */
+function getRepositoryUrl() {
+  try {
+    const remote = exec('git remote get-url origin', true).trim();
+    const match = remote.match(/github\\.com[/:](.+?)(?:\\.git)?$/);
+    return match ? \`https://github.com/\${match[1]}\` : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads the commits since the last tag and parses their conventional commit headers
+ * @param {string | undefined} lastTag - Latest release tag
+ * @returns {{ hash: string, type: string, scope?: string, subject: string, breaking: boolean }[]}
+ */
+function getCommits(lastTag) {
+  const range = lastTag ? \`\${lastTag}..HEAD\` : 'HEAD';
+  const log = exec(\`git log \${range} --no-merges --format=%H%x1f%s%x1f%b%x1e\`, true);
+
+  return log
+    .split('\\x1e')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [hash, subject, body = ''] = entry.split('\\x1f');
+      const match = subject.match(/^(\\w+)(?:\\(([^)]+)\\))?(!)?: (.+)$/);
+      if (!match) {
+        // Not a conventional commit: listed under "Other Changes"
+        return { hash, type: 'other', subject, breaking: false };
+      }
+
+      const [, type, scope, bang, description] = match;
+      return {
+        hash,
+        type: type.toLowerCase(),
+        scope,
+        subject: description,
+        breaking: Boolean(bang) || /^BREAKING[ -]CHANGE:/m.test(body),
+      };
+    });
+}
+
+/**
+ * Returns the version a bump leads to, the same way npm version does
+ * @param {string} version - Current version
+ * @param {string} type - patch, minor, major, prepatch, preminor, premajor or prerelease
+ * @param {string} preid - Prerelease identifier for the pre* bumps, e.g. "beta" or "rc"
+ */
+function bumpVersion(version, type, preid) {
+  const [base, ...rest] = version.split('-');
+  const prerelease = rest.join('-');
+  const [major, minor, patch] = base.split('.').map(Number);
+
+  switch (type) {
+    case 'premajor':
+      return \`\${major + 1}.0.0-\${preid}.0\`;
+    case 'preminor':
+      return \`\${major}.\${minor + 1}.0-\${preid}.0\`;
+    case 'prepatch':
+      return \`\${major}.\${minor}.\${patch + 1}-\${preid}.0\`;
+    case 'prerelease': {
+      if (!prerelease) {
+        return \`\${major}.\${minor}.\${patch + 1}-\${preid}.0\`;
+      }
+      // Same identifier counts up (beta.1 -> beta.2), a new one starts over (beta.2 -> rc.0)
+      const [id, number] = prerelease.split('.');
+      return id === preid && /^\\d+$/.test(number ?? '')
+        ? \`\${base}-\${preid}.\${Number(number) + 1}\`
+        : \`\${base}-\${preid}.0\`;
+    }
+  }
+
+  // A prerelease of the target version is released as is, e.g. 2.0.0-beta.1 -> 2.0.0
+  if (prerelease) {
+    if (type === 'patch') return base;
+    if (type === 'minor' && patch === 0) return base;
+    if (type === 'major' && minor === 0 && patch === 0) return base;
+  }
+
+  if (type === 'major') return \`\${major + 1}.0.0\`;
+  if (type === 'minor') return \`\${major}.\${minor + 1}.0\`;
+  return \`\${major}.\${minor}.\${patch + 1}\`;
+}
+
+/**
+ * Returns the prerelease identifier of a version, e.g. "beta" for 2.0.0-beta.1
+ */
+function getPreid(version) {
+  const id = version.split('-').slice(1).join('-').split('.')[0];
+  return id && !/^\\d+$/.test(id) ? id : undefined;
+}
+
+/**
+ * Formats one changelog entry, linking the commit when the repository is on GitHub
+ */
+function formatEntry(commit, repositoryUrl) {
+  const scope = commit.scope ? \`**\${commit.scope}:** \` : '';
+  const shortHash = commit.hash.slice(0, 7);
+  const link = repositoryUrl
+    ? \`([\${shortHash}](\${repositoryUrl}/commit/\${commit.hash}))\`
+    : \`(\${shortHash})\`;
+  return \`* \${scope}\${commit.subject} \${link}\`;
+}
+
+/**
+ * Builds the release notes: breaking changes first, then one section per commit type
+ */
+function generateReleaseNotes(commits, repositoryUrl) {
+  const sections = [];
+
+  const breaking = commits.filter((commit) => commit.breaking);
+  if (breaking.length > 0) {
+    sections.push(['⚠ BREAKING CHANGES', breaking]);
+  }
+
+  for (const [type, title] of [...CHANGELOG_SECTIONS, ['other', 'Other Changes']]) {
+    const entries = commits.filter((commit) => commit.type === type);
+    if (entries.length > 0) {
+      sections.push([title, entries]);
+    }
+  }
+
+  if (sections.length === 0) {
+    return 'No notable changes.\\n';
+  }
+
+  return sections
+    .map(([title, entries]) =>
+      \`### \${title}\\n\\n\${entries.map((commit) => formatEntry(commit, repositoryUrl)).join('\\n')}\\n\`
+    )
+    .join('\\n');
+}
+
+/**
+ * Builds the CHANGELOG.md section, linking the heading to the compare view since the last tag
+ */
+function generateChangelogSection(version, lastTag, notes, repositoryUrl) {
+  const date = new Date().toISOString().slice(0, 10);
+  const heading =
+    repositoryUrl && lastTag
+      ? \`[\${version}](\${repositoryUrl}/compare/\${lastTag}...v\${version})\`
+      : version;
+  return \`## \${heading} (\${date})\\n\\n\${notes}\`;
+}
+
+/**
+ * Adds a release section above the previous releases, creating CHANGELOG.md if needed
+ */
+function prependToChangelog(section) {
+  const existing = existsSync(CHANGELOG_FILE)
+    ? readFileSync(CHANGELOG_FILE, 'utf-8')
+    : CHANGELOG_HEADER;
+  const firstRelease = existing.search(/^## /m);
+  const content =
+    firstRelease === -1
+      ? \`\${existing.trimEnd()}\\n\\n\${section}\`
+      : \`\${existing.slice(0, firstRelease)}\${section}\\n\${existing.slice(firstRelease)}\`;
+  writeFileSync(CHANGELOG_FILE, content);
+}
+
+/**
+ * Whether the GitHub CLI is installed and logged in
+ */
+function isGhReady() {
+  try {
+    exec('gh auth status', true);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Main release workflow
  */
@@ -310,7 +524,7 @@ async function release() {
       });
 
       if (clack.isCancel(shouldPull) || !shouldPull) {
-        clack.cancel('Release cancelled - pull changes first with: npm run sync');
+        clack.cancel('Release cancelled - pull changes first with: ${runScript(config, 'sync')}');
         exit(0);
       }
 
@@ -354,7 +568,7 @@ async function release() {
       s1b.start('Pulling latest changes...');
       try {
         exec('git pull --rebase');
-        exec('npm install');
+        exec('${installCommand(config)}');
         s1b.stop('✅ Pulled and synced successfully');
       } catch (error) {
         s1b.stop('❌ Pull failed');
@@ -374,7 +588,7 @@ async function release() {
   const s2 = clack.spinner();
   s2.start('Running tests...');
   try {
-    exec('npm run test:all');
+    exec('${runScript(config, 'test:all')}');
     s2.stop('✅ All tests passed');
   } catch (error) {
     s2.stop('❌ Tests failed');
@@ -458,13 +672,28 @@ async function release() {
     }
   }
 
+  // Get current version
+  let currentVersion;
+  try {
+    currentVersion = exec('npm pkg get version', true).trim().replace(/"/g, '');
+  } catch {
+    clack.log.error('Failed to get current version');
+    exit(1);
+  }
+
   // Step 6: Version bump
+  const defaultPreid = args.preid ?? getPreid(currentVersion) ?? 'beta';
+  const next = (type) => bumpVersion(currentVersion, type, defaultPreid);
   const versionType = await clack.select({
-    message: 'Select version bump:',
+    message: \`Select version bump (current: \${currentVersion}):\`,
     options: [
-      { value: 'patch', label: 'Patch (bug fixes)', hint: 'x.x.X' },
-      { value: 'minor', label: 'Minor (new features)', hint: 'x.X.0' },
-      { value: 'major', label: 'Major (breaking changes)', hint: 'X.0.0' },
+      { value: 'patch', label: 'Patch (bug fixes)', hint: next('patch') },
+      { value: 'minor', label: 'Minor (new features)', hint: next('minor') },
+      { value: 'major', label: 'Major (breaking changes)', hint: next('major') },
+      { value: 'prepatch', label: 'Prepatch', hint: next('prepatch') },
+      { value: 'preminor', label: 'Preminor', hint: next('preminor') },
+      { value: 'premajor', label: 'Premajor', hint: next('premajor') },
+      { value: 'prerelease', label: 'Prerelease (next prerelease build)', hint: next('prerelease') },
     ],
   });
 
@@ -473,44 +702,90 @@ async function release() {
     exit(0);
   }
 
-  // Get current version
-  let currentVersion;
+  // Prereleases are published under an npm dist-tag named after the identifier
+  let preid = defaultPreid;
+  if (versionType.startsWith('pre')) {
+    const answer = await clack.text({
+      message: 'Prerelease identifier (also the npm dist-tag):',
+      initialValue: defaultPreid,
+      validate: (value) => {
+        if (!/^[a-z][a-z0-9-]*$/i.test(value ?? '')) {
+          return 'Use letters, digits and dashes, starting with a letter (e.g. beta, rc)';
+        }
+      },
+    });
+
+    if (clack.isCancel(answer)) {
+      clack.cancel('Release cancelled');
+      exit(0);
+    }
+    preid = answer;
+  }
+
+  // Step 7: Preview the changelog
+  const newVersion = bumpVersion(currentVersion, versionType, preid);
+  const isPrerelease = newVersion.includes('-');
+  const lastTag = getLastTag(!isPrerelease);
+  const repositoryUrl = getRepositoryUrl();
+  let commits;
   try {
-    currentVersion = exec('npm pkg get version', true).trim().replace(/"/g, '');
-  } catch {
-    clack.log.error('Failed to get current version');
+    commits = getCommits(lastTag);
+  } catch (error) {
+    clack.log.error('Failed to read commits');
+    clack.log.error(error.message);
     exit(1);
   }
 
+  const notes = generateReleaseNotes(commits, repositoryUrl);
+  const section = generateChangelogSection(newVersion, lastTag, notes, repositoryUrl);
+
+  clack.note(section, \`\${commits.length} commit(s) since \${lastTag ?? 'the first commit'}:\`);
+
+  const shouldRelease = await clack.confirm({
+    message: \`Add this to CHANGELOG.md and release v\${newVersion}?\`,
+    initialValue: true,
+  });
+
+  if (clack.isCancel(shouldRelease) || !shouldRelease) {
+    clack.cancel('Release cancelled - nothing was changed');
+    exit(0);
+  }
+
+  // Step 8: Write the changelog, bump the version, commit and tag
   const s3 = clack.spinner();
-  s3.start(\`Bumping \${versionType} version...\`);
+  s3.start(\`Releasing v\${newVersion}...\`);
   try {
-    const output = exec(\`npm version \${versionType}\`, true);
-    const newVersion = output.trim().replace('v', '');
+    prependToChangelog(section);
+    exec(\`npm version \${newVersion} --no-git-tag-version\`, true);
+    exec('git add -A', true);
+    exec(\`git commit -m "chore(release): v\${newVersion}"\`, true);
+    exec(\`git tag -a v\${newVersion} -m "v\${newVersion}"\`, true);
     s3.stop(\`✅ Version bumped: \${currentVersion} → \${newVersion}\`);
   } catch (error) {
     s3.stop('❌ Version bump failed');
     clack.log.error(error.message);
     clack.note(
       'This could happen if:\\n' +
-      '  • Working directory is not clean\\n' +
       '  • Git tag already exists\\n' +
-      '  • npm version scripts failed',
+      '  • npm version scripts failed\\n' +
+      '  • Pre-commit hooks failed',
       'Common causes:'
     );
     clack.outro('Fix the issue and try again');
     exit(1);
   }
 
-  // Step 7: Push to remote
+  // Step 9: Push to remote
   const shouldPush = await clack.confirm({
-    message: 'Push to remote? (triggers CD workflow)',
+    message: 'Push to remote?',
     initialValue: true,
   });
 
   if (clack.isCancel(shouldPush) || !shouldPush) {
     clack.note(
-      'Version bumped locally. Push manually when ready:\\n  git push && git push --tags',
+      'Version bumped locally. Push manually when ready:\\n  git push && git push --tags\\n' +
+      \`Then create the v\${newVersion} GitHub release with the notes from CHANGELOG.md to publish\` +
+      (isPrerelease ? ' (marked as a pre-release).' : '.'),
       'Manual push required:'
     );
     clack.outro('Release prepared');
@@ -539,6 +814,42 @@ async function release() {
     exit(1);
   }
 
+  // Step 10: Create the GitHub release, which triggers the publish workflow
+  if (!isGhReady()) {
+    clack.note(
+      'Install and log in to the GitHub CLI (gh) to create releases automatically.\\n' +
+      \`Create the release for v\${newVersion} on GitHub\${
+        repositoryUrl ? \`:\\n  \${repositoryUrl}/releases/new?tag=v\${newVersion}\` : ''
+      }\\n\` +
+      'and paste the notes from CHANGELOG.md' +
+      (isPrerelease ? ', marked as a pre-release.' : '.'),
+      'GitHub release required to publish:'
+    );
+    clack.outro('Release pushed');
+    exit(0);
+  }
+
+  const s5 = clack.spinner();
+  s5.start('Creating GitHub release...');
+  try {
+    // Notes go through stdin to avoid quoting them on the command line
+    const prereleaseFlag = isPrerelease ? ' --prerelease' : '';
+    execSync(
+      \`gh release create v\${newVersion} --title v\${newVersion} --notes-file -\${prereleaseFlag}\`,
+      { input: notes, stdio: 'pipe' }
+    );
+    s5.stop(
+      isPrerelease
+        ? \`✅ GitHub prerelease created - the publish workflow publishes it under the "\${preid}" dist-tag\`
+        : '✅ GitHub release created - the publish workflow is running'
+    );
+  } catch (error) {
+    s5.stop('❌ Could not create the GitHub release');
+    clack.log.error(error.message);
+    clack.outro(\`Create the v\${newVersion} release on GitHub to publish\`);
+    exit(1);
+  }
+
   clack.outro('🎉 Release complete!');
 }
 
@@ -9,19 +9,46 @@
  * - linting: Code quality tools (ESLint, Prettier, EditorConfig)
  * - testing: Test framework configurations (Vitest, Jest)
  * - files: Simple file generators (gitignore, root index files)
+ * - source: Example source and test files, and the CLI entry for CLI projects
+ * - workspace: Monorepo root files (root package.json, pnpm-workspace.yaml, README)
+ * - packageManager: Install, run and publish commands for the chosen package manager
+ * - release: Release tooling config (Changesets, semantic-release, commitlint, release-please)
  */
 
 // Export types
 export type { ProjectConfig } from './types.js';
 
+// Package manager commands
+export {
+  type PackageManager,
+  getPackageManager,
+  runScript,
+  execCommand,
+  installCommand,
+  publishCommand,
+} from './packageManager.js';
+
 // Package.json generator
-export { generatePackageJson } from './packageJson.js';
+export {
+  generatePackageJson,
+  generateScripts,
+  getBinName,
+  getDevDependencyNames,
+  getAllDevDependencyNames,
+  getLintingDevDependencyNames,
+  fetchDevDependencies,
+} from './packageJson.js';
 
 // README generator
 export { generateReadme } from './readme.js';
 
 // TypeScript generators
-export { generateTsConfig, generateTsupConfig } from './typescript.js';
+export {
+  generateTsConfig,
+  generateTsConfigBase,
+  generateMemberTsConfig,
+  generateTsupConfig,
+} from './typescript.js';
 
 // Linting generators
 export { generateEslintConfig, generatePrettierConfig, generateEditorConfig } from './linting.js';
@@ -40,5 +67,44 @@ export {
   generateReleaseScript,
 } from './files.js';
 
+// Source file generators
+export {
+  generateSourceFile,
+  generateTestFile,
+  generateCliFile,
+  generateCliTestFile,
+} from './source.js';
+
 // GitHub Actions workflow generators
-export { generateCIWorkflow, generateCDWorkflow, generateDependabotConfig, generateDependabotAutoMergeWorkflow } from './workflows.js';
+export {
+  generateCIWorkflow,
+  generateCDWorkflow,
+  generateChangesetsVersionWorkflow,
+  generateChangesetsPublishWorkflow,
+  generateSemanticReleaseWorkflow,
+  generateReleasePleaseWorkflow,
+  generateDependabotConfig,
+  generateDependabotAutoMergeWorkflow,
+  usesPublishToken,
+} from './workflows.js';
+
+// Release strategy generators
+export {
+  generateChangesetConfig,
+  generateChangesetReadme,
+  generateSemanticReleaseConfig,
+  generateCommitlintConfig,
+  generateCommitMsgHook,
+  generateReleasePleaseConfig,
+  generateReleasePleaseManifest,
+} from './release.js';
+
+// Workspace root generators
+export {
+  WORKSPACE_PACKAGES_DIR,
+  getMemberDir,
+  generateWorkspaceScripts,
+  generateWorkspacePackageJson,
+  generatePnpmWorkspace,
+  generateWorkspaceReadme,
+} from './workspace.js';
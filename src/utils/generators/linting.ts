@@ -19,6 +19,9 @@ interface PrettierConfig {
  * Uses the modern flat config format introduced in ESLint v9
  */
 export function generateEslintConfig(config: ProjectConfig): string {
+  // A workspace root config also has to ignore every member's build output
+  const prefix = config.workspace ? '**/' : '';
+
   if (config.language === 'typescript') {
     // TypeScript flat config
     return `import js from '@eslint/js';
@@ -30,9 +33,9 @@ export default [
   // Ignore patterns (replaces .eslintignore)
   {
     ignores: [
-      'dist/**',
-      'node_modules/**',
-      'coverage/**',
+      '${prefix}dist/**',
+      '${prefix}node_modules/**',
+      '${prefix}coverage/**',
       '**/*.d.ts',
     ],
   },
@@ -116,9 +119,9 @@ export default [
   // Ignore patterns (replaces .eslintignore)
   {
     ignores: [
-      'dist/**',
-      'node_modules/**',
-      'coverage/**',
+      '${prefix}dist/**',
+      '${prefix}node_modules/**',
+      '${prefix}coverage/**',
     ],
   },
 
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { generatePackageJson } from './packageJson';
+import { generatePackageJson, generateScripts, getDevDependencyNames } from './packageJson';
 import type { ProjectConfig } from './types';
 
 describe('generatePackageJson', () => {
@@ -15,7 +15,7 @@ describe('generatePackageJson', () => {
 
   describe('basic fields', () => {
     it('should generate basic package.json fields', async () => {
-      const { packageJson: pkg } = await generatePackageJson(baseConfig);
+      const { packageJson: pkg } = await generatePackageJson(baseConfig, { offline: true });
 
       expect(pkg.name).toBe('test-package');
       expect(pkg.version).toBe('0.1.0');
@@ -25,7 +25,7 @@ describe('generatePackageJson', () => {
 
     it('should use custom description when provided', async () => {
       const config = { ...baseConfig, description: 'My custom package' };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.description).toBe('My custom package');
     });
@@ -34,7 +34,7 @@ describe('generatePackageJson', () => {
   describe('author field formatting', () => {
     it('should format author with name only', async () => {
       const config = { ...baseConfig, author: 'John Doe' };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.author).toBe('John Doe');
     });
@@ -45,7 +45,7 @@ describe('generatePackageJson', () => {
         author: 'John Doe',
         authorEmail: 'john@example.com',
       };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.author).toBe('John Doe <john@example.com>');
     });
@@ -57,7 +57,7 @@ describe('generatePackageJson', () => {
         authorEmail: 'john@example.com',
         githubUsername: 'johndoe',
       };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.author).toBe('John Doe <john@example.com> (https://github.com/johndoe)');
     });
@@ -68,7 +68,7 @@ describe('generatePackageJson', () => {
         author: 'John Doe',
         githubUsername: 'johndoe',
       };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.author).toBe('John Doe (https://github.com/johndoe)');
     });
@@ -80,7 +80,7 @@ describe('generatePackageJson', () => {
         ...baseConfig,
         githubUsername: 'johndoe',
       };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.repository).toEqual({
         type: 'git',
@@ -93,7 +93,7 @@ describe('generatePackageJson', () => {
     });
 
     it('should not add repository fields when GitHub username is missing', async () => {
-      const { packageJson: pkg } = await generatePackageJson(baseConfig);
+      const { packageJson: pkg } = await generatePackageJson(baseConfig, { offline: true });
 
       expect(pkg.repository).toBeUndefined();
       expect(pkg.bugs).toBeUndefined();
@@ -101,24 +101,40 @@ describe('generatePackageJson', () => {
     });
   });
 
+  describe('publishConfig', () => {
+    it('should publish to a custom registry', async () => {
+      const config = { ...baseConfig, registry: 'https://npm.acme.dev/' };
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
+
+      expect(pkg.publishConfig).toEqual({ registry: 'https://npm.acme.dev/' });
+    });
+
+    it('should not add publishConfig for the public npm registry', async () => {
+      const config = { ...baseConfig, registry: 'https://registry.npmjs.org' };
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
+
+      expect(pkg.publishConfig).toBeUndefined();
+    });
+  });
+
   describe('module type', () => {
     it('should set type to "module" for ESM', async () => {
       const config = { ...baseConfig, moduleType: 'esm' as const };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.type).toBe('module');
     });
 
     it('should set type to "commonjs" for CommonJS', async () => {
       const config = { ...baseConfig, moduleType: 'commonjs' as const };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.type).toBe('commonjs');
     });
 
     it('should set type to "module" for dual format', async () => {
       const config = { ...baseConfig, moduleType: 'dual' as const };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.type).toBe('module');
     });
@@ -127,7 +143,7 @@ describe('generatePackageJson', () => {
   describe('TypeScript entry points', () => {
     it('should generate correct entry points for ESM', async () => {
       const config = { ...baseConfig, moduleType: 'esm' as const };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.main).toBe('./index.js');
       expect(pkg.types).toBe('./index.d.ts');
@@ -141,7 +157,7 @@ describe('generatePackageJson', () => {
 
     it('should generate correct entry points for CommonJS', async () => {
       const config = { ...baseConfig, moduleType: 'commonjs' as const };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.main).toBe('./index.js');
       expect(pkg.types).toBe('./index.d.ts');
@@ -155,7 +171,7 @@ describe('generatePackageJson', () => {
 
     it('should generate correct entry points for dual format', async () => {
       const config = { ...baseConfig, moduleType: 'dual' as const };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.main).toBe('./index.js');
       expect(pkg.module).toBe('./index.mjs');
@@ -177,7 +193,7 @@ describe('generatePackageJson', () => {
         language: 'javascript' as const,
         moduleType: 'esm' as const,
       };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.main).toBe('./src/index.js');
       expect(pkg.module).toBe('./src/index.js');
@@ -193,7 +209,7 @@ describe('generatePackageJson', () => {
         language: 'javascript' as const,
         moduleType: 'commonjs' as const,
       };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.main).toBe('./src/index.js');
       expect(pkg.exports).toEqual({
@@ -204,24 +220,51 @@ describe('generatePackageJson', () => {
     });
   });
 
+  describe('bin', () => {
+    it('should not add bin for libraries', async () => {
+      const { packageJson: pkg } = await generatePackageJson(baseConfig, { offline: true });
+
+      expect(pkg.bin).toBeUndefined();
+    });
+
+    it('should point bin at the built CLI for TypeScript', async () => {
+      const config = { ...baseConfig, packageName: '@acme/greet', projectKind: 'cli' as const };
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
+
+      expect(pkg.bin).toEqual({ greet: './dist/cli.js' });
+      expect(pkg.files).toContain('dist');
+    });
+
+    it('should point bin at the source CLI for JavaScript', async () => {
+      const config = {
+        ...baseConfig,
+        language: 'javascript' as const,
+        projectKind: 'cli' as const,
+      };
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
+
+      expect(pkg.bin).toEqual({ 'test-package': './src/cli.js' });
+    });
+  });
+
   describe('files array', () => {
     it('should include correct files for TypeScript ESM', async () => {
       const config = { ...baseConfig, moduleType: 'esm' as const };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.files).toEqual(['dist', 'index.js', 'index.d.ts']);
     });
 
     it('should include index.mjs for TypeScript dual format', async () => {
       const config = { ...baseConfig, moduleType: 'dual' as const };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.files).toEqual(['dist', 'index.js', 'index.d.ts', 'index.mjs']);
     });
 
     it('should only include src for JavaScript projects', async () => {
       const config = { ...baseConfig, language: 'javascript' as const };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.files).toEqual(['src']);
     });
@@ -229,7 +272,7 @@ describe('generatePackageJson', () => {
 
   describe('scripts', () => {
     it('should include build scripts for TypeScript', async () => {
-      const { packageJson: pkg } = await generatePackageJson(baseConfig);
+      const { packageJson: pkg } = await generatePackageJson(baseConfig, { offline: true });
 
       expect(pkg.scripts.build).toBe('tsup');
       expect(pkg.scripts.typecheck).toBe('tsc --noEmit');
@@ -239,7 +282,7 @@ describe('generatePackageJson', () => {
 
     it('should not include build scripts for JavaScript', async () => {
       const config = { ...baseConfig, language: 'javascript' as const };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.scripts.build).toBeUndefined();
       expect(pkg.scripts.typecheck).toBeUndefined();
@@ -249,7 +292,7 @@ describe('generatePackageJson', () => {
 
     it('should include Vitest scripts', async () => {
       const config = { ...baseConfig, testRunner: 'vitest' as const };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.scripts.test).toBe('vitest run');
       expect(pkg.scripts['test:watch']).toBe('vitest');
@@ -257,7 +300,7 @@ describe('generatePackageJson', () => {
 
     it('should include Jest scripts', async () => {
       const config = { ...baseConfig, testRunner: 'jest' as const };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.scripts.test).toBe('jest');
       expect(pkg.scripts['test:watch']).toBe('jest --watch');
@@ -265,7 +308,7 @@ describe('generatePackageJson', () => {
 
     it('should not include test scripts when testRunner is none', async () => {
       const config = { ...baseConfig, testRunner: 'none' as const };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.scripts.test).toBeUndefined();
       expect(pkg.scripts['test:watch']).toBeUndefined();
@@ -273,7 +316,7 @@ describe('generatePackageJson', () => {
 
     it('should include linting scripts when enabled', async () => {
       const config = { ...baseConfig, useLinting: true };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       // Flat config doesn't use --ext flag; file patterns are in eslint.config.js
       expect(pkg.scripts.lint).toBe('eslint .');
@@ -282,11 +325,64 @@ describe('generatePackageJson', () => {
       expect(pkg.scripts['format:check']).toBe('prettier --check "src/**/*.{ts,js,json,md}"');
     });
 
+    it('should only add the token script when publishing needs a token', () => {
+      const config = { ...baseConfig, setupCI: true, setupCD: true };
+
+      expect(generateScripts(config).token).toBe('node scripts/get-token.mjs');
+      expect(generateScripts({ ...config, publishAuth: 'provenance' }).token).toBeDefined();
+      expect(generateScripts({ ...config, publishAuth: 'oidc' }).token).toBeUndefined();
+      expect(generateScripts({ ...config, publishAuth: 'oidc' }).release).toBe(
+        'node scripts/release.mjs'
+      );
+    });
+
+    it('should replace the release script with changeset for Changesets', () => {
+      const scripts = generateScripts({
+        ...baseConfig,
+        setupCI: true,
+        setupCD: true,
+        releaseStrategy: 'changesets',
+      });
+
+      expect(scripts.changeset).toBe('changeset');
+      expect(scripts.release).toBeUndefined();
+      expect(scripts.token).toBe('node scripts/get-token.mjs');
+    });
+
+    it('should install the commit-msg hook for semantic-release', () => {
+      const scripts = generateScripts({
+        ...baseConfig,
+        setupCI: true,
+        setupCD: true,
+        releaseStrategy: 'semantic-release',
+      });
+
+      expect(scripts.prepare).toBe('husky');
+      expect(scripts.release).toBeUndefined();
+    });
+
+    it('should run scripts and installs with the chosen package manager', () => {
+      const config = { ...baseConfig, useDependabot: true };
+
+      expect(generateScripts({ ...config, packageManager: 'pnpm' })).toMatchObject({
+        'test:all': 'pnpm run typecheck && pnpm run lint && pnpm run test',
+        prepublishOnly: 'pnpm run build',
+        sync: 'git pull --rebase && pnpm install && pnpm run test',
+        'sync:quick': 'git pull --rebase && pnpm install',
+      });
+      expect(generateScripts({ ...config, packageManager: 'yarn' }).sync).toBe(
+        'git pull --rebase && yarn install && yarn run test'
+      );
+      // `bun test` would bypass the test script
+      expect(generateScripts({ ...config, packageManager: 'bun' }).sync).toBe(
+        'git pull --rebase && bun install && bun run test'
+      );
+    });
   });
 
   describe('devDependencies', () => {
     it('should include TypeScript dependencies', async () => {
-      const { packageJson: pkg } = await generatePackageJson(baseConfig);
+      const { packageJson: pkg } = await generatePackageJson(baseConfig, { offline: true });
 
       expect(pkg.devDependencies.typescript).toBeDefined();
       expect(pkg.devDependencies.tsup).toBeDefined();
@@ -296,14 +392,14 @@ describe('generatePackageJson', () => {
 
     it('should include Vitest when selected', async () => {
       const config = { ...baseConfig, testRunner: 'vitest' as const };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.devDependencies.vitest).toBeDefined();
     });
 
     it('should include Jest dependencies when selected', async () => {
       const config = { ...baseConfig, testRunner: 'jest' as const };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.devDependencies.jest).toBeDefined();
       expect(pkg.devDependencies['ts-jest']).toBeDefined();
@@ -312,7 +408,7 @@ describe('generatePackageJson', () => {
 
     it('should include linting dependencies when enabled', async () => {
       const config = { ...baseConfig, useLinting: true };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.devDependencies.eslint).toBeDefined();
       expect(pkg.devDependencies.prettier).toBeDefined();
@@ -321,13 +417,33 @@ describe('generatePackageJson', () => {
       expect(pkg.devDependencies['@typescript-eslint/parser']).toBeDefined();
     });
 
+    it('should include the release tooling of the release strategy', () => {
+      const config = { ...baseConfig, setupCI: true, setupCD: true };
+
+      expect(getDevDependencyNames(config)).toContain('@clack/prompts');
+      const changesets = getDevDependencyNames({ ...config, releaseStrategy: 'changesets' });
+      expect(changesets).toContain('@changesets/cli');
+      expect(changesets).not.toContain('@clack/prompts');
+      expect(getDevDependencyNames({ ...config, releaseStrategy: 'semantic-release' })).toEqual(
+        expect.arrayContaining([
+          'semantic-release',
+          '@commitlint/cli',
+          '@commitlint/config-conventional',
+          'husky',
+        ])
+      );
+      expect(getDevDependencyNames({ ...config, releaseStrategy: 'release-please' })).not.toContain(
+        '@clack/prompts'
+      );
+    });
+
     it('should not include TypeScript-specific ESLint for JavaScript', async () => {
       const config = {
         ...baseConfig,
         language: 'javascript' as const,
         useLinting: true,
       };
-      const { packageJson: pkg } = await generatePackageJson(config);
+      const { packageJson: pkg } = await generatePackageJson(config, { offline: true });
 
       expect(pkg.devDependencies['@typescript-eslint/eslint-plugin']).toBeUndefined();
       expect(pkg.devDependencies['@typescript-eslint/parser']).toBeUndefined();
@@ -4,8 +4,11 @@
  */
 
 import type { ProjectConfig } from './types.js';
-import { fetchLatestVersions } from '../versionFetcher.js';
+import { installCommand, runScript } from './packageManager.js';
+import { usesPublishToken } from './workflows.js';
+import { type FetchOptions, fetchLatestVersions } from '../versionFetcher.js';
 import { getNodeLTSVersions } from '../nodeFetcher.js';
+import { isDefaultRegistry } from '../npmrc.js';
 
 interface PackageJson {
   name: string;
@@ -16,6 +19,7 @@ interface PackageJson {
   module?: string;
   types?: string;
   exports?: Record<string, unknown>;
+  bin?: Record<string, string>;
   files: string[];
   scripts: Record<string, string>;
   keywords: string[];
@@ -33,6 +37,9 @@ interface PackageJson {
     url: string;
   };
   homepage?: string;
+  publishConfig?: {
+    registry: string;
+  };
 }
 
 /**
@@ -40,7 +47,10 @@ interface PackageJson {
  * This is the most critical function as it handles the complex exports mapping
  * for different module types (ESM, CommonJS, Dual).
  */
-export async function generatePackageJson(config: ProjectConfig): Promise<{
+export async function generatePackageJson(
+  config: ProjectConfig,
+  options: FetchOptions = {}
+): Promise<{
   packageJson: PackageJson;
   warnings: string[];
   nodeConfig: import('../nodeFetcher.js').NodeVersionConfig;
@@ -58,10 +68,10 @@ export async function generatePackageJson(config: ProjectConfig): Promise<{
   }
 
   // Generate dev dependencies with dynamic version fetching
-  const { devDependencies, warnings } = await generateDevDependencies(config);
+  const { devDependencies, warnings } = await generateDevDependencies(config, options);
 
   // Fetch Node.js LTS versions
-  const nodeConfig = await getNodeLTSVersions();
+  const nodeConfig = await getNodeLTSVersions(options);
 
   const pkg: PackageJson = {
     name: config.packageName,
@@ -71,6 +81,12 @@ export async function generatePackageJson(config: ProjectConfig): Promise<{
     type: config.moduleType === 'commonjs' ? 'commonjs' : 'module',
     // Entry points - these depend on both language and module type
     ...generateEntryPoints(config),
+    // CLI projects expose the built (or, for JavaScript, source) cli entry
+    ...(config.projectKind === 'cli' && {
+      bin: {
+        [getBinName(config)]: config.language === 'typescript' ? './dist/cli.js' : './src/cli.js',
+      },
+    }),
     files: generateFilesList(config),
     scripts: generateScripts(config),
     keywords: [],
@@ -94,9 +110,22 @@ export async function generatePackageJson(config: ProjectConfig): Promise<{
     pkg.homepage = `https://github.com/${config.githubUsername}/${config.packageName}#readme`;
   }
 
+  // Publishing to a private registry or mirror must never fall back to npmjs.org
+  if (config.registry && !isDefaultRegistry(config.registry)) {
+    pkg.publishConfig = { registry: config.registry };
+  }
+
   return { packageJson: pkg, warnings, nodeConfig };
 }
 
+/**
+ * Name of the command a CLI project installs: the package name without its scope
+ * @example "@acme/greet" -> "greet"
+ */
+export function getBinName(config: ProjectConfig): string {
+  return config.packageName.replace(/^@[^/]+\//, '');
+}
+
 /**
  * Generates the files array for package.json based on configuration
  */
@@ -196,8 +225,9 @@ function generateEntryPoints(
 
 /**
  * Generates npm scripts based on project configuration
+ * Also used by `add <feature>` to work out which scripts a feature contributes
  */
-function generateScripts(config: ProjectConfig): Record<string, string> {
+export function generateScripts(config: ProjectConfig): Record<string, string> {
   const scripts: Record<string, string> = {};
 
   // Build script (only for TypeScript)
@@ -227,7 +257,9 @@ function generateScripts(config: ProjectConfig): Record<string, string> {
   }
 
   if (config.testRunner && config.useLinting) {
-    scripts['test:all'] = 'npm run typecheck && npm run lint && npm run test';
+    scripts['test:all'] = ['typecheck', 'lint', 'test']
+      .map(script => runScript(config, script))
+      .join(' && ');
   }
 
   // Package validation (only for TypeScript as it checks types)
@@ -237,68 +269,154 @@ function generateScripts(config: ProjectConfig): Record<string, string> {
 
   // Prepublish hook
   if (config.language === 'typescript') {
-    scripts.prepublishOnly = 'npm run build';
+    scripts.prepublishOnly = runScript(config, 'build');
   }
 
   // Dependency sync scripts (useful for Dependabot workflow)
   if (config.useDependabot) {
-    scripts.sync = 'git pull --rebase && npm install && npm test';
-    scripts['sync:quick'] = 'git pull --rebase && npm install';
+    scripts.sync = `git pull --rebase && ${installCommand(config)} && ${runScript(config, 'test')}`;
+    scripts['sync:quick'] = `git pull --rebase && ${installCommand(config)}`;
   }
 
   // Release automation scripts (only for projects with CI/CD setup)
   if (config.setupCD) {
-    scripts.release = 'node scripts/release.mjs';
-    scripts.token = 'node scripts/get-token.mjs';
+    if (config.releaseStrategy === 'changesets') {
+      scripts.changeset = 'changeset';
+    } else if (config.releaseStrategy === 'semantic-release') {
+      // Installs the commit-msg hook
+      scripts.prepare = 'husky';
+    } else if (config.releaseStrategy !== 'release-please') {
+      scripts.release = 'node scripts/release.mjs';
+    }
+    if (usesPublishToken(config)) {
+      scripts.token = 'node scripts/get-token.mjs';
+    }
   }
 
   return scripts;
 }
 
 /**
- * Generates the devDependencies object based on project configuration
- * Fetches latest versions dynamically from npm registry
+ * Lists the devDependencies a project configuration needs, without versions
+ * Also used by `add <feature>` to work out which packages a feature contributes
  */
-async function generateDevDependencies(config: ProjectConfig): Promise<{
-  devDependencies: Record<string, string>;
-  warnings: string[];
-}> {
-  const packagesToFetch: string[] = [];
+export function getDevDependencyNames(config: ProjectConfig): string[] {
+  const packages: string[] = [];
 
   // TypeScript and build tools
   if (config.language === 'typescript') {
-    packagesToFetch.push('typescript', 'tsup', '@types/node', '@arethetypeswrong/cli');
+    packages.push('typescript', 'tsup', '@types/node', '@arethetypeswrong/cli');
   }
 
   // Test runners
   if (config.testRunner === 'vitest') {
-    packagesToFetch.push('vitest');
+    packages.push('vitest');
     // Add coverage provider when CI is enabled
     if (config.setupCI) {
-      packagesToFetch.push('@vitest/coverage-v8');
+      packages.push('@vitest/coverage-v8');
     }
   } else if (config.testRunner === 'jest') {
-    packagesToFetch.push('jest');
+    packages.push('jest');
     if (config.language === 'typescript') {
-      packagesToFetch.push('ts-jest', '@types/jest');
+      packages.push('ts-jest', '@types/jest');
     }
   }
 
   // Linting tools
   if (config.useLinting) {
-    packagesToFetch.push('@eslint/js', 'eslint', 'prettier', 'eslint-config-prettier');
-    if (config.language === 'typescript') {
-      packagesToFetch.push('@typescript-eslint/eslint-plugin', '@typescript-eslint/parser');
-    }
+    packages.push(...getLintingDevDependencyNames(config));
   }
 
   // Release automation tools (only for projects with CI/CD setup)
   if (config.setupCD) {
-    packagesToFetch.push('@clack/prompts');
+    if (config.releaseStrategy === 'changesets') {
+      packages.push('@changesets/cli');
+    } else if (config.releaseStrategy === 'semantic-release') {
+      packages.push(
+        'semantic-release',
+        '@commitlint/cli',
+        '@commitlint/config-conventional',
+        'husky'
+      );
+    } else if (config.releaseStrategy !== 'release-please') {
+      // release-please runs as a GitHub Action and needs nothing installed
+      packages.push('@clack/prompts');
+    }
+  }
+
+  return packages;
+}
+
+/**
+ * Lists every devDependency any project configuration can need
+ * The bundled version snapshot covers exactly these packages
+ */
+export function getAllDevDependencyNames(): string[] {
+  const names = new Set<string>();
+  for (const language of ['typescript', 'javascript'] as const) {
+    for (const testRunner of ['vitest', 'jest'] as const) {
+      for (const releaseStrategy of [
+        'script',
+        'changesets',
+        'semantic-release',
+        'release-please',
+      ] as const) {
+        const config: ProjectConfig = {
+          packageName: 'snapshot',
+          language,
+          moduleType: 'esm',
+          testRunner,
+          useLinting: true,
+          initGit: false,
+          setupCI: true,
+          setupCD: true,
+          releaseStrategy,
+        };
+        getDevDependencyNames(config).forEach(name => names.add(name));
+      }
+    }
+  }
+  return [...names].sort();
+}
+
+/**
+ * Lists the ESLint + Prettier devDependencies
+ * Workspaces install these once at the root, next to the shared eslint.config.js
+ */
+export function getLintingDevDependencyNames(config: ProjectConfig): string[] {
+  const packages = ['@eslint/js', 'eslint', 'prettier', 'eslint-config-prettier'];
+  if (config.language === 'typescript') {
+    packages.push('@typescript-eslint/eslint-plugin', '@typescript-eslint/parser');
   }
+  return packages;
+}
 
+/**
+ * Generates the devDependencies object based on project configuration
+ * Fetches latest versions dynamically from npm registry
+ */
+async function generateDevDependencies(
+  config: ProjectConfig,
+  options: FetchOptions
+): Promise<{
+  devDependencies: Record<string, string>;
+  warnings: string[];
+}> {
+  return fetchDevDependencies(getDevDependencyNames(config), options);
+}
+
+/**
+ * Resolves the latest versions for a list of devDependencies
+ */
+export async function fetchDevDependencies(
+  packagesToFetch: string[],
+  options: FetchOptions = {}
+): Promise<{
+  devDependencies: Record<string, string>;
+  warnings: string[];
+}> {
   // Fetch all versions in parallel
-  const versionMap = await fetchLatestVersions(packagesToFetch);
+  const versionMap = await fetchLatestVersions(packagesToFetch, options);
 
   // Build dependencies object
   const deps: Record<string, string> = {};
@@ -0,0 +1,80 @@
+/**
+ * Package manager command helpers
+ * Every generated script, workflow and README goes through these so they match config.packageManager
+ */
+
+import type { ProjectConfig } from './types.js';
+
+export type PackageManager = NonNullable<ProjectConfig['packageManager']>;
+
+export function getPackageManager(config: ProjectConfig): PackageManager {
+  return config.packageManager ?? 'npm';
+}
+
+/**
+ * Runs a package.json script
+ * Always spelled with `run`: `bun test` would start Bun's own test runner instead of the script
+ */
+export function runScript(config: ProjectConfig, script: string): string {
+  return `${getPackageManager(config)} run ${script}`;
+}
+
+/**
+ * Runs a binary from the project's own dependencies
+ */
+export function execCommand(config: ProjectConfig, command: string): string {
+  switch (getPackageManager(config)) {
+    case 'pnpm':
+      return `pnpm exec ${command}`;
+    case 'yarn':
+      return `yarn ${command}`;
+    case 'bun':
+      return `bunx ${command}`;
+    default:
+      return `npx ${command}`;
+  }
+}
+
+/**
+ * Installs dependencies
+ * With `frozen`, fails instead of updating an out-of-date lockfile (for CI)
+ * Yarn commands are Yarn 1's: generated projects don't pin a yarn version, so Corepack runs Yarn 1
+ */
+export function installCommand(config: ProjectConfig, options: { frozen?: boolean } = {}): string {
+  const pm = getPackageManager(config);
+  if (!options.frozen) {
+    return `${pm} install`;
+  }
+
+  switch (pm) {
+    case 'pnpm':
+      return 'pnpm install --frozen-lockfile';
+    case 'yarn':
+      return 'yarn install --frozen-lockfile';
+    case 'bun':
+      return 'bun install --frozen-lockfile';
+    default:
+      return 'npm ci';
+  }
+}
+
+/**
+ * Publishes the package to npm
+ * Bun and yarn projects publish with npm, which reads the auth actions/setup-node writes to .npmrc.
+ * Trusted publishing always goes through npm, which exchanges the workflow's OIDC token itself
+ * and attaches provenance automatically
+ */
+export function publishCommand(config: ProjectConfig): string {
+  if (config.publishAuth === 'oidc') {
+    return 'npm publish --access public';
+  }
+
+  const provenance = config.publishAuth === 'provenance' ? ' --provenance' : '';
+  switch (getPackageManager(config)) {
+    case 'pnpm':
+      // Release builds check out a tag, which pnpm's branch check would reject
+      return `pnpm publish --access public --no-git-checks${provenance}`;
+    default:
+      return `npm publish --access public${provenance}`;
+  }
+}
@@ -4,6 +4,9 @@
  */
 
 import type { ProjectConfig } from "./types.js";
+import { getBinName } from "./packageJson.js";
+import { execCommand, runScript } from "./packageManager.js";
+import { usesPublishToken } from "./workflows.js";
 
 /**
  * Generates README.md with badges and conditional sections
@@ -38,26 +41,13 @@ ${
 
 ${badges}${description}
 
-## Installation
-
-\`\`\`bash
-npm install ${config.packageName}
-\`\`\`
-
-## Usage
-
-\`\`\`${config.language}
-import { greet } from '${config.packageName}';
-
-console.log(greet('World')); // Hello, World!
-\`\`\`
-
+${config.projectKind === "cli" ? generateCliUsage(config) : generateLibraryUsage(config)}
 ## Development
 
 ### Build
 
 \`\`\`bash
-npm run build
+${runScript(config, "build")}
 \`\`\`
 
 ${
@@ -65,7 +55,7 @@ ${
     ? `### Test
 
 \`\`\`bash
-npm test
+${runScript(config, "test")}
 \`\`\`
 `
     : ""
@@ -75,8 +65,8 @@ ${
     ? `### Lint
 
 \`\`\`bash
-npm run lint
-npm run format
+${runScript(config, "lint")}
+${runScript(config, "format")}
 \`\`\`
 `
     : ""
@@ -86,7 +76,7 @@ ${
     ? `### Validate Package Exports
 
 \`\`\`bash
-npm run check:exports
+${runScript(config, "check:exports")}
 \`\`\`
 `
     : ""
@@ -97,7 +87,138 @@ ${
 
 This package uses automated publishing via GitHub Actions.
 
-### Creating a Release
+${generateReleaseSteps(config)}
+${generatePublishSetup(config)}
+`
+    : ""
+}
+${
+  config.githubUsername
+    ? `## Contributing
+
+Contributions are welcome! Please feel free to submit a Pull Request.
+
+## Issues
+
+If you encounter any issues, please report them [here](https://github.com/${config.githubUsername}/${config.packageName}/issues).
+
+`
+    : ""
+}
+## License
+
+MIT${config.author ? ` © ${config.author}` : ""}
+`;
+}
+
+/**
+ * Installation and usage for libraries
+ */
+function generateLibraryUsage(config: ProjectConfig): string {
+  return `## Installation
+
+\`\`\`bash
+npm install ${config.packageName}
+\`\`\`
+
+## Usage
+
+\`\`\`${config.language}
+import { greet } from '${config.packageName}';
+
+console.log(greet('World')); // Hello, World!
+\`\`\`
+`;
+}
+
+/**
+ * Installation and usage for CLI projects
+ */
+function generateCliUsage(config: ProjectConfig): string {
+  const binName = getBinName(config);
+
+  return `## Installation
+
+\`\`\`bash
+npm install -g ${config.packageName}
+\`\`\`
+
+Or run it without installing:
+
+\`\`\`bash
+npx ${config.packageName} World
+\`\`\`
+
+## Usage
+
+\`\`\`bash
+${binName} World      # Hello, World!
+${binName} --help     # Show usage
+${binName} --version  # Show the version number
+\`\`\`
+${
+  config.language === "typescript"
+    ? `
+Try your local changes:
+
+\`\`\`bash
+${runScript(config, "build")} && node dist/cli.js World
+\`\`\`
+`
+    : ""
+}`;
+}
+
+/**
+ * How to cut a release with the configured release strategy
+ */
+function generateReleaseSteps(config: ProjectConfig): string {
+  if (config.releaseStrategy === "changesets") {
+    return `### Creating a Release
+
+Releases are managed with [Changesets](https://github.com/changesets/changesets):
+
+1. **Add a changeset** with every change that should be released:
+   \`\`\`bash
+   ${execCommand(config, "changeset")}
+   \`\`\`
+   Pick the bump type and describe the change, then commit the generated file with your PR
+2. **Merge to main:** the Version workflow opens (or updates) a "chore: version packages" PR that bumps the version and updates CHANGELOG.md
+3. **Merge the version PR:** the Publish workflow runs all tests and publishes to npm 🎉
+`;
+  }
+
+  if (config.releaseStrategy === "release-please") {
+    return `### Creating a Release
+
+Releases are managed with [release-please](https://github.com/googleapis/release-please) from [Conventional Commits](https://www.conventionalcommits.org/) (\`fix:\` patch, \`feat:\` minor, \`feat!:\` major; breaking changes bump the minor version until 1.0.0):
+
+1. **Merge to main:** the Release workflow opens (or updates) a release PR with the next version and its CHANGELOG.md entry
+2. **Merge the release PR:** the workflow tags the release, creates the GitHub release, runs all tests and publishes to npm 🎉
+
+\`release-please-config.json\` configures the release; \`.release-please-manifest.json\` tracks the last released version.
+`;
+  }
+
+  if (config.releaseStrategy === "semantic-release") {
+    return `### Creating a Release
+
+Releases are fully automated with [semantic-release](https://github.com/semantic-release/semantic-release): every push to main runs all tests, works out the next version from the commit messages since the last release, publishes it to npm and creates the GitHub release 🎉
+
+Commit messages follow [Conventional Commits](https://www.conventionalcommits.org/), checked by commitlint in a commit-msg hook:
+
+| Commit | Release |
+| --- | --- |
+| \`fix: handle empty input\` | patch |
+| \`feat: add a --json flag\` | minor |
+| \`feat!: drop Node.js 20\` or a \`BREAKING CHANGE:\` footer | major |
+| \`docs:\`, \`chore:\`, \`test:\`, ... | none |
+
+The first release is 1.0.0.
+`;
+  }
+
+  return `### Creating a Release
 
 1. **Make your changes** and commit them
 2. **Update the version:**
@@ -116,25 +237,34 @@ The GitHub Actions workflow will automatically:
 - Run all tests
 - Build the package
 - Publish to npm when a git tag is pushed
-
-`
-    : ""
+`;
 }
-${
-  config.githubUsername
-    ? `## Contributing
 
-Contributions are welcome! Please feel free to submit a Pull Request.
+/**
+ * Generates the one-time npm setup the publish workflow needs
+ */
+function generatePublishSetup(config: ProjectConfig): string {
+  if (!usesPublishToken(config)) {
+    return `### Publishing Setup
 
-## Issues
+Releases use [trusted publishing](https://docs.npmjs.com/trusted-publishers): npm trusts this repository's \`publish.yml\` workflow directly, so there is no token to store or rotate, and every release gets provenance automatically.
 
-If you encounter any issues, please report them [here](https://github.com/${config.githubUsername}/${config.packageName}/issues).
+1. Publish the first version by hand (\`npm publish\`) so the package exists on npm
+2. On npmjs.com, open the package settings and add a **Trusted Publisher**: GitHub Actions, this repository, workflow \`publish.yml\`
+`;
+  }
+
+  return `### Publishing Setup
 
+The workflow publishes with an npm access token stored as the \`NPM_TOKEN\` repository secret:
+
+1. Create a granular access token with publish rights on [npmjs.com](https://www.npmjs.com/settings/~/tokens)
+2. Add it to the repository: \`gh secret set NPM_TOKEN\` (or Settings → Secrets and variables → Actions)
+${
+  config.publishAuth === "provenance"
+    ? `
+Releases are published with \`--provenance\`, which links each version on npmjs.com to the commit and workflow run that built it. Provenance requires a public repository.
 `
     : ""
-}
-## License
-
-MIT${config.author ? ` © ${config.author}` : ""}
-`;
+}`;
 }
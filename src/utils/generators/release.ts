@@ -0,0 +1,111 @@
+/**
+ * Release strategy generators
+ * Config files for the release tooling that replaces scripts/release.mjs
+ * (Changesets, semantic-release with commitlint, release-please)
+ */
+
+import type { ProjectConfig } from './types.js';
+import { execCommand } from './packageManager.js';
+
+/**
+ * Generates .changeset/config.json
+ * Versions against main with public access; commits are left to the version workflow
+ */
+export function generateChangesetConfig(): string {
+  const config = {
+    $schema: 'https://unpkg.com/@changesets/config@4.0.1/schema.json',
+    changelog: '@changesets/cli/changelog',
+    commit: false,
+    fixed: [],
+    linked: [],
+    access: 'public',
+    baseBranch: 'main',
+    updateInternalDependencies: 'patch',
+    ignore: [],
+  };
+
+  return JSON.stringify(config, null, 2);
+}
+
+/**
+ * Generates .changeset/README.md
+ * Keeps the directory in git before the first changeset exists
+ */
+export function generateChangesetReadme(config: ProjectConfig): string {
+  return `# Changesets
+
+Every change that should be released needs a changeset. Add one with:
+
+\`\`\`bash
+${execCommand(config, 'changeset')}
+\`\`\`
+
+Pick the bump type (patch, minor or major) and describe the change; the summary ends up in
+CHANGELOG.md. Commit the generated markdown file along with your change.
+
+On every push to main, the Version workflow opens (or updates) a "chore: version packages" PR
+that bumps package.json and writes the changelog. Merging that PR publishes the new version to
+npm.
+`;
+}
+
+/**
+ * Generates .releaserc.json
+ * The default plugins, spelled out so it's obvious where to add more
+ */
+export function generateSemanticReleaseConfig(): string {
+  const config = {
+    branches: ['main'],
+    plugins: [
+      '@semantic-release/commit-analyzer',
+      '@semantic-release/release-notes-generator',
+      '@semantic-release/npm',
+      '@semantic-release/github',
+    ],
+  };
+
+  return JSON.stringify(config, null, 2);
+}
+
+/**
+ * Generates .commitlintrc.json
+ * JSON works regardless of the package's module type
+ */
+export function generateCommitlintConfig(): string {
+  return JSON.stringify({ extends: ['@commitlint/config-conventional'] }, null, 2);
+}
+
+/**
+ * Generates the husky commit-msg hook (.husky/commit-msg)
+ * semantic-release derives every version from commit messages, so they are linted before they land
+ */
+export function generateCommitMsgHook(config: ProjectConfig): string {
+  return `${execCommand(config, 'commitlint --edit "$1"')}\n`;
+}
+
+/**
+ * Generates release-please-config.json for a single package at the repository root
+ * Breaking changes only bump the minor version until 1.0.0
+ */
+export function generateReleasePleaseConfig(config: ProjectConfig): string {
+  const releasePleaseConfig = {
+    $schema: 'https://raw.githubusercontent.com/googleapis/release-please/main/schemas/config.json',
+    packages: {
+      '.': {
+        'release-type': 'node',
+        'package-name': config.packageName,
+        'bump-minor-pre-major': true,
+      },
+    },
+  };
+
+  return JSON.stringify(releasePleaseConfig, null, 2);
+}
+
+/**
+ * Generates .release-please-manifest.json, the last released version of each package
+ * @param version Current package.json version, so the first release PR bumps from there
+ */
+export function generateReleasePleaseManifest(version: string): string {
+  return JSON.stringify({ '.': version }, null, 2);
+}
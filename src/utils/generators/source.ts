@@ -0,0 +1,222 @@
+/**
+ * Source file generators
+ * Handles the example src/index, the CLI entry for CLI projects, and their test files
+ */
+
+import type { ProjectConfig } from './types.js';
+import { getBinName } from './packageJson.js';
+import { runScript } from './packageManager.js';
+
+/**
+ * Generates the example src/index.ts (or .js) with two small exported functions
+ */
+export function generateSourceFile(config: ProjectConfig): string {
+  if (config.language === 'typescript') {
+    return `/**
+ * Example function that greets a user
+ * @param name - The name to greet
+ * @returns A greeting message
+ */
+export function greet(name: string): string {
+  return \`Hello, \${name}!\`;
+}
+
+/**
+ * Example function that adds two numbers
+ * @param a - First number
+ * @param b - Second number
+ * @returns The sum of a and b
+ */
+export function add(a: number, b: number): number {
+  return a + b;
+}
+`;
+  }
+
+  return `/**
+ * Example function that greets a user
+ * @param {string} name - The name to greet
+ * @returns {string} A greeting message
+ */
+export function greet(name) {
+  return \`Hello, \${name}!\`;
+}
+
+/**
+ * Example function that adds two numbers
+ * @param {number} a - First number
+ * @param {number} b - Second number
+ * @returns {number} The sum of a and b
+ */
+export function add(a, b) {
+  return a + b;
+}
+`;
+}
+
+/**
+ * Generates the example test file for the selected test runner
+ */
+export function generateTestFile(config: ProjectConfig): string {
+  const testModule = config.testRunner === 'vitest' ? 'vitest' : '@jest/globals';
+
+  return `import { describe, it, expect } from '${testModule}';
+import { greet, add } from './index.js';
+
+describe('greet', () => {
+  it('should return a greeting message', () => {
+    expect(greet('World')).toBe('Hello, World!');
+  });
+});
+
+describe('add', () => {
+  it('should add two numbers correctly', () => {
+    expect(add(2, 3)).toBe(5);
+  });
+});
+`;
+}
+
+/**
+ * Generates src/cli.ts (or .js) for CLI projects
+ * Zero-dependency argument parsing with node:util parseArgs; the shebang survives the tsup build
+ */
+export function generateCliFile(config: ProjectConfig): string {
+  const binName = getBinName(config);
+  const isTypeScript = config.language === 'typescript';
+  // CommonJS TypeScript can't use import.meta, so resolve package.json from __dirname
+  const usesDirname = isTypeScript && config.moduleType === 'commonjs';
+
+  const imports = usesDirname
+    ? `import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { greet } from './index.js';`
+    : `import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { greet } from './index.js';`;
+  const packageJsonPath = usesDirname
+    ? `join(__dirname, '..', 'package.json')`
+    : `join(dirname(fileURLToPath(import.meta.url)), '..', 'package.json')`;
+  const versionCast = isTypeScript ? ' as { version: string }' : '';
+  const argvType = isTypeScript ? ': string[]' : '';
+  const returnType = isTypeScript ? ': number' : '';
+
+  return `#!/usr/bin/env node
+${imports}
+
+// Works from both src/ and dist/, which sit next to package.json
+const { version } = JSON.parse(
+  readFileSync(${packageJsonPath}, 'utf-8')
+)${versionCast};
+
+const HELP = \`Usage: ${binName} [options] [name]
+
+Prints a greeting.
+
+Options:
+  -h, --help     Show this help
+  -v, --version  Show the version number
+\`;
+
+${
+  isTypeScript
+    ? ''
+    : `/**
+ * Runs the CLI and returns the exit code
+ * @param {string[]} argv - Arguments without the node and script paths
+ * @returns {number}
+ */
+`
+}function main(argv${argvType})${returnType} {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        help: { type: 'boolean', short: 'h' },
+        version: { type: 'boolean', short: 'v' },
+      },
+    });
+  } catch (error) {
+    console.error(\`${binName}: \${(error${isTypeScript ? ' as Error' : ''}).message}\\n\\n\${HELP}\`);
+    return 1;
+  }
+
+  if (parsed.values.help) {
+    console.log(HELP);
+    return 0;
+  }
+
+  if (parsed.values.version) {
+    console.log(version);
+    return 0;
+  }
+
+  console.log(greet(parsed.positionals[0] ?? 'World'));
+  return 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
+`;
+}
+
+/**
+ * Generates the CLI test file, which spawns the built binary like a user would
+ */
+export function generateCliTestFile(config: ProjectConfig): string {
+  const testModule = config.testRunner === 'vitest' ? 'vitest' : '@jest/globals';
+  const isTypeScript = config.language === 'typescript';
+  const bin = isTypeScript ? `'dist', 'cli.js'` : `'src', 'cli.js'`;
+
+  return `import { describe, it, expect${isTypeScript ? ', beforeAll' : ''} } from '${testModule}';
+${isTypeScript ? `import { execSync, spawnSync } from 'node:child_process';` : `import { spawnSync } from 'node:child_process';`}
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+const bin = join(process.cwd(), ${bin});
+
+function run(...args${isTypeScript ? ': string[]' : ''}) {
+  return spawnSync(process.execPath, [bin, ...args], { encoding: 'utf-8' });
+}
+${
+  isTypeScript
+    ? `
+// Test the built binary, exactly as it is published
+beforeAll(() => {
+  execSync('${runScript(config, 'build')}', { stdio: 'ignore' });
+}, 60_000);
+`
+    : ''
+}
+describe('cli', () => {
+  it('should greet the given name', () => {
+    const result = run('Alice');
+    expect(result.status).toBe(0);
+    expect(result.stdout.trim()).toBe('Hello, Alice!');
+  });
+
+  it('should greet the world by default', () => {
+    expect(run().stdout.trim()).toBe('Hello, World!');
+  });
+
+  it('should print the package version', () => {
+    const { version } = JSON.parse(readFileSync(join(process.cwd(), 'package.json'), 'utf-8'));
+    expect(run('--version').stdout.trim()).toBe(version);
+  });
+
+  it('should print usage with --help', () => {
+    expect(run('--help').stdout).toContain('Usage:');
+  });
+
+  it('should fail on unknown options', () => {
+    const result = run('--nope');
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain('Usage:');
+  });
+});
+`;
+}
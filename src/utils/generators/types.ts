@@ -4,6 +4,10 @@
 
 export interface ProjectConfig {
   packageName: string;
+  /** 'cli' adds a bin entry and src/cli; defaults to 'library' */
+  projectKind?: 'library' | 'cli';
+  /** Generate a workspace root with this package as the first member under packages/ */
+  workspace?: boolean;
   language: 'typescript' | 'javascript';
   moduleType: 'esm' | 'commonjs' | 'dual';
   testRunner: 'vitest' | 'jest' | 'none';
@@ -11,9 +15,25 @@ export interface ProjectConfig {
   initGit: boolean;
   setupCI?: boolean;
   setupCD?: boolean;
+  /**
+   * How the CD workflow authenticates to npm: an NPM_TOKEN secret, the token plus
+   * --provenance attestations, or tokenless trusted publishing (OIDC); defaults to 'token'
+   */
+  publishAuth?: 'token' | 'provenance' | 'oidc';
+  /**
+   * How releases are cut: the generated scripts/release.mjs, Changesets with a version PR
+   * and a publish-on-merge workflow, semantic-release from conventional commits, or
+   * release-please release PRs; defaults to 'script'
+   */
+  releaseStrategy?: 'script' | 'changesets' | 'semantic-release' | 'release-please';
   useCodecov?: boolean;
   useDependabot?: boolean;
   packageManager?: 'npm' | 'pnpm' | 'yarn' | 'bun';
+  /**
+   * Registry the package is published to; the CD workflow's registry-url and
+   * publishConfig.registry follow it. Defaults to the public npm registry
+   */
+  registry?: string;
   description?: string;
   author?: string;
   authorEmail?: string;
@@ -10,6 +10,7 @@ interface TSConfig {
     target: string;
     module: string;
     lib: string[];
+    types: string[];
     moduleResolution: string;
     outDir: string;
     rootDir: string;
@@ -44,6 +45,8 @@ export function generateTsConfig(config: ProjectConfig): TSConfig {
       target: 'ES2020',
       module,
       lib: ['ES2020'],
+      // TypeScript 6+ no longer picks up @types packages on its own
+      types: ['node'],
       moduleResolution,
 
       // Output directory
@@ -79,8 +82,40 @@ export function generateTsConfig(config: ProjectConfig): TSConfig {
   };
 }
 
+/**
+ * Generates the workspace root tsconfig.base.json shared by every member
+ * Paths (outDir, rootDir, include) resolve relative to the file that sets them, so they
+ * stay in each member's tsconfig.json
+ */
+export function generateTsConfigBase(config: ProjectConfig): {
+  compilerOptions: Omit<TSConfig['compilerOptions'], 'outDir' | 'rootDir'>;
+} {
+  const { outDir: _outDir, rootDir: _rootDir, ...compilerOptions } =
+    generateTsConfig(config).compilerOptions;
+  return { compilerOptions };
+}
+
+/**
+ * Generates a workspace member's tsconfig.json, extending the root tsconfig.base.json
+ */
+export function generateMemberTsConfig(config: ProjectConfig): {
+  extends: string;
+  compilerOptions: Pick<TSConfig['compilerOptions'], 'outDir' | 'rootDir'>;
+  include: string[];
+  exclude: string[];
+} {
+  const { compilerOptions, include, exclude } = generateTsConfig(config);
+  return {
+    extends: '../../tsconfig.base.json',
+    compilerOptions: { outDir: compilerOptions.outDir, rootDir: compilerOptions.rootDir },
+    include,
+    exclude,
+  };
+}
+
 /**
  * Generates tsup.config.ts for building TypeScript packages
+ * CLI projects get a second entry for the bin
  */
 export function generateTsupConfig(config: ProjectConfig): string {
   const formats: string[] = [];
@@ -95,13 +130,20 @@ export function generateTsupConfig(config: ProjectConfig): string {
     formats.push("'cjs'", "'esm'");
   }
 
+  // CLI projects also build src/cli.ts; esbuild keeps its shebang and tsup marks it executable
+  const isCli = config.projectKind === 'cli';
+  const entry = isCli ? "'src/index.ts', 'src/cli.ts'" : "'src/index.ts'";
+  const shims = isCli
+    ? '  shims: true, // import.meta.url and __dirname work in every output format\n'
+    : '';
+
   return `import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: [${entry}],
   format: [${formats.join(', ')}],
   dts: true, // Generate declaration files
-  splitting: false,
+${shims}  splitting: false,
   sourcemap: true,
   clean: true,
   treeshake: true,
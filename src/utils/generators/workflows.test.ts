@@ -1,5 +1,19 @@
 import { describe, it, expect } from 'vitest';
-import { generateCIWorkflow, generateDependabotConfig, generateDependabotAutoMergeWorkflow } from './workflows';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import YAML from 'yaml';
+import {
+  generateCIWorkflow,
+  generateCDWorkflow,
+  generateChangesetsVersionWorkflow,
+  generateChangesetsPublishWorkflow,
+  generateSemanticReleaseWorkflow,
+  generateReleasePleaseWorkflow,
+  generateDependabotConfig,
+  generateDependabotAutoMergeWorkflow,
+} from './workflows';
 import type { ProjectConfig } from './types';
 import type { NodeVersionConfig } from '../nodeFetcher';
 import type { ActionVersionResult } from '../actionsFetcher';
@@ -130,6 +144,379 @@ describe('generateCIWorkflow', () => {
   });
 });
 
+describe('package managers', () => {
+  const nodeConfig: NodeVersionConfig = {
+    minimum: 20,
+    engines: '>=20.0.0',
+    ciMatrix: [20, 22],
+    latestLTS: 22
+  };
+
+  const actionVersions = new Map<string, ActionVersionResult>([
+    ['actions/checkout', { version: 'v5' }],
+    ['actions/setup-node', { version: 'v6' }],
+    ['actions/cache', { version: 'v4' }],
+    ['pnpm/action-setup', { version: 'v4' }],
+    ['oven-sh/setup-bun', { version: 'v2' }]
+  ]);
+
+  const config: ProjectConfig = {
+    packageName: 'test-package',
+    language: 'typescript',
+    moduleType: 'esm',
+    testRunner: 'vitest',
+    useLinting: true,
+    initGit: false,
+    setupCI: true,
+    setupCD: true,
+  };
+
+  it('should install with npm ci and cache npm by default', () => {
+    const ci = generateCIWorkflow(config, nodeConfig, actionVersions);
+    const cd = generateCDWorkflow(config, nodeConfig, actionVersions);
+
+    for (const workflow of [ci, cd]) {
+      expect(workflow).toContain("cache: 'npm'");
+      expect(workflow).toContain('run: npm ci');
+      expect(workflow).not.toContain('pnpm');
+    }
+    expect(cd).toContain('run: npm run test:all');
+    expect(cd).toContain('run: npm publish --access public');
+    expect(cd).toContain('NODE_AUTH_TOKEN: ${{ secrets.NPM_TOKEN }}');
+  });
+
+  it('should set up pnpm before Node.js and publish with pnpm', () => {
+    const pnpmConfig: ProjectConfig = { ...config, packageManager: 'pnpm' };
+    const ci = generateCIWorkflow(pnpmConfig, nodeConfig, actionVersions);
+    const cd = generateCDWorkflow(pnpmConfig, nodeConfig, actionVersions);
+
+    for (const workflow of [ci, cd]) {
+      expect(workflow).toContain('uses: pnpm/action-setup@v4');
+      expect(workflow.indexOf('pnpm/action-setup')).toBeLessThan(workflow.indexOf('actions/setup-node'));
+      expect(workflow).toContain("cache: 'pnpm'");
+      expect(workflow).toContain('run: pnpm install --frozen-lockfile');
+      expect(workflow).not.toContain('npm ci');
+    }
+    expect(ci).toContain('run: pnpm run typecheck');
+    expect(ci).toContain('run: pnpm run test:coverage');
+    expect(cd).toContain('run: pnpm run test:all');
+    expect(cd).toContain('run: pnpm publish --access public --no-git-checks');
+  });
+
+  it('should enable Corepack for yarn and publish with npm', () => {
+    const yarnConfig: ProjectConfig = { ...config, packageManager: 'yarn' };
+    const ci = generateCIWorkflow(yarnConfig, nodeConfig, actionVersions);
+    const cd = generateCDWorkflow(yarnConfig, nodeConfig, actionVersions);
+
+    for (const workflow of [ci, cd]) {
+      expect(workflow).toContain('run: corepack enable');
+      expect(workflow.indexOf('corepack enable')).toBeLessThan(workflow.indexOf('actions/setup-node'));
+      expect(workflow).toContain("cache: 'yarn'");
+      expect(workflow).toContain('run: yarn install --frozen-lockfile');
+    }
+    expect(ci).toContain('run: yarn run lint');
+    expect(cd).toContain('run: npm publish --access public');
+    expect(cd).toContain('NODE_AUTH_TOKEN: ${{ secrets.NPM_TOKEN }}');
+  });
+
+  it('should set up Bun and cache its install directory', () => {
+    const bunConfig: ProjectConfig = { ...config, packageManager: 'bun' };
+    const ci = generateCIWorkflow(bunConfig, nodeConfig, actionVersions);
+    const cd = generateCDWorkflow(bunConfig, nodeConfig, actionVersions);
+
+    for (const workflow of [ci, cd]) {
+      expect(workflow).toContain('uses: oven-sh/setup-bun@v2');
+      expect(workflow).toContain('uses: actions/cache@v4');
+      expect(workflow).toContain("hashFiles('bun.lock', 'bun.lockb')");
+      expect(workflow).not.toContain('cache: ');
+      expect(workflow).toContain('run: bun install --frozen-lockfile');
+    }
+    expect(ci).toContain('run: bun run test:coverage');
+    // npm picks up the registry auth that setup-node writes
+    expect(cd).toContain('run: npm publish --access public');
+    expect(cd).toContain("registry-url: 'https://registry.npmjs.org'");
+  });
+});
+
+describe('generateCDWorkflow publishing auth', () => {
+  const nodeConfig: NodeVersionConfig = {
+    minimum: 20,
+    engines: '>=20.0.0',
+    ciMatrix: [20, 22],
+    latestLTS: 22
+  };
+
+  const actionVersions = new Map<string, ActionVersionResult>([
+    ['actions/checkout', { version: 'v5' }],
+    ['actions/setup-node', { version: 'v6' }]
+  ]);
+
+  const config: ProjectConfig = {
+    packageName: 'test-package',
+    language: 'typescript',
+    moduleType: 'esm',
+    testRunner: 'vitest',
+    useLinting: true,
+    initGit: false,
+    setupCI: true,
+    setupCD: true,
+  };
+
+  it('should publish with the token and no id-token permission by default', () => {
+    const workflow = generateCDWorkflow(config, nodeConfig, actionVersions);
+
+    expect(workflow).toContain('NODE_AUTH_TOKEN: ${{ secrets.NPM_TOKEN }}');
+    expect(workflow).not.toContain('id-token: write');
+    expect(workflow).not.toContain('--provenance');
+  });
+
+  it('should add --provenance and the id-token permission for provenance', () => {
+    const workflow = generateCDWorkflow(
+      { ...config, publishAuth: 'provenance', packageManager: 'pnpm' },
+      nodeConfig,
+      actionVersions
+    );
+
+    expect(workflow).toContain('id-token: write');
+    expect(workflow).toContain('run: pnpm publish --access public --no-git-checks --provenance');
+    expect(workflow).toContain('NODE_AUTH_TOKEN: ${{ secrets.NPM_TOKEN }}');
+  });
+
+  it('should publish without a token for trusted publishing', () => {
+    const workflow = generateCDWorkflow(
+      { ...config, publishAuth: 'oidc', packageManager: 'yarn' },
+      nodeConfig,
+      actionVersions
+    );
+
+    expect(workflow).toContain('id-token: write');
+    expect(workflow).toContain('run: npm install -g npm@latest');
+    expect(workflow).toContain('run: npm publish --access public');
+    expect(workflow).not.toContain('NPM_TOKEN');
+    expect(workflow).not.toContain('AUTH_TOKEN');
+  });
+
+  it('should publish prereleases under a dist-tag instead of latest', () => {
+    const workflow = generateCDWorkflow(config, nodeConfig, actionVersions);
+
+    expect(workflow).toContain('id: dist-tag');
+    expect(workflow).toContain('TAG_NAME: ${{ github.event.release.tag_name }}');
+    expect(workflow).toContain('PRERELEASE: ${{ github.event.release.prerelease }}');
+    expect(workflow).toContain(
+      'run: npm publish --access public --tag ${{ steps.dist-tag.outputs.tag }}'
+    );
+    expect(workflow.indexOf('id: dist-tag')).toBeLessThan(workflow.indexOf('- name: Publish to npm'));
+  });
+
+  it('should pick the dist-tag from the release tag name', () => {
+    const { jobs } = YAML.parse(generateCDWorkflow(config, nodeConfig, actionVersions));
+    const { run } = Object.values<{ steps: { id?: string; run: string }[] }>(jobs)
+      .flatMap(job => job.steps)
+      .find(step => step.id === 'dist-tag')!;
+    const dir = mkdtempSync(join(tmpdir(), 'forge-dist-tag-'));
+
+    const distTag = (tagName: string, prerelease = false) => {
+      const output = join(dir, `${tagName}-${prerelease}`);
+      execFileSync('sh', ['-c', run], {
+        env: { TAG_NAME: tagName, PRERELEASE: String(prerelease), GITHUB_OUTPUT: output },
+      });
+      return readFileSync(output, 'utf-8');
+    };
+
+    try {
+      expect(distTag('v1.2.0')).toBe('tag=latest\n');
+      expect(distTag('v1.2.0', true)).toBe('tag=next\n');
+      expect(distTag('v1.2.0-beta.1')).toBe('tag=beta\n');
+      expect(distTag('v1.2.0-rc')).toBe('tag=rc\n');
+      expect(distTag('v1.0.1-0')).toBe('tag=next\n');
+      expect(distTag('v2.0.0-1.beta')).toBe('tag=next\n');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should point setup-node at a custom publish registry', () => {
+    const workflow = generateCDWorkflow(
+      { ...config, registry: 'https://npm.pkg.github.com/' },
+      nodeConfig,
+      actionVersions
+    );
+
+    expect(workflow).toContain("registry-url: 'https://npm.pkg.github.com/'");
+    expect(workflow).not.toContain('registry.npmjs.org');
+  });
+});
+
+describe('Changesets workflows', () => {
+  const nodeConfig: NodeVersionConfig = {
+    minimum: 20,
+    engines: '>=20.0.0',
+    ciMatrix: [20, 22],
+    latestLTS: 22
+  };
+
+  const actionVersions = new Map<string, ActionVersionResult>([
+    ['actions/checkout', { version: 'v5' }],
+    ['actions/setup-node', { version: 'v6' }],
+    ['changesets/action', { version: 'v1' }]
+  ]);
+
+  const config: ProjectConfig = {
+    packageName: 'test-package',
+    language: 'typescript',
+    moduleType: 'esm',
+    testRunner: 'vitest',
+    useLinting: true,
+    initGit: false,
+    setupCI: true,
+    setupCD: true,
+    releaseStrategy: 'changesets',
+    packageManager: 'pnpm',
+  };
+
+  it('should open the version PR with changesets/action on pushes to main', () => {
+    const workflow = generateChangesetsVersionWorkflow(config, nodeConfig, actionVersions);
+
+    expect(workflow).toContain('branches: [main]');
+    expect(workflow).toContain('pull-requests: write');
+    expect(workflow).toContain('uses: changesets/action@v1');
+    expect(workflow).toContain('run: pnpm install --frozen-lockfile');
+    expect(workflow).toContain('GITHUB_TOKEN: ${{ secrets.GITHUB_TOKEN }}');
+    // Versioning never publishes
+    expect(workflow).not.toContain('NPM_TOKEN');
+  });
+
+  it('should publish merged versions with changeset publish and push the tags', () => {
+    const workflow = generateChangesetsPublishWorkflow(config, nodeConfig, actionVersions);
+
+    expect(workflow).toContain('branches: [main]');
+    expect(workflow).toContain('contents: write');
+    expect(workflow).toContain('run: pnpm run test:all');
+    expect(workflow).toContain('run: pnpm exec changeset publish');
+    expect(workflow).toContain('NODE_AUTH_TOKEN: ${{ secrets.NPM_TOKEN }}');
+    expect(workflow).toContain('run: git push --follow-tags');
+  });
+
+  it('should pass provenance through the environment', () => {
+    const workflow = generateChangesetsPublishWorkflow(
+      { ...config, publishAuth: 'provenance' },
+      nodeConfig,
+      actionVersions
+    );
+
+    expect(workflow).toContain('id-token: write');
+    expect(workflow).toContain('NPM_CONFIG_PROVENANCE: true');
+  });
+});
+
+describe('generateSemanticReleaseWorkflow', () => {
+  const nodeConfig: NodeVersionConfig = {
+    minimum: 20,
+    engines: '>=20.0.0',
+    ciMatrix: [20, 22],
+    latestLTS: 22
+  };
+
+  const actionVersions = new Map<string, ActionVersionResult>([
+    ['actions/checkout', { version: 'v5' }],
+    ['actions/setup-node', { version: 'v6' }]
+  ]);
+
+  const config: ProjectConfig = {
+    packageName: 'test-package',
+    language: 'typescript',
+    moduleType: 'esm',
+    testRunner: 'vitest',
+    useLinting: true,
+    initGit: false,
+    setupCI: true,
+    setupCD: true,
+    releaseStrategy: 'semantic-release',
+  };
+
+  it('should release from main with the full history and release permissions', () => {
+    const workflow = generateSemanticReleaseWorkflow(config, nodeConfig, actionVersions);
+
+    expect(workflow).toContain('branches: [main]');
+    expect(workflow).toContain('fetch-depth: 0');
+    expect(workflow).toContain('contents: write');
+    expect(workflow).toContain('issues: write');
+    expect(workflow).toContain('pull-requests: write');
+    expect(workflow).toContain('run: npm run test:all');
+    expect(workflow).toContain('run: npx semantic-release');
+    expect(workflow).toContain('GITHUB_TOKEN: ${{ secrets.GITHUB_TOKEN }}');
+    // @semantic-release/npm reads NPM_TOKEN, not the setup-node variable
+    expect(workflow).toContain('NPM_TOKEN: ${{ secrets.NPM_TOKEN }}');
+    expect(workflow).not.toContain('NODE_AUTH_TOKEN');
+    expect(workflow).not.toContain('registry-url');
+  });
+
+  it('should release without a token for trusted publishing', () => {
+    const workflow = generateSemanticReleaseWorkflow(
+      { ...config, publishAuth: 'oidc', packageManager: 'pnpm' },
+      nodeConfig,
+      actionVersions
+    );
+
+    expect(workflow).toContain('id-token: write');
+    expect(workflow).toContain('run: pnpm exec semantic-release');
+    expect(workflow).not.toContain('NPM_TOKEN');
+  });
+});
+
+describe('generateReleasePleaseWorkflow', () => {
+  const nodeConfig: NodeVersionConfig = {
+    minimum: 20,
+    engines: '>=20.0.0',
+    ciMatrix: [20, 22],
+    latestLTS: 22
+  };
+
+  const actionVersions = new Map<string, ActionVersionResult>([
+    ['actions/checkout', { version: 'v5' }],
+    ['actions/setup-node', { version: 'v6' }],
+    ['googleapis/release-please-action', { version: 'v4' }]
+  ]);
+
+  const config: ProjectConfig = {
+    packageName: 'test-package',
+    language: 'typescript',
+    moduleType: 'esm',
+    testRunner: 'vitest',
+    useLinting: true,
+    initGit: false,
+    setupCI: true,
+    setupCD: true,
+    releaseStrategy: 'release-please',
+  };
+
+  it('should only publish once the release PR is merged', () => {
+    const workflow = generateReleasePleaseWorkflow(config, nodeConfig, actionVersions);
+
+    expect(workflow).toContain('uses: googleapis/release-please-action@v4');
+    expect(workflow).toContain('release_created: ${{ steps.release.outputs.release_created }}');
+    expect(workflow).toContain('needs: release-please');
+    expect(workflow).toContain('if: ${{ needs.release-please.outputs.release_created }}');
+    expect(workflow).toContain('run: npm run test:all');
+    expect(workflow).toContain('run: npm publish --access public');
+    expect(workflow).toContain('NODE_AUTH_TOKEN: ${{ secrets.NPM_TOKEN }}');
+  });
+
+  it('should only grant id-token to the publish job', () => {
+    const workflow = generateReleasePleaseWorkflow(
+      { ...config, publishAuth: 'provenance' },
+      nodeConfig,
+      actionVersions
+    );
+    const [releaseJob, publishJob] = workflow.split('  publish:');
+
+    expect(releaseJob).toContain('pull-requests: write');
+    expect(releaseJob).not.toContain('id-token: write');
+    expect(publishJob).toContain('id-token: write');
+    expect(publishJob).toContain('--provenance');
+  });
+});
+
 describe('generateDependabotConfig', () => {
   it('should generate valid Dependabot configuration', () => {
     const config = generateDependabotConfig();
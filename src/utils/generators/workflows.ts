@@ -5,6 +5,65 @@
 import type { ProjectConfig } from './types.js';
 import type { NodeVersionConfig } from '../nodeFetcher.js';
 import type { ActionVersionResult } from '../actionsFetcher.js';
+import {
+  execCommand,
+  getPackageManager,
+  installCommand,
+  publishCommand,
+  runScript,
+} from './packageManager.js';
+
+/**
+ * Generates the steps that install Node.js and the package manager, with dependency caching
+ * pnpm and yarn must be on the PATH before setup-node can cache their stores; setup-node has
+ * no bun cache, so bun's install cache goes through actions/cache
+ */
+function generateSetupSteps(
+  config: ProjectConfig,
+  actionVersions: Map<string, ActionVersionResult>,
+  node: { name: string; version: string; registryUrl?: string }
+): string[] {
+  const pm = getPackageManager(config);
+  const setupNodeVersion = actionVersions.get('actions/setup-node')?.version || 'v4';
+  const steps: string[] = [];
+
+  if (pm === 'pnpm') {
+    const pnpmSetupVersion = actionVersions.get('pnpm/action-setup')?.version || 'v4';
+    steps.push(`      - name: Setup pnpm
+        uses: pnpm/action-setup@${pnpmSetupVersion}
+        with:
+          version: latest`);
+  } else if (pm === 'yarn') {
+    steps.push(`      - name: Enable Corepack
+        run: corepack enable`);
+  }
+
+  const nodeOptions = [
+    `          node-version: ${node.version}`,
+    ...(node.registryUrl ? [`          registry-url: '${node.registryUrl}'`] : []),
+    ...(pm === 'bun' ? [] : [`          cache: '${pm}'`]),
+  ];
+  steps.push(`      - name: ${node.name}
+        uses: actions/setup-node@${setupNodeVersion}
+        with:
+${nodeOptions.join('\n')}`);
+
+  if (pm === 'bun') {
+    const setupBunVersion = actionVersions.get('oven-sh/setup-bun')?.version || 'v2';
+    const cacheVersion = actionVersions.get('actions/cache')?.version || 'v4';
+    steps.push(`      - name: Setup Bun
+        uses: oven-sh/setup-bun@${setupBunVersion}`);
+    steps.push(`      - name: Cache Bun dependencies
+        uses: actions/cache@${cacheVersion}
+        with:
+          path: ~/.bun/install/cache
+          key: \${{ runner.os }}-bun-\${{ hashFiles('bun.lock', 'bun.lockb') }}
+          restore-keys: |
+            \${{ runner.os }}-bun-`);
+  }
+
+  return steps;
+}
 
 /**
  * Generates a CI workflow for GitHub Actions
@@ -19,7 +78,6 @@ export function generateCIWorkflow(
 
   // Get action versions with fallbacks
   const checkoutVersion = actionVersions.get('actions/checkout')?.version || 'v4';
-  const setupNodeVersion = actionVersions.get('actions/setup-node')?.version || 'v4';
   const codecovVersion = actionVersions.get('codecov/codecov-action')?.version || 'v4';
 
   // Build the steps dynamically based on config
@@ -27,38 +85,38 @@ export function generateCIWorkflow(
     `      - name: Checkout code
         uses: actions/checkout@${checkoutVersion}`,
 
-    `      - name: Setup Node.js \${{ matrix.node-version }}
-        uses: actions/setup-node@${setupNodeVersion}
-        with:
-          node-version: \${{ matrix.node-version }}`,
+    ...generateSetupSteps(config, actionVersions, {
+      name: 'Setup Node.js ${{ matrix.node-version }}',
+      version: '${{ matrix.node-version }}',
+    }),
 
     `      - name: Install dependencies
-        run: npm install`,
+        run: ${installCommand(config, { frozen: true })}`,
   ];
 
   // Add typecheck step for TypeScript projects
   if (config.language === 'typescript') {
     steps.push(`      - name: Type check
-        run: npm run typecheck`);
+        run: ${runScript(config, 'typecheck')}`);
   }
 
   // Add lint step if linting is enabled
   if (config.useLinting) {
     steps.push(`      - name: Lint
-        run: npm run lint`);
+        run: ${runScript(config, 'lint')}`);
   }
 
   // Add test step if tests are configured
   // Use coverage in CI if setupCI is enabled, otherwise run regular tests
   if (config.testRunner !== 'none') {
-    const testCommand = config.setupCI ? 'npm run test:coverage' : 'npm test';
+    const testCommand = runScript(config, config.setupCI ? 'test:coverage' : 'test');
     steps.push(`      - name: Run tests
         run: ${testCommand}`);
   }
 
   // Add build step
   steps.push(`      - name: Build
-        run: npm run build`);
+        run: ${runScript(config, 'build')}`);
 
   // Add coverage upload only if Codecov is enabled and tests are configured
   // Only upload for latest LTS to avoid duplicate uploads
@@ -91,17 +149,102 @@ ${steps.join('\n\n')}
 `;
 }
 
+/**
+ * Whether publishing needs an NPM_TOKEN secret (and the token helper script)
+ * Trusted publishing authenticates with the workflow's OIDC token instead
+ */
+export function usesPublishToken(config: ProjectConfig): boolean {
+  return config.publishAuth !== 'oidc';
+}
+
+/**
+ * Job permissions for publishing
+ * id-token: write is only requested when npm needs the OIDC token (provenance or trusted publishing)
+ */
+function generatePublishPermissions(config: ProjectConfig, permissions: string[]): string {
+  const all = [...permissions];
+  if (config.publishAuth === 'provenance' || config.publishAuth === 'oidc') {
+    all.push('id-token: write');
+  }
+  return all.map(permission => `      ${permission}`).join('\n');
+}
+
+/**
+ * Generates the publish step, authenticated according to config.publishAuth
+ */
+function generatePublishSteps(
+  config: ProjectConfig,
+  publish: { name: string; run: string; env?: Record<string, string>; tokenVariable?: string }
+): string[] {
+  const env = { ...publish.env };
+  const steps: string[] = [];
+
+  if (usesPublishToken(config)) {
+    env[publish.tokenVariable ?? 'NODE_AUTH_TOKEN'] = '${{ secrets.NPM_TOKEN }}';
+  } else {
+    // Trusted publishing needs npm 11.5.1 or later, newer than the npm bundled with Node.js LTS
+    steps.push(`      - name: Update npm
+        run: npm install -g npm@latest`);
+  }
+
+  const envLines = Object.entries(env).map(([key, value]) => `          ${key}: ${value}`);
+  steps.push(`      - name: ${publish.name}
+        run: ${publish.run}${envLines.length ? `\n        env:\n${envLines.join('\n')}` : ''}`);
+
+  return steps;
+}
+
+/**
+ * registry-url for setup-node: the package's publish registry, or the public npm registry
+ */
+function getRegistryUrl(config: ProjectConfig): string {
+  return config.registry ?? 'https://registry.npmjs.org';
+}
+
 /**
  * Generates a CD (Continuous Deployment) workflow for GitHub Actions
- * Publishes package to npm when a release is created
+ * Publishes package to npm when a release is created. Prereleases go out under a dist-tag named
+ * after their identifier (v1.2.0-beta.1 -> beta), or `next` when it isn't a word (v1.2.0-0), so
+ * they never become latest
  */
 export function generateCDWorkflow(
+  config: ProjectConfig,
   nodeConfig: NodeVersionConfig,
   actionVersions: Map<string, ActionVersionResult>
 ): string {
   // Get action versions with fallbacks
   const checkoutVersion = actionVersions.get('actions/checkout')?.version || 'v4';
-  const setupNodeVersion = actionVersions.get('actions/setup-node')?.version || 'v4';
+  const steps = [
+    ...generateSetupSteps(config, actionVersions, {
+      name: 'Setup Node.js',
+      version: `'${nodeConfig.latestLTS}.x'`,
+      registryUrl: getRegistryUrl(config),
+    }),
+    `      - name: Install Dependencies
+        run: ${installCommand(config, { frozen: true })}`,
+    `      - name: Run Tests
+        run: ${runScript(config, 'test:all')}`,
+    `      - name: Determine npm dist-tag
+        id: dist-tag
+        run: |
+          case "$TAG_NAME" in
+            *-*)
+              ID="\${TAG_NAME#*-}"; ID="\${ID%%.*}"
+              case "$ID" in
+                [A-Za-z]*) TAG="$ID" ;;
+                *) TAG=next ;;
+              esac ;;
+            *) TAG=$([ "$PRERELEASE" = "true" ] && echo next || echo latest) ;;
+          esac
+          echo "tag=$TAG" >> "$GITHUB_OUTPUT"
+        env:
+          TAG_NAME: \${{ github.event.release.tag_name }}
+          PRERELEASE: \${{ github.event.release.prerelease }}`,
+    ...generatePublishSteps(config, {
+      name: 'Publish to npm',
+      run: `${publishCommand(config)} --tag \${{ steps.dist-tag.outputs.tag }}`,
+    }),
+  ];
 
   return `name: Publish to npm
 
@@ -113,30 +256,234 @@ jobs:
   publish:
     runs-on: ubuntu-latest
     permissions:
-      contents: read
-      id-token: write
+${generatePublishPermissions(config, ['contents: read'])}
 
     steps:
       - name: Checkout
         uses: actions/checkout@${checkoutVersion}
 
-      - name: Setup Node.js
-        uses: actions/setup-node@${setupNodeVersion}
+${steps.join('\n\n')}
+`;
+}
+
+/**
+ * Generates the Changesets version workflow
+ * Opens (and keeps updating) a version PR that applies the pending changesets
+ */
+export function generateChangesetsVersionWorkflow(
+  config: ProjectConfig,
+  nodeConfig: NodeVersionConfig,
+  actionVersions: Map<string, ActionVersionResult>
+): string {
+  const checkoutVersion = actionVersions.get('actions/checkout')?.version || 'v4';
+  const changesetsVersion = actionVersions.get('changesets/action')?.version || 'v1';
+  const steps = [
+    ...generateSetupSteps(config, actionVersions, {
+      name: 'Setup Node.js',
+      version: `'${nodeConfig.latestLTS}.x'`,
+    }),
+    `      - name: Install Dependencies
+        run: ${installCommand(config, { frozen: true })}`,
+    `      - name: Create or update the version PR
+        uses: changesets/action@${changesetsVersion}
         with:
-          node-version: '${nodeConfig.latestLTS}.x'
-          registry-url: 'https://registry.npmjs.org'
-          cache: 'npm'
+          title: 'chore: version packages'
+          commit: 'chore: version packages'
+        env:
+          GITHUB_TOKEN: \${{ secrets.GITHUB_TOKEN }}`,
+  ];
+
+  return `name: Version
+
+on:
+  push:
+    branches: [main]
+
+concurrency: \${{ github.workflow }}-\${{ github.ref }}
 
-      - name: Install Dependencies
-        run: npm ci
+jobs:
+  version:
+    runs-on: ubuntu-latest
+    permissions:
+      contents: write
+      pull-requests: write
 
-      - name: Run Tests
-        run: npm run test:all
+    steps:
+      - name: Checkout
+        uses: actions/checkout@${checkoutVersion}
 
-      - name: Publish to npm
-        run: npm publish --access public
-        env:
-          NODE_AUTH_TOKEN: \${{ secrets.NPM_TOKEN }}
+${steps.join('\n\n')}
+`;
+}
+
+/**
+ * Generates the Changesets publish workflow
+ * Runs on every push to main; changeset publish only publishes versions that aren't on npm yet,
+ * so it is a no-op until the version PR is merged
+ */
+export function generateChangesetsPublishWorkflow(
+  config: ProjectConfig,
+  nodeConfig: NodeVersionConfig,
+  actionVersions: Map<string, ActionVersionResult>
+): string {
+  const checkoutVersion = actionVersions.get('actions/checkout')?.version || 'v4';
+  const steps = [
+    ...generateSetupSteps(config, actionVersions, {
+      name: 'Setup Node.js',
+      version: `'${nodeConfig.latestLTS}.x'`,
+      registryUrl: getRegistryUrl(config),
+    }),
+    `      - name: Install Dependencies
+        run: ${installCommand(config, { frozen: true })}`,
+    `      - name: Run Tests
+        run: ${runScript(config, 'test:all')}`,
+    ...generatePublishSteps(config, {
+      name: 'Publish to npm',
+      run: execCommand(config, 'changeset publish'),
+      // changeset publish runs the package manager's publish, which reads provenance from the environment
+      env: config.publishAuth === 'provenance' ? { NPM_CONFIG_PROVENANCE: 'true' } : {},
+    }),
+    `      - name: Push release tags
+        run: git push --follow-tags`,
+  ];
+
+  return `name: Publish to npm
+
+on:
+  push:
+    branches: [main]
+
+concurrency: \${{ github.workflow }}-\${{ github.ref }}
+
+jobs:
+  publish:
+    runs-on: ubuntu-latest
+    permissions:
+${generatePublishPermissions(config, ['contents: write'])}
+
+    steps:
+      - name: Checkout
+        uses: actions/checkout@${checkoutVersion}
+
+${steps.join('\n\n')}
+`;
+}
+
+/**
+ * Generates the semantic-release workflow
+ * Runs on every push to main: semantic-release works out the next version from the commit
+ * messages since the last tag, publishes it and creates the GitHub release
+ */
+export function generateSemanticReleaseWorkflow(
+  config: ProjectConfig,
+  nodeConfig: NodeVersionConfig,
+  actionVersions: Map<string, ActionVersionResult>
+): string {
+  const checkoutVersion = actionVersions.get('actions/checkout')?.version || 'v4';
+  const steps = [
+    // No registry-url: @semantic-release/npm writes its own .npmrc from NPM_TOKEN
+    ...generateSetupSteps(config, actionVersions, {
+      name: 'Setup Node.js',
+      version: `'${nodeConfig.latestLTS}.x'`,
+    }),
+    `      - name: Install Dependencies
+        run: ${installCommand(config, { frozen: true })}`,
+    `      - name: Run Tests
+        run: ${runScript(config, 'test:all')}`,
+    ...generatePublishSteps(config, {
+      name: 'Release',
+      run: execCommand(config, 'semantic-release'),
+      env: {
+        GITHUB_TOKEN: '${{ secrets.GITHUB_TOKEN }}',
+        ...(config.publishAuth === 'provenance' ? { NPM_CONFIG_PROVENANCE: 'true' } : {}),
+      },
+      tokenVariable: 'NPM_TOKEN',
+    }),
+  ];
+
+  return `name: Release
+
+on:
+  push:
+    branches: [main]
+
+concurrency: \${{ github.workflow }}-\${{ github.ref }}
+
+jobs:
+  release:
+    runs-on: ubuntu-latest
+    permissions:
+${generatePublishPermissions(config, ['contents: write', 'issues: write', 'pull-requests: write'])}
+
+    steps:
+      - name: Checkout
+        uses: actions/checkout@${checkoutVersion}
+        with:
+          # semantic-release reads every commit since the last release tag
+          fetch-depth: 0
+
+${steps.join('\n\n')}
+`;
+}
+
+/**
+ * Generates the release-please workflow
+ * The first job keeps a release PR open on every push to main; merging it tags the release,
+ * and the publish job then publishes that version to npm
+ */
+export function generateReleasePleaseWorkflow(
+  config: ProjectConfig,
+  nodeConfig: NodeVersionConfig,
+  actionVersions: Map<string, ActionVersionResult>
+): string {
+  const checkoutVersion = actionVersions.get('actions/checkout')?.version || 'v4';
+  const releasePleaseVersion =
+    actionVersions.get('googleapis/release-please-action')?.version || 'v4';
+  const steps = [
+    ...generateSetupSteps(config, actionVersions, {
+      name: 'Setup Node.js',
+      version: `'${nodeConfig.latestLTS}.x'`,
+      registryUrl: getRegistryUrl(config),
+    }),
+    `      - name: Install Dependencies
+        run: ${installCommand(config, { frozen: true })}`,
+    `      - name: Run Tests
+        run: ${runScript(config, 'test:all')}`,
+    ...generatePublishSteps(config, { name: 'Publish to npm', run: publishCommand(config) }),
+  ];
+
+  return `name: Release
+
+on:
+  push:
+    branches: [main]
+
+jobs:
+  release-please:
+    runs-on: ubuntu-latest
+    permissions:
+      contents: write
+      pull-requests: write
+    outputs:
+      release_created: \${{ steps.release.outputs.release_created }}
+
+    steps:
+      - name: Create or update the release PR
+        id: release
+        uses: googleapis/release-please-action@${releasePleaseVersion}
+
+  publish:
+    needs: release-please
+    if: \${{ needs.release-please.outputs.release_created }}
+    runs-on: ubuntu-latest
+    permissions:
+${generatePublishPermissions(config, ['contents: read'])}
+
+    steps:
+      - name: Checkout
+        uses: actions/checkout@${checkoutVersion}
+
+${steps.join('\n\n')}
 `;
 }
 
@@ -0,0 +1,153 @@
+/**
+ * Workspace root generators
+ * Handles the root package.json, pnpm-workspace.yaml and README of a monorepo;
+ * member packages come from the regular generators
+ */
+
+import type { ProjectConfig } from './types.js';
+import { getPackageManager, installCommand, runScript } from './packageManager.js';
+
+export const WORKSPACE_PACKAGES_DIR = 'packages';
+
+interface WorkspacePackageJson {
+  name: string;
+  version: string;
+  private: true;
+  description: string;
+  type: 'module';
+  workspaces?: string[];
+  scripts: Record<string, string>;
+  engines: {
+    node: string;
+  };
+  devDependencies: Record<string, string>;
+}
+
+function unscoped(packageName: string): string {
+  return packageName.replace(/^@[^/]+\//, '');
+}
+
+/**
+ * Directory of a member package inside the workspace
+ * @example "@acme/utils" -> "packages/utils"
+ */
+export function getMemberDir(packageName: string): string {
+  return `${WORKSPACE_PACKAGES_DIR}/${unscoped(packageName)}`;
+}
+
+/**
+ * Runs a script in every member that defines it, using the workspace's package manager
+ */
+function runInMembers(config: ProjectConfig, script: string): string {
+  switch (getPackageManager(config)) {
+    case 'pnpm':
+      return `pnpm -r --if-present run ${script}`;
+    case 'bun':
+      return `bun run --filter '*' ${script}`;
+    default:
+      // Also for yarn: Yarn 1's `yarn workspaces run` fails on members without the script
+      return `npm run ${script} --workspaces --if-present`;
+  }
+}
+
+/**
+ * Generates the root scripts
+ * Build, typecheck and tests fan out to the members; linting runs once over the whole tree
+ */
+export function generateWorkspaceScripts(config: ProjectConfig): Record<string, string> {
+  const scripts: Record<string, string> = {
+    build: runInMembers(config, 'build'),
+  };
+
+  if (config.language === 'typescript') {
+    scripts.typecheck = runInMembers(config, 'typecheck');
+  }
+
+  if (config.testRunner !== 'none') {
+    scripts.test = runInMembers(config, 'test');
+    scripts['test:coverage'] = runInMembers(config, 'test:coverage');
+  }
+
+  if (config.useLinting) {
+    scripts.lint = 'eslint .';
+    scripts['lint:fix'] = 'eslint . --fix';
+    scripts.format = `prettier --write "${WORKSPACE_PACKAGES_DIR}/*/src/**/*.{ts,js,json,md}"`;
+    scripts['format:check'] =
+      `prettier --check "${WORKSPACE_PACKAGES_DIR}/*/src/**/*.{ts,js,json,md}"`;
+  }
+
+  return scripts;
+}
+
+/**
+ * Generates the private workspace root package.json
+ * pnpm lists its members in pnpm-workspace.yaml instead of the workspaces field
+ */
+export function generateWorkspacePackageJson(
+  config: ProjectConfig,
+  options: { nodeEngines: string; devDependencies: Record<string, string> }
+): WorkspacePackageJson {
+  return {
+    name: `${unscoped(config.packageName)}-monorepo`,
+    version: '0.0.0',
+    private: true,
+    description: config.description || 'A monorepo created with forge-npm-pkg',
+    // The root only holds ESM config files (eslint.config.js)
+    type: 'module',
+    ...(config.packageManager !== 'pnpm' && { workspaces: [`${WORKSPACE_PACKAGES_DIR}/*`] }),
+    scripts: generateWorkspaceScripts(config),
+    engines: {
+      node: options.nodeEngines,
+    },
+    devDependencies: options.devDependencies,
+  };
+}
+
+/**
+ * Generates pnpm-workspace.yaml
+ */
+export function generatePnpmWorkspace(): string {
+  return `packages:
+  - '${WORKSPACE_PACKAGES_DIR}/*'
+`;
+}
+
+/**
+ * Generates the workspace root README.md
+ */
+export function generateWorkspaceReadme(config: ProjectConfig): string {
+  const run = (script: string) => runScript(config, script);
+  const memberDir = getMemberDir(config.packageName);
+
+  return `# ${unscoped(config.packageName)}
+
+${config.description || 'A monorepo created with forge-npm-pkg.'}
+
+## Packages
+
+Every package lives in its own directory under \`${WORKSPACE_PACKAGES_DIR}/\` and is published on its own, starting with [\`${config.packageName}\`](./${memberDir}).
+
+## Development
+
+\`\`\`bash
+${installCommand(config)}
+${run('build')}${config.testRunner !== 'none' ? `\n${run('test')}` : ''}${
+    config.useLinting ? `\n${run('lint')}` : ''
+  }
+\`\`\`
+
+Scripts at the root run in every package that defines them.${
+    config.language === 'typescript'
+      ? ' Every package extends the shared `tsconfig.base.json`.'
+      : ''
+  }${config.useLinting ? ' ESLint and Prettier are configured once at the root.' : ''}
+
+## Adding a package
+
+\`\`\`bash
+npx forge-npm-pkg add package <name>
+\`\`\`
+
+New packages use the same language, module format, test runner and linting setup as the rest of the workspace.
+`;
+}
@@ -0,0 +1,303 @@
+/**
+ * Shared HTTP client for the registry, nodejs.org and GitHub lookups
+ * Every request gets a timeout, transient failures are retried with exponential backoff, and at
+ * most `concurrency` requests are in flight so a large dependency set doesn't hit the registry
+ * all at once. HTTPS_PROXY, HTTP_PROXY and NO_PROXY are honored like npm does
+ */
+
+import http from 'http';
+import https from 'https';
+import tls from 'tls';
+import { URL } from 'url';
+
+export interface HttpClientOptions {
+  /** Per-attempt timeout in milliseconds */
+  timeout: number;
+  /** Attempts after the first one; only transient network errors, timeouts, 429 and 5xx are retried */
+  retries: number;
+  /** Delay before the first retry in milliseconds, doubled for every further retry */
+  retryDelay: number;
+  /** Maximum number of requests in flight */
+  concurrency: number;
+  /** Log every request with its status and timing to stderr */
+  verbose: boolean;
+}
+
+export interface HttpRequestOptions {
+  headers?: Record<string, string>;
+}
+
+export const HTTP_CLIENT_DEFAULTS: HttpClientOptions = {
+  timeout: 5000,
+  retries: 2,
+  retryDelay: 250,
+  concurrency: 8,
+  verbose: false,
+};
+
+let configured: Partial<HttpClientOptions> = {};
+
+/**
+ * Overrides the defaults and environment variables for the rest of the process
+ * Replaces any earlier configuration, so `configureHttpClient({})` restores the defaults
+ */
+export function configureHttpClient(options: Partial<HttpClientOptions>): void {
+  configured = { ...options };
+}
+
+/**
+ * Reads a non-negative integer from the environment; anything else keeps the default
+ */
+function readEnvInteger(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || !/^\d+$/.test(value.trim())) return undefined;
+  return Number(value);
+}
+
+/**
+ * Effective options: configureHttpClient() over FORGE_NPM_PKG_HTTP_* variables over the defaults
+ */
+export function getHttpClientOptions(): HttpClientOptions {
+  const concurrency = readEnvInteger('FORGE_NPM_PKG_HTTP_CONCURRENCY');
+  return {
+    ...HTTP_CLIENT_DEFAULTS,
+    timeout: readEnvInteger('FORGE_NPM_PKG_HTTP_TIMEOUT') || HTTP_CLIENT_DEFAULTS.timeout,
+    retries: readEnvInteger('FORGE_NPM_PKG_HTTP_RETRIES') ?? HTTP_CLIENT_DEFAULTS.retries,
+    concurrency: concurrency || HTTP_CLIENT_DEFAULTS.concurrency,
+    ...configured,
+  };
+}
+
+let active = 0;
+const waiting: (() => void)[] = [];
+
+async function acquireSlot(concurrency: number): Promise<void> {
+  if (active < concurrency) {
+    active++;
+    return;
+  }
+  await new Promise<void>(resolve => waiting.push(resolve));
+}
+
+/**
+ * Hands the slot straight to the next waiting request, if any
+ */
+function releaseSlot(): void {
+  const next = waiting.shift();
+  if (next) next();
+  else active--;
+}
+
+/**
+ * Checks a host against NO_PROXY entries: `*`, host names (which also cover their subdomains),
+ * `.domain` or `*.domain` suffixes, each optionally with a `:port`
+ */
+export function shouldBypassProxy(host: string, port: string, noProxy: string): boolean {
+  const hostname = host.toLowerCase().replace(/^\[|\]$/g, '');
+
+  return noProxy
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .some(entry => {
+      if (entry === '*') return true;
+
+      const match = /^(.*?)(?::(\d+))?$/.exec(entry.toLowerCase().replace(/^\[|\]$/g, ''))!;
+      const domain = match[1].replace(/^\*?\./, '');
+      if (match[2] && match[2] !== port) return false;
+      return hostname === domain || hostname.endsWith(`.${domain}`);
+    });
+}
+
+/**
+ * Proxy for a request URL from HTTPS_PROXY / HTTP_PROXY (either case), unless NO_PROXY excludes it
+ */
+export function getProxyForUrl(url: string): URL | undefined {
+  const target = new URL(url);
+  const env = process.env;
+  const proxy =
+    target.protocol === 'https:'
+      ? env.HTTPS_PROXY || env.https_proxy || env.HTTP_PROXY || env.http_proxy
+      : env.HTTP_PROXY || env.http_proxy;
+  if (!proxy) return undefined;
+
+  const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+  if (shouldBypassProxy(target.hostname, port, env.NO_PROXY || env.no_proxy || '')) {
+    return undefined;
+  }
+
+  try {
+    // npm accepts proxies without a scheme too
+    return new URL(/^[a-z]+:\/\//i.test(proxy) ? proxy : `http://${proxy}`);
+  } catch {
+    throw new Error(`Invalid proxy URL: "${proxy}"`);
+  }
+}
+
+function proxyAuthorization(proxy: URL): Record<string, string> {
+  if (!proxy.username) return {};
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return { 'Proxy-Authorization': `Basic ${Buffer.from(credentials).toString('base64')}` };
+}
+
+/**
+ * Opens a CONNECT tunnel through the proxy and starts TLS to the target inside it
+ */
+function connectTunnel(target: URL, proxy: URL, signal: AbortSignal): Promise<tls.TLSSocket> {
+  const port = target.port || '443';
+
+  return new Promise((resolve, reject) => {
+    const request = (proxy.protocol === 'https:' ? https : http).request({
+      host: proxy.hostname,
+      port: proxy.port || (proxy.protocol === 'https:' ? 443 : 80),
+      method: 'CONNECT',
+      path: `${target.hostname}:${port}`,
+      headers: { Host: `${target.hostname}:${port}`, ...proxyAuthorization(proxy) },
+      signal,
+    });
+
+    request.once('connect', (response, socket) => {
+      if (response.statusCode !== 200) {
+        socket.destroy();
+        reject(new Error(`Proxy CONNECT to ${target.host} failed: HTTP ${response.statusCode}`));
+        return;
+      }
+      resolve(tls.connect({ socket, servername: target.hostname }));
+    });
+    request.once('error', reject);
+    request.end();
+  });
+}
+
+/**
+ * GET through a proxy with node's http client, since the built-in fetch ignores proxies
+ * https targets are tunneled with CONNECT; http targets are requested from the proxy directly
+ */
+async function fetchViaProxy(
+  url: string,
+  proxy: URL,
+  headers: Record<string, string>,
+  signal: AbortSignal
+): Promise<Response> {
+  const target = new URL(url);
+  const path = `${target.pathname}${target.search}`;
+
+  let request: http.ClientRequest;
+  if (target.protocol === 'https:') {
+    const socket = await connectTunnel(target, proxy, signal);
+    request = https.request({
+      host: target.hostname,
+      port: target.port || 443,
+      path,
+      headers: { Host: target.host, ...headers },
+      createConnection: () => socket,
+      signal,
+    });
+  } else {
+    request = (proxy.protocol === 'https:' ? https : http).request({
+      host: proxy.hostname,
+      port: proxy.port || (proxy.protocol === 'https:' ? 443 : 80),
+      path: url,
+      headers: { Host: target.host, ...headers, ...proxyAuthorization(proxy) },
+      signal,
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    request.once('response', response => {
+      const chunks: Buffer[] = [];
+      response.on('data', (chunk: Buffer) => chunks.push(chunk));
+      response.once('error', reject);
+      response.once('end', () => {
+        const status = response.statusCode ?? 502;
+        const responseHeaders: [string, string][] = Object.entries(response.headers).flatMap(
+          ([name, value]) =>
+            (Array.isArray(value) ? value : [value ?? '']).map((v): [string, string] => [name, v])
+        );
+        const body = status === 204 || status === 304 ? null : Buffer.concat(chunks);
+        resolve(new Response(body, { status, headers: responseHeaders }));
+      });
+    });
+    request.once('error', reject);
+    request.end();
+  });
+}
+
+/**
+ * Errors that a retry a few hundred milliseconds later won't fix: the host doesn't resolve or
+ * nothing listens on the port
+ */
+const PERMANENT_ERROR_CODES = new Set(['ENOTFOUND', 'ECONNREFUSED']);
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * System error code of a failed request; fetch wraps it in `cause`, node's http client doesn't
+ */
+function getErrorCode(error: unknown): string | undefined {
+  const { code, cause } = error as { code?: unknown; cause?: { code?: unknown } };
+  const value = cause?.code ?? code;
+  return typeof value === 'string' ? value : undefined;
+}
+
+function isRetryableError(error: unknown): boolean {
+  const code = getErrorCode(error);
+  return code === undefined || !PERMANENT_ERROR_CODES.has(code);
+}
+
+function describeError(error: unknown): string {
+  if (!(error instanceof Error)) return String(error);
+  if (error.name === 'TimeoutError') return 'timed out';
+  return getErrorCode(error) ?? error.message;
+}
+
+function log(message: string): void {
+  process.stderr.write(`[http] ${message}\n`);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * GETs a URL with the shared timeout, retry, concurrency and proxy settings
+ * The last response is returned whatever its status; only a request that never got one throws
+ * @throws The last network error or timeout once every retry has failed, or at once when the host
+ *   can't be resolved or refuses the connection
+ */
+export async function httpGet(url: string, options: HttpRequestOptions = {}): Promise<Response> {
+  const { timeout, retries, retryDelay, concurrency, verbose } = getHttpClientOptions();
+  const proxy = getProxyForUrl(url);
+  const via = proxy ? `, via proxy ${proxy.host}` : '';
+  const attempts = retries + 1;
+
+  for (let attempt = 1; ; attempt++) {
+    await acquireSlot(concurrency);
+    const started = Date.now();
+    const signal = AbortSignal.timeout(timeout);
+    const label = `GET ${url}`;
+    const details = () => `in ${Date.now() - started}ms (attempt ${attempt}/${attempts}${via})`;
+    const delay = retryDelay * 2 ** (attempt - 1);
+
+    try {
+      const headers = options.headers ?? {};
+      const response = proxy
+        ? await fetchViaProxy(url, proxy, headers, signal)
+        : await fetch(url, { signal, headers });
+
+      if (verbose) log(`${label} → ${response.status} ${details()}`);
+      if (attempt >= attempts || !isRetryableStatus(response.status)) return response;
+      await response.body?.cancel();
+      if (verbose) log(`retrying in ${delay}ms`);
+    } catch (error) {
+      if (verbose) log(`${label} failed (${describeError(error)}) ${details()}`);
+      if (attempt >= attempts || !isRetryableError(error)) throw error;
+      if (verbose) log(`retrying in ${delay}ms`);
+    } finally {
+      releaseSlot();
+    }
+
+    await sleep(delay);
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { merge3, resolveMerge, formatUnifiedDiff } from './merge';
+
+const lines = (...values: string[]) => values.join('\n');
+
+describe('merge3', () => {
+  const base = lines('a', 'b', 'c', 'd', 'e');
+
+  it('should keep a file that nobody changed stable', () => {
+    expect(merge3(base, base, base)).toEqual([
+      { type: 'stable', lines: ['a', 'b', 'c', 'd', 'e'] },
+    ]);
+  });
+
+  it('should apply template changes the user did not touch', () => {
+    const chunks = merge3(base, base, lines('a', 'B', 'c', 'd', 'e'));
+
+    expect(chunks).toContainEqual({ type: 'theirs', lines: ['B'] });
+    expect(resolveMerge(chunks, 'ours')).toBe(lines('a', 'B', 'c', 'd', 'e'));
+  });
+
+  it('should keep user edits and apply template edits elsewhere', () => {
+    const ours = lines('a', 'b', 'c', 'd', 'e', 'user line');
+    const theirs = lines('template line', 'a', 'b', 'c', 'd', 'e');
+    const chunks = merge3(base, ours, theirs);
+
+    expect(chunks.some(chunk => chunk.type === 'conflict')).toBe(false);
+    expect(resolveMerge(chunks, 'ours')).toBe(
+      lines('template line', 'a', 'b', 'c', 'd', 'e', 'user line')
+    );
+  });
+
+  it('should treat identical changes on both sides as clean', () => {
+    const changed = lines('a', 'b', 'X', 'd', 'e');
+
+    expect(merge3(base, changed, changed)).toContainEqual({ type: 'both', lines: ['X'] });
+  });
+
+  it('should handle deletions', () => {
+    const chunks = merge3(base, lines('a', 'b', 'c', 'd', 'e', 'f'), lines('a', 'c', 'd', 'e'));
+
+    expect(resolveMerge(chunks, 'ours')).toBe(lines('a', 'c', 'd', 'e', 'f'));
+  });
+
+  it('should report overlapping changes as a conflict', () => {
+    const chunks = merge3(
+      base,
+      lines('a', 'b', 'mine', 'd', 'e'),
+      lines('a', 'b', 'new', 'd', 'e')
+    );
+
+    expect(chunks).toContainEqual({
+      type: 'conflict',
+      base: ['c'],
+      ours: ['mine'],
+      theirs: ['new'],
+    });
+  });
+});
+
+describe('resolveMerge', () => {
+  const chunks = merge3(lines('a', 'old', 'z'), lines('a', 'mine', 'z'), lines('a', 'new', 'z'));
+
+  it("should keep the user's lines for conflicts", () => {
+    expect(resolveMerge(chunks, 'ours')).toBe(lines('a', 'mine', 'z'));
+  });
+
+  it('should write diff3-style markers', () => {
+    expect(resolveMerge(chunks, 'markers', { ours: 'yours', base: 'v1', theirs: 'v2' })).toBe(
+      lines('a', '<<<<<<< yours', 'mine', '||||||| v1', 'old', '=======', 'new', '>>>>>>> v2', 'z')
+    );
+  });
+});
+
+describe('formatUnifiedDiff', () => {
+  it('should return an empty string for identical files', () => {
+    expect(formatUnifiedDiff('a\nb\n', 'a\nb\n', 'a/file', 'b/file')).toBe('');
+  });
+
+  it('should format hunks with context and line numbers', () => {
+    const before = lines('1', '2', '3', '4', '5', '6', '7', '8', '9');
+    const after = lines('1', '2', '3', '4', 'five', '6', '7', '8', '9');
+
+    expect(formatUnifiedDiff(before, after, 'a/file', 'b/file')).toBe(
+      lines(
+        '--- a/file',
+        '+++ b/file',
+        '@@ -2,7 +2,7 @@',
+        ' 2',
+        ' 3',
+        ' 4',
+        '-5',
+        '+five',
+        ' 6',
+        ' 7',
+        ' 8'
+      )
+    );
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const before = Array.from({ length: 20 }, (_, i) => String(i)).join('\n');
+    const after = before.replace(/^0$/m, 'zero').replace(/^19$/m, 'nineteen');
+
+    const diff = formatUnifiedDiff(before, after, 'a', 'b');
+
+    expect(diff.match(/^@@/gm)).toHaveLength(2);
+    expect(diff).toContain('@@ -1,4 +1,4 @@');
+    expect(diff).toContain('@@ -17,4 +17,4 @@');
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Line-based diff and three-way merge
+ * Used by `upgrade` to carry template improvements into files users have edited
+ */
+
+export type MergeChunk =
+  /** Lines that are identical in the base, the user's file and the new template */
+  | { type: 'stable'; lines: string[] }
+  /** Only the user changed these lines; their version is kept */
+  | { type: 'ours'; lines: string[] }
+  /** Only the template changed these lines; the new template is applied */
+  | { type: 'theirs'; lines: string[] }
+  /** Both sides made the same change */
+  | { type: 'both'; lines: string[] }
+  /** Both sides changed the same lines differently */
+  | { type: 'conflict'; base: string[]; ours: string[]; theirs: string[] };
+
+export interface ConflictLabels {
+  ours: string;
+  base: string;
+  theirs: string;
+}
+
+export function splitLines(text: string): string[] {
+  return text.split('\n');
+}
+
+/**
+ * Longest common subsequence of two line arrays
+ * Returns, for every line of `a`, the index of its matching line in `b` (or -1)
+ */
+function matchLines(a: string[], b: string[]): number[] {
+  const matches = new Array<number>(a.length).fill(-1);
+
+  // Common prefix and suffix don't need the quadratic table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    matches[start] = start;
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    matches[endA] = endB;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n === 0 || m === 0) return matches;
+
+  // lengths[i][j] = LCS length of a[start+i..endA) and b[start+j..endB)
+  const width = m + 1;
+  const lengths = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[start + i] === b[start + j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[start + i] === b[start + j]) {
+      matches[start + i] = start + j;
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Three-way merges the user's file (ours) and the new template (theirs) against the
+ * template the file was originally generated from (base)
+ */
+export function merge3(base: string, ours: string, theirs: string): MergeChunk[] {
+  const baseLines = splitLines(base);
+  const ourLines = splitLines(ours);
+  const theirLines = splitLines(theirs);
+  const toOurs = matchLines(baseLines, ourLines);
+  const toTheirs = matchLines(baseLines, theirLines);
+
+  const chunks: MergeChunk[] = [];
+  const push = (chunk: MergeChunk) => {
+    const previous = chunks[chunks.length - 1];
+    if (chunk.type !== 'conflict' && previous?.type === chunk.type) {
+      previous.lines.push(...chunk.lines);
+    } else {
+      chunks.push(chunk);
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  let k = 0;
+
+  for (;;) {
+    // Stable line: matched in both versions at the current position
+    if (i < baseLines.length && toOurs[i] === j && toTheirs[i] === k) {
+      push({ type: 'stable', lines: [baseLines[i]] });
+      i++;
+      j++;
+      k++;
+      continue;
+    }
+
+    // Unstable region runs until the next base line both versions kept
+    let next = i;
+    while (next < baseLines.length && (toOurs[next] === -1 || toTheirs[next] === -1)) {
+      next++;
+    }
+    const ourEnd = next < baseLines.length ? toOurs[next] : ourLines.length;
+    const theirEnd = next < baseLines.length ? toTheirs[next] : theirLines.length;
+
+    const baseChunk = baseLines.slice(i, next);
+    const ourChunk = ourLines.slice(j, ourEnd);
+    const theirChunk = theirLines.slice(k, theirEnd);
+
+    if (ourChunk.length > 0 || theirChunk.length > 0 || baseChunk.length > 0) {
+      if (sameLines(ourChunk, theirChunk)) {
+        if (ourChunk.length > 0) push({ type: 'both', lines: ourChunk });
+      } else if (sameLines(ourChunk, baseChunk)) {
+        if (theirChunk.length > 0) push({ type: 'theirs', lines: theirChunk });
+      } else if (sameLines(theirChunk, baseChunk)) {
+        if (ourChunk.length > 0) push({ type: 'ours', lines: ourChunk });
+      } else {
+        chunks.push({ type: 'conflict', base: baseChunk, ours: ourChunk, theirs: theirChunk });
+      }
+    }
+
+    if (next >= baseLines.length) break;
+    i = next;
+    j = ourEnd;
+    k = theirEnd;
+  }
+
+  return chunks;
+}
+
+/**
+ * Turns merge chunks back into text
+ * Conflicts keep the user's lines ('ours') or are written with diff3-style markers
+ */
+export function resolveMerge(
+  chunks: MergeChunk[],
+  conflictStyle: 'ours' | 'markers',
+  labels: ConflictLabels = { ours: 'yours', base: 'original template', theirs: 'new template' }
+): string {
+  const lines: string[] = [];
+
+  for (const chunk of chunks) {
+    if (chunk.type !== 'conflict') {
+      lines.push(...chunk.lines);
+    } else if (conflictStyle === 'ours') {
+      lines.push(...chunk.ours);
+    } else {
+      lines.push(
+        `<<<<<<< ${labels.ours}`,
+        ...chunk.ours,
+        `||||||| ${labels.base}`,
+        ...chunk.base,
+        '=======',
+        ...chunk.theirs,
+        `>>>>>>> ${labels.theirs}`
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Formats a unified diff (3 lines of context) between two versions of a file
+ * Returns an empty string when they are identical
+ */
+export function formatUnifiedDiff(
+  before: string,
+  after: string,
+  fromLabel: string,
+  toLabel: string,
+  context = 3
+): string {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  const matches = matchLines(a, b);
+
+  // Edit script: ' ' unchanged, '-' removed from a, '+' added in b
+  const ops: { op: ' ' | '-' | '+'; line: string; aIndex: number; bIndex: number }[] = [];
+  let j = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (matches[i] === -1) {
+      ops.push({ op: '-', line: a[i], aIndex: i, bIndex: j });
+      continue;
+    }
+    while (j < matches[i]) {
+      ops.push({ op: '+', line: b[j], aIndex: i, bIndex: j });
+      j++;
+    }
+    ops.push({ op: ' ', line: a[i], aIndex: i, bIndex: j });
+    j++;
+  }
+  while (j < b.length) {
+    ops.push({ op: '+', line: b[j], aIndex: a.length, bIndex: j });
+    j++;
+  }
+
+  const changed = ops.map((entry, index) => (entry.op === ' ' ? -1 : index)).filter(i => i >= 0);
+  if (changed.length === 0) return '';
+
+  const output = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  let index = 0;
+  while (index < changed.length) {
+    // Grow the hunk while the next change is within 2 * context lines
+    const hunkStart = Math.max(0, changed[index] - context);
+    let last = changed[index];
+    while (index + 1 < changed.length && changed[index + 1] - last <= context * 2) {
+      index++;
+      last = changed[index];
+    }
+    const hunkEnd = Math.min(ops.length, last + context + 1);
+    const hunk = ops.slice(hunkStart, hunkEnd);
+
+    const aCount = hunk.filter(entry => entry.op !== '+').length;
+    const bCount = hunk.filter(entry => entry.op !== '-').length;
+    const aStart = aCount === 0 ? hunk[0].aIndex : hunk[0].aIndex + 1;
+    const bStart = bCount === 0 ? hunk[0].bIndex : hunk[0].bIndex + 1;
+
+    output.push(`@@ -${aStart},${aCount} +${bStart},${bCount} @@`);
+    output.push(...hunk.map(entry => `${entry.op}${entry.line}`));
+    index++;
+  }
+
+  return output.join('\n');
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  type NodeSchedule,
+  NODE_SCHEDULE_URL,
+  getNodeLTSVersions,
+  isPastEOL,
+  resolveNodeVersions,
+} from './nodeFetcher';
+import { VERSION_SNAPSHOT } from './versionSnapshot';
+
+const SCHEDULE: NodeSchedule = {
+  v20: { start: '2023-04-18', lts: '2023-10-24', maintenance: '2024-10-22', end: '2026-04-30' },
+  v22: { start: '2024-04-24', lts: '2024-10-29', maintenance: '2025-10-21', end: '2027-04-30' },
+  v23: { start: '2024-10-16', maintenance: '2025-04-01', end: '2025-06-01' },
+  v24: { start: '2025-05-06', lts: '2025-10-28', maintenance: '2026-10-20', end: '2028-04-30' },
+  v25: { start: '2025-10-15', maintenance: '2026-04-01', end: '2026-06-01' },
+};
+
+const at = (date: string) => Date.parse(date);
+
+describe('resolveNodeVersions', () => {
+  it('should support every LTS line before End-of-Life by default', () => {
+    expect(resolveNodeVersions(SCHEDULE, 'supported', at('2026-01-15'))).toEqual({
+      minimum: 20,
+      engines: '>=20.0.0',
+      ciMatrix: [24, 22, 20],
+      latestLTS: 24,
+    });
+    expect(resolveNodeVersions(SCHEDULE, undefined, at('2026-05-01'))?.ciMatrix).toEqual([24, 22]);
+  });
+
+  it('should limit active-lts to lines in Active LTS', () => {
+    expect(resolveNodeVersions(SCHEDULE, 'active-lts', at('2026-01-15'))).toMatchObject({
+      minimum: 24,
+      ciMatrix: [24],
+    });
+    // No line in Active LTS between 22 entering maintenance and 24 being promoted
+    expect(resolveNodeVersions(SCHEDULE, 'active-lts', at('2025-10-25'))?.ciMatrix).toEqual([22]);
+  });
+
+  it('should add the Current release line for current', () => {
+    expect(resolveNodeVersions(SCHEDULE, 'current', at('2026-01-15'))).toMatchObject({
+      minimum: 20,
+      ciMatrix: [25, 24, 22, 20],
+      latestLTS: 24,
+    });
+    // 24 is Current until its LTS promotion, so it isn't the latest LTS yet
+    expect(resolveNodeVersions(SCHEDULE, 'current', at('2025-07-01'))).toMatchObject({
+      ciMatrix: [24, 22, 20],
+      latestLTS: 22,
+    });
+  });
+
+  it('should return nothing when no LTS line is supported', () => {
+    expect(resolveNodeVersions(SCHEDULE, 'supported', at('2030-01-01'))).toBeUndefined();
+  });
+});
+
+describe('isPastEOL', () => {
+  it('should use the schedule and treat majors outside it by their position', () => {
+    expect(isPastEOL(20, SCHEDULE, at('2026-04-30'))).toBe(false);
+    expect(isPastEOL(20, SCHEDULE, at('2026-05-01'))).toBe(true);
+    expect(isPastEOL(18, SCHEDULE, at('2026-01-15'))).toBe(true);
+    expect(isPastEOL(26, SCHEDULE, at('2026-01-15'))).toBe(false);
+  });
+});
+
+describe('getNodeLTSVersions', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should apply the versionPolicy release line policy to the fetched schedule', async () => {
+    vi.useFakeTimers({ now: at('2026-01-15'), toFake: ['Date'] });
+    const fetchMock = vi.fn().mockResolvedValue(
+      Response.json({
+        'v0.12': { start: '2015-02-06', end: '2016-12-31' },
+        ...SCHEDULE,
+      })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    try {
+      const node = await getNodeLTSVersions({ policy: { node: 'active-lts' } });
+
+      expect(node).toMatchObject({ engines: '>=24.0.0', ciMatrix: [24] });
+      expect(fetchMock.mock.calls[0][0]).toBe(NODE_SCHEDULE_URL);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should fall back to the bundled schedule when it cannot be fetched', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(null, { status: 404 })));
+
+    const node = await getNodeLTSVersions();
+
+    expect(node).toEqual(resolveNodeVersions(VERSION_SNAPSHOT.nodeSchedule));
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Could not fetch the Node.js release schedule')
+    );
+  });
+});
@@ -1,8 +1,13 @@
 /**
- * Node.js LTS version fetcher
- * Fetches active LTS versions from nodejs.org with fallback to known versions
+ * Node.js release line resolver
+ * Reads the official release schedule (start, Active LTS, maintenance and End-of-Life dates per
+ * major) with a copy bundled in the version snapshot for offline runs and network failures
  */
 
+import type { FetchOptions } from './versionFetcher.js';
+import { VERSION_SNAPSHOT } from './versionSnapshot.js';
+import { CACHE_TTL, cachedFetchJson } from './fetchCache.js';
+
 export interface NodeVersionConfig {
   minimum: number;
   engines: string;
@@ -10,89 +15,160 @@ export interface NodeVersionConfig {
   latestLTS: number;
 }
 
-interface NodeDistVersion {
-  version: string;
-  date: string;
-  lts: false | string;
+/**
+ * Which release lines the generated package supports
+ * - `active-lts`: LTS lines in Active LTS
+ * - `supported`: every LTS line that hasn't reached End-of-Life (the default)
+ * - `current`: the supported LTS lines plus the Current release line
+ */
+export const NODE_POLICIES = ['active-lts', 'supported', 'current'] as const;
+
+export type NodePolicy = (typeof NODE_POLICIES)[number];
+
+/**
+ * One release line from the Node.js release schedule; dates are YYYY-MM-DD
+ */
+export interface NodeReleaseLine {
+  start: string;
+  /** Start of Active LTS; missing for odd lines, which never become LTS */
+  lts?: string;
+  maintenance?: string;
+  end: string;
 }
 
 /**
- * Fallback Node versions if fetching fails
- * Update when new LTS releases (typically once per year)
+ * Release lines keyed by "v<major>", as in nodejs/Release's schedule.json
  */
-const FALLBACK_NODE_CONFIG: NodeVersionConfig = {
-  minimum: 20,
-  engines: '>=20.0.0',
-  ciMatrix: [20, 22],
-  latestLTS: 22
-};
+export type NodeSchedule = Record<string, NodeReleaseLine>;
+
+export const NODE_SCHEDULE_URL =
+  'https://raw.githubusercontent.com/nodejs/Release/main/schedule.json';
 
 /**
- * Checks if a Node.js version is past its End-of-Life date
+ * Keeps the dated fields of the integer majors (not v0.x) so the cached copy stays small
  */
-function isPastEOL(majorVersion: number): boolean {
-  const EOL_DATES: Record<number, Date> = {
-    16: new Date('2023-09-11'),
-    18: new Date('2025-04-30'),
-    20: new Date('2026-04-30'),
-    22: new Date('2027-04-30'),
-    // Future versions (estimated based on Node.js release schedule)
-    24: new Date('2028-04-30'),
-    26: new Date('2029-04-30'),
-  };
+function selectSchedule(body: unknown): NodeSchedule {
+  const schedule: NodeSchedule = {};
 
-  const eolDate = EOL_DATES[majorVersion];
-  if (!eolDate) {
-    // If we don't know the EOL date, assume it's still active
-    return false;
+  for (const [key, value] of Object.entries(body as Record<string, Partial<NodeReleaseLine>>)) {
+    if (!/^v[1-9]\d*$/.test(key) || typeof value?.start !== 'string') continue;
+    if (typeof value.end !== 'string') continue;
+
+    const { start, lts, maintenance, end } = value;
+    schedule[key] = { start, ...(lts && { lts }), ...(maintenance && { maintenance }), end };
   }
 
-  return Date.now() > eolDate.getTime();
+  if (Object.keys(schedule).length === 0) {
+    throw new Error('The Node.js release schedule lists no release lines');
+  }
+  return schedule;
 }
 
 /**
- * Fetches active LTS versions from nodejs.org
+ * Release lines newest first
  */
-export async function getNodeLTSVersions(): Promise<NodeVersionConfig> {
-  try {
-    const response = await fetch(
-      'https://nodejs.org/dist/index.json',
-      { signal: AbortSignal.timeout(5000) }
-    );
+function getReleaseLines(schedule: NodeSchedule): { major: number; line: NodeReleaseLine }[] {
+  return Object.entries(schedule)
+    .map(([key, line]) => ({ major: Number(key.slice(1)), line }))
+    .filter(({ major }) => Number.isInteger(major) && major > 0)
+    .sort((a, b) => b.major - a.major);
+}
 
-    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+/**
+ * End-of-Life date of a release line, if the schedule lists it
+ */
+export function getEOLDate(
+  majorVersion: number,
+  schedule: NodeSchedule = VERSION_SNAPSHOT.nodeSchedule
+): Date | undefined {
+  const line = schedule[`v${majorVersion}`];
+  return line ? new Date(line.end) : undefined;
+}
 
-    const versions = await response.json() as NodeDistVersion[];
+/**
+ * Checks if a Node.js version is past its End-of-Life date
+ * Defaults to the bundled schedule, which is enough for dates announced years ahead
+ */
+export function isPastEOL(
+  majorVersion: number,
+  schedule: NodeSchedule = VERSION_SNAPSHOT.nodeSchedule,
+  now: number = Date.now()
+): boolean {
+  const eolDate = getEOLDate(majorVersion, schedule);
+  if (eolDate) return now > eolDate.getTime();
+
+  // Majors older than the schedule are long past EOL; newer ones weren't released when it was made
+  const majors = getReleaseLines(schedule).map(({ major }) => major);
+  return majors.length > 0 && majorVersion < Math.min(...majors);
+}
 
-    // Filter for LTS versions that are not past EOL
-    const ltsVersions = versions
-      .filter(v => v.lts !== false) // Has LTS codename
-      .map(v => parseInt(v.version.match(/^v(\d+)/)?.[1] || '0'))
-      .filter(v => v > 0 && !isPastEOL(v))
-      .filter((v, i, arr) => arr.indexOf(v) === i) // Unique
-      .sort((a, b) => b - a); // Descending order
+/**
+ * Picks the release lines for a policy at a point in time
+ * @returns undefined when the schedule has no LTS line in support at that time
+ */
+export function resolveNodeVersions(
+  schedule: NodeSchedule,
+  policy: NodePolicy = 'supported',
+  now: number = Date.now()
+): NodeVersionConfig | undefined {
+  const reached = (date: string | undefined) => date !== undefined && now >= Date.parse(date);
+  // Released and not yet past End-of-Life
+  const lines = getReleaseLines(schedule).filter(
+    ({ line }) => reached(line.start) && now <= Date.parse(line.end)
+  );
 
-    if (ltsVersions.length === 0) {
-      throw new Error('No active LTS versions found');
-    }
+  const ltsLines = lines.filter(({ line }) => reached(line.lts));
+  if (ltsLines.length === 0) return undefined;
 
-    // Get the latest 2 LTS versions for CI matrix
-    const ciMatrix = ltsVersions.slice(0, 2);
-    const latestLTS = ltsVersions[0];
+  let selected = ltsLines;
+  if (policy === 'active-lts') {
+    const active = ltsLines.filter(({ line }) => !reached(line.maintenance));
+    // Between one line entering maintenance and the next being promoted, keep the newest LTS
+    selected = active.length > 0 ? active : ltsLines.slice(0, 1);
+  } else if (policy === 'current') {
+    selected = lines;
+  }
 
-    // Use the older of the two as minimum (more compatible)
-    const minimum = ciMatrix.length >= 2 ? ciMatrix[1] : latestLTS;
+  const ciMatrix = selected.map(({ major }) => major);
+  const minimum = Math.min(...ciMatrix);
 
-    return {
-      minimum,
-      engines: `>=${minimum}.0.0`,
-      ciMatrix,
-      latestLTS
-    };
+  return {
+    minimum,
+    engines: `>=${minimum}.0.0`,
+    ciMatrix,
+    latestLTS: ltsLines[0].major,
+  };
+}
 
+/**
+ * Fetches the Node.js release schedule, falling back to the bundled copy
+ */
+export async function getNodeSchedule(options: FetchOptions = {}): Promise<NodeSchedule> {
+  if (options.offline) {
+    return VERSION_SNAPSHOT.nodeSchedule;
+  }
+
+  try {
+    return await cachedFetchJson<NodeSchedule>(NODE_SCHEDULE_URL, {
+      ttl: CACHE_TTL.nodeSchedule,
+      select: selectSchedule,
+    });
   } catch {
-    // Fallback to known stable versions
-    console.warn('⚠️  Could not fetch Node.js LTS versions, using fallback');
-    return FALLBACK_NODE_CONFIG;
+    console.warn(
+      `⚠️  Could not fetch the Node.js release schedule, using the bundled one (${VERSION_SNAPSHOT.generatedAt})`
+    );
+    return VERSION_SNAPSHOT.nodeSchedule;
   }
 }
+
+/**
+ * Resolves the Node.js versions for engines and the CI matrix from the release schedule
+ * Offline runs read the bundled schedule as of the snapshot date, so their output stays pinned
+ */
+export async function getNodeLTSVersions(options: FetchOptions = {}): Promise<NodeVersionConfig> {
+  const policy = options.policy?.node;
+  const schedule = await getNodeSchedule(options);
+  const now = options.offline ? Date.parse(VERSION_SNAPSHOT.generatedAt) : Date.now();
+
+  return resolveNodeVersions(schedule, policy, now) ?? { ...VERSION_SNAPSHOT.node };
+}
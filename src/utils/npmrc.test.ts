@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  getPackageUrl,
+  getRegistryAuthHeaders,
+  getScopeRegistry,
+  parseNpmrc,
+  readNpmrc,
+  resolveRegistry,
+} from './npmrc';
+
+describe('parseNpmrc', () => {
+  it('should parse keys, skip comments and strip quotes', () => {
+    const config = parseNpmrc(
+      [
+        '; comment',
+        '# another comment',
+        'registry = https://mirror.example.com/',
+        '@acme:registry="https://npm.acme.dev/"',
+        'ca[]=cert',
+      ].join('\n'),
+      {}
+    );
+
+    expect(config).toEqual({
+      registry: 'https://mirror.example.com/',
+      '@acme:registry': 'https://npm.acme.dev/',
+    });
+  });
+
+  it('should expand environment variables', () => {
+    const config = parseNpmrc(
+      '//npm.acme.dev/:_authToken=${NPM_TOKEN}\nliteral=\\${NPM_TOKEN}\nmissing=${UNSET}',
+      { NPM_TOKEN: 'secret' }
+    );
+
+    expect(config['//npm.acme.dev/:_authToken']).toBe('secret');
+    expect(config.literal).toBe('${NPM_TOKEN}');
+    expect(config.missing).toBe('${UNSET}');
+  });
+});
+
+describe('readNpmrc', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'forge-npmrc-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should let project settings override user and global ones', async () => {
+    await writeFile(join(dir, 'global'), 'registry=https://global.example.com/\nstrict-ssl=false');
+    await writeFile(
+      join(dir, 'user'),
+      'registry=https://user.example.com/\n@acme:registry=https://a/'
+    );
+    await writeFile(join(dir, '.npmrc'), '@acme:registry=https://npm.acme.dev/');
+
+    const config = readNpmrc(dir, {
+      npm_config_globalconfig: join(dir, 'global'),
+      npm_config_userconfig: join(dir, 'user'),
+    });
+
+    expect(config['strict-ssl']).toBe('false');
+    expect(config.registry).toBe('https://user.example.com/');
+    expect(config['@acme:registry']).toBe('https://npm.acme.dev/');
+  });
+
+  it('should let npm_config_* environment variables win', () => {
+    const config = readNpmrc(dir, {
+      npm_config_globalconfig: join(dir, 'missing'),
+      npm_config_userconfig: join(dir, 'missing'),
+      npm_config_registry: 'https://env.example.com/',
+    });
+
+    expect(config.registry).toBe('https://env.example.com/');
+  });
+});
+
+describe('resolveRegistry', () => {
+  const npmrc = {
+    registry: 'https://mirror.example.com',
+    '@acme:registry': 'https://npm.acme.dev/',
+  };
+
+  it('should use the scope registry for scoped packages', () => {
+    expect(resolveRegistry('@acme/utils', npmrc, 'https://override.example.com/')).toBe(
+      'https://npm.acme.dev/'
+    );
+  });
+
+  it('should prefer the override over the configured registry', () => {
+    expect(resolveRegistry('typescript', npmrc)).toBe('https://mirror.example.com/');
+    expect(resolveRegistry('typescript', npmrc, 'https://override.example.com')).toBe(
+      'https://override.example.com/'
+    );
+    expect(resolveRegistry('typescript', {})).toBe('https://registry.npmjs.org/');
+  });
+
+  it('should only report non-default scope registries as publish registries', () => {
+    expect(getScopeRegistry('@acme/utils', npmrc)).toBe('https://npm.acme.dev/');
+    expect(getScopeRegistry('utils', npmrc)).toBeUndefined();
+    expect(
+      getScopeRegistry('@types/node', { '@types:registry': 'https://registry.npmjs.org' })
+    ).toBeUndefined();
+  });
+
+  it('should escape the scope separator in package URLs', () => {
+    expect(getPackageUrl('https://npm.acme.dev/npm', '@acme/utils')).toBe(
+      'https://npm.acme.dev/npm/@acme%2futils'
+    );
+  });
+});
+
+describe('getRegistryAuthHeaders', () => {
+  it('should send the token configured for the registry', () => {
+    const headers = getRegistryAuthHeaders('https://npm.acme.dev/', {
+      '//npm.acme.dev/:_authToken': 'secret',
+    });
+
+    expect(headers).toEqual({ Authorization: 'Bearer secret' });
+  });
+
+  it('should walk up the registry path', () => {
+    const headers = getRegistryAuthHeaders('https://acme.dev/artifactory/api/npm/npm/', {
+      '//acme.dev/artifactory/:_auth': 'dXNlcjpwYXNz',
+    });
+
+    expect(headers).toEqual({ Authorization: 'Basic dXNlcjpwYXNz' });
+  });
+
+  it('should combine username and the base64 _password into basic auth', () => {
+    const headers = getRegistryAuthHeaders('https://npm.acme.dev', {
+      '//npm.acme.dev/:username': 'user',
+      '//npm.acme.dev/:_password': Buffer.from('pass').toString('base64'),
+    });
+
+    expect(headers).toEqual({
+      Authorization: `Basic ${Buffer.from('user:pass').toString('base64')}`,
+    });
+  });
+
+  it('should not send credentials to other registries', () => {
+    const npmrc = { '//npm.acme.dev/:_authToken': 'secret', _authToken: 'npm-token' };
+
+    expect(getRegistryAuthHeaders('https://evil.example.com/', npmrc)).toEqual({});
+    expect(getRegistryAuthHeaders('https://registry.npmjs.org/', npmrc)).toEqual({
+      Authorization: 'Bearer npm-token',
+    });
+  });
+});
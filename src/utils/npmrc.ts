@@ -0,0 +1,210 @@
+/**
+ * .npmrc reader
+ * Resolves the registry and credentials npm itself would use for a package, so version lookups
+ * work against private registries and mirrors
+ */
+
+import { readFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { URL } from 'url';
+
+export const NPM_REGISTRY = 'https://registry.npmjs.org/';
+
+/**
+ * Merged .npmrc settings, keyed as written in the file (e.g. "@acme:registry")
+ */
+export type NpmrcConfig = Record<string, string>;
+
+/**
+ * Replaces ${VAR} with the environment variable, like npm does; unset variables are left as-is
+ */
+function expandEnv(value: string, env: NodeJS.ProcessEnv): string {
+  return value.replace(
+    /(\\*)\$\{([^}?]+)(\?)?\}/g,
+    (match, slashes: string, name: string, optional) => {
+      // An odd number of backslashes escapes the expression
+      if (slashes.length % 2 === 1) return match.slice(1);
+      const resolved = env[name];
+      if (resolved === undefined) return optional ? slashes : match;
+      return slashes + resolved;
+    }
+  );
+}
+
+/**
+ * Parses the ini format used by .npmrc
+ * Array keys (key[]=value) are skipped since nothing here needs them
+ */
+export function parseNpmrc(content: string, env: NodeJS.ProcessEnv = process.env): NpmrcConfig {
+  const config: NpmrcConfig = {};
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(';') || line.startsWith('#')) continue;
+
+    const separator = line.indexOf('=');
+    if (separator === -1) continue;
+
+    const key = expandEnv(line.slice(0, separator).trim(), env);
+    let value = line.slice(separator + 1).trim();
+    if (!key || key.endsWith('[]')) continue;
+
+    if (/^(["']).*\1$/.test(value)) {
+      value = value.slice(1, -1);
+    }
+    config[key] = expandEnv(value, env);
+  }
+
+  return config;
+}
+
+function readNpmrcFile(path: string, env: NodeJS.ProcessEnv): NpmrcConfig {
+  try {
+    return parseNpmrc(readFileSync(path, 'utf-8'), env);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Location of the global npmrc ($PREFIX/etc/npmrc)
+ */
+function getGlobalNpmrcPath(env: NodeJS.ProcessEnv): string {
+  if (env.npm_config_globalconfig) return env.npm_config_globalconfig;
+  const prefix =
+    env.npm_config_prefix ??
+    (process.platform === 'win32' ? dirname(process.execPath) : dirname(dirname(process.execPath)));
+  return join(prefix, 'etc', 'npmrc');
+}
+
+/**
+ * Reads the global, user and project .npmrc files plus npm_config_* environment variables
+ * Later sources win, matching npm's precedence
+ */
+export function readNpmrc(
+  projectDir: string = process.cwd(),
+  env: NodeJS.ProcessEnv = process.env
+): NpmrcConfig {
+  const fromEnv: NpmrcConfig = {};
+  for (const [name, value] of Object.entries(env)) {
+    if (value !== undefined && name.toLowerCase().startsWith('npm_config_')) {
+      fromEnv[name.slice('npm_config_'.length).toLowerCase()] = value;
+    }
+  }
+
+  return {
+    ...readNpmrcFile(getGlobalNpmrcPath(env), env),
+    ...readNpmrcFile(env.npm_config_userconfig ?? join(homedir(), '.npmrc'), env),
+    ...readNpmrcFile(join(projectDir, '.npmrc'), env),
+    ...fromEnv,
+  };
+}
+
+/**
+ * Adds the trailing slash npm expects, so package names can be appended
+ */
+export function normalizeRegistryUrl(url: string): string {
+  return url.endsWith('/') ? url : `${url}/`;
+}
+
+export function isDefaultRegistry(url: string | undefined): boolean {
+  return !url || normalizeRegistryUrl(url) === NPM_REGISTRY;
+}
+
+/**
+ * Checks that a registry URL is an absolute http(s) URL
+ */
+export function validateRegistryUrl(url: string): string | undefined {
+  try {
+    const { protocol } = new URL(url);
+    if (protocol === 'https:' || protocol === 'http:') return undefined;
+  } catch {
+    // Reported below
+  }
+  return 'Registry must be an http(s) URL';
+}
+
+function getScope(packageName: string): string | undefined {
+  return packageName.startsWith('@') ? packageName.split('/')[0] : undefined;
+}
+
+/**
+ * Registry a package is fetched from: its @scope:registry, then the override, then the
+ * configured registry
+ * @param override - Replaces the default registry (like npm --registry); scoped registries still win
+ */
+export function resolveRegistry(
+  packageName: string,
+  npmrc: NpmrcConfig,
+  override?: string
+): string {
+  const scope = getScope(packageName);
+  const scoped = scope ? npmrc[`${scope}:registry`] : undefined;
+  return normalizeRegistryUrl(scoped || override || npmrc.registry || NPM_REGISTRY);
+}
+
+/**
+ * Registry a new package would be published to according to .npmrc
+ * Only a non-default @scope:registry counts; a registry= line usually points at a read-only mirror
+ */
+export function getScopeRegistry(packageName: string, npmrc: NpmrcConfig): string | undefined {
+  const scope = getScope(packageName);
+  const scoped = scope ? npmrc[`${scope}:registry`] : undefined;
+  return scoped && !isDefaultRegistry(scoped) ? normalizeRegistryUrl(scoped) : undefined;
+}
+
+/**
+ * Registry URL for a package document; the scope separator is escaped like npm does
+ * @example ("https://registry.npmjs.org/", "@types/node") -> "https://registry.npmjs.org/@types%2fnode"
+ */
+export function getPackageUrl(registry: string, packageName: string): string {
+  return `${normalizeRegistryUrl(registry)}${packageName.replace('/', '%2f')}`;
+}
+
+/**
+ * Authorization header for a registry, from its "//host/path/:" credentials
+ * Looks up _authToken, _auth, then username/_password, walking up the path like npm
+ */
+export function getRegistryAuthHeaders(
+  registry: string,
+  npmrc: NpmrcConfig
+): Record<string, string> {
+  let url: URL;
+  try {
+    url = new URL(normalizeRegistryUrl(registry));
+  } catch {
+    return {};
+  }
+
+  let path = url.pathname;
+  for (;;) {
+    const key = `//${url.host}${path}`;
+
+    const token = npmrc[`${key}:_authToken`];
+    if (token) return { Authorization: `Bearer ${token}` };
+
+    const auth = npmrc[`${key}:_auth`];
+    if (auth) return { Authorization: `Basic ${auth}` };
+
+    const username = npmrc[`${key}:username`];
+    const password = npmrc[`${key}:_password`];
+    if (username && password) {
+      const decoded = Buffer.from(password, 'base64').toString('utf-8');
+      return {
+        Authorization: `Basic ${Buffer.from(`${username}:${decoded}`).toString('base64')}`,
+      };
+    }
+
+    if (path === '/') break;
+    path = path.replace(/[^/]*\/$/, '');
+  }
+
+  // Top-level credentials only apply to the default registry
+  if (normalizeRegistryUrl(registry) === normalizeRegistryUrl(npmrc.registry || NPM_REGISTRY)) {
+    if (npmrc._authToken) return { Authorization: `Bearer ${npmrc._authToken}` };
+    if (npmrc._auth) return { Authorization: `Basic ${npmrc._auth}` };
+  }
+
+  return {};
+}
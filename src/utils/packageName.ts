@@ -0,0 +1,30 @@
+/**
+ * npm package name validation
+ */
+
+export const NPM_NAME_MAX_LENGTH = 214;
+
+/**
+ * Validates package name according to npm rules
+ * Returns an error message, or undefined when the name is valid
+ */
+export function validatePackageName(name: string): string | undefined {
+  if (!name) return 'Package name is required';
+  if (name.length > NPM_NAME_MAX_LENGTH) {
+    return `Package name must be ${NPM_NAME_MAX_LENGTH} characters or less`;
+  }
+
+  // Check for scoped package
+  const scopedPackagePattern = /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+  if (!scopedPackagePattern.test(name)) {
+    return 'Package name must be lowercase and can only contain letters, numbers, hyphens, underscores, and @/ for scoped packages';
+  }
+
+  // Reserved names
+  const reserved = ['node_modules', 'favicon.ico'];
+  if (reserved.includes(name)) {
+    return `"${name}" is a reserved package name`;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fetchLatestVersions } from './versionFetcher';
+import { type PeerCandidate, findPeerConflicts, resolvePeerVersions } from './peerResolver';
+
+const eslintPlugin = (version: string, eslint: string) => ({
+  version,
+  peerDependencies: { eslint },
+});
+
+describe('findPeerConflicts', () => {
+  it('should report peer ranges the selected peer does not satisfy', () => {
+    const conflicts = findPeerConflicts(
+      new Map<string, PeerCandidate>([
+        ['eslint', { version: '10.0.0' }],
+        ['plugin', eslintPlugin('8.0.0', '^8.57.0 || ^9.0.0')],
+        ['other', { version: '1.0.0', peerDependencies: { react: '^19.0.0' } }],
+      ])
+    );
+
+    expect(conflicts).toEqual([
+      {
+        dependent: 'plugin',
+        dependentVersion: '8.0.0',
+        peer: 'eslint',
+        peerVersion: '10.0.0',
+        range: '^8.57.0 || ^9.0.0',
+      },
+    ]);
+  });
+});
+
+describe('resolvePeerVersions', () => {
+  it('should hold the host back when no plugin version accepts it', () => {
+    const { selection, heldBack, conflicts } = resolvePeerVersions([
+      { name: 'eslint', candidates: [{ version: '10.0.0' }, { version: '9.30.0' }] },
+      {
+        name: 'plugin',
+        candidates: [eslintPlugin('8.1.0', '^9.0.0'), eslintPlugin('8.0.0', '^8.57.0 || ^9.0.0')],
+      },
+    ]);
+
+    expect(conflicts).toEqual([]);
+    expect(selection.get('eslint')?.version).toBe('9.30.0');
+    expect(selection.get('plugin')?.version).toBe('8.1.0');
+    expect(heldBack).toEqual([
+      {
+        name: 'eslint',
+        from: '10.0.0',
+        to: '9.30.0',
+        conflict: expect.objectContaining({ dependent: 'plugin', range: '^9.0.0' }),
+      },
+    ]);
+  });
+
+  it('should hold the plugin back when an older one accepts the host', () => {
+    const { selection, heldBack } = resolvePeerVersions([
+      { name: 'vitest', candidates: [{ version: '5.0.2' }, { version: '5.0.1' }] },
+      {
+        name: '@vitest/coverage-v8',
+        candidates: [
+          { version: '5.0.3', peerDependencies: { vitest: '5.0.3' } },
+          { version: '5.0.2', peerDependencies: { vitest: '5.0.2' } },
+        ],
+      },
+    ]);
+
+    expect(selection.get('vitest')?.version).toBe('5.0.2');
+    expect(selection.get('@vitest/coverage-v8')?.version).toBe('5.0.2');
+    expect(heldBack.map(({ name }) => name)).toEqual(['@vitest/coverage-v8']);
+  });
+
+  it('should keep the original versions when no combination works', () => {
+    const { selection, heldBack, conflicts } = resolvePeerVersions([
+      { name: 'eslint', candidates: [{ version: '10.0.0' }] },
+      { name: 'plugin', candidates: [eslintPlugin('8.1.0', '^9.0.0')] },
+    ]);
+
+    expect(selection.get('eslint')?.version).toBe('10.0.0');
+    expect(heldBack).toEqual([]);
+    expect(conflicts).toHaveLength(1);
+  });
+});
+
+describe('fetchLatestVersions with peer dependencies', () => {
+  const packuments: Record<string, { latest: string; versions: Record<string, object> }> = {
+    eslint: { latest: '10.0.0', versions: { '9.29.0': {}, '9.30.0': {}, '10.0.0': {} } },
+    plugin: {
+      latest: '8.1.0',
+      versions: { '8.1.0': { peerDependencies: { eslint: '^8.57.0 || ^9.0.0' } } },
+    },
+    'legacy-plugin': {
+      latest: '2.0.0',
+      versions: { '2.0.0': { peerDependencies: { eslint: '~9.29.0' } } },
+    },
+  };
+
+  beforeEach(() => {
+    vi.stubEnv('npm_config_registry', 'https://registry.example.com/');
+    vi.stubEnv('npm_config_userconfig', '/nonexistent/.npmrc');
+    vi.stubEnv('npm_config_globalconfig', '/nonexistent/npmrc');
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        const [name, version] = url.replace('https://registry.example.com/', '').split('/');
+        const { latest, versions } = packuments[name];
+        if (version) {
+          const resolved = version === 'latest' ? latest : version;
+          return Response.json({ version: resolved, ...versions[resolved] });
+        }
+        return Response.json({ versions, time: {} });
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('should hold back versions the other packages do not support', async () => {
+    const versions = await fetchLatestVersions(['eslint', 'plugin']);
+
+    expect(versions.get('eslint')?.version).toBe('^9.30.0');
+    // After the release age warning for 10.0.0
+    expect(versions.get('eslint')?.warning).toContain(
+      'ℹ️  peerDependencies: eslint@9.30.0 instead of 10.0.0\n' +
+        '   plugin@8.1.0 requires eslint@^8.57.0 || ^9.0.0 (resolved 10.0.0)'
+    );
+    expect(versions.get('plugin')?.version).toBe('^8.1.0');
+  });
+
+  it('should keep the versionPolicy warning of a package it holds back', async () => {
+    const versions = await fetchLatestVersions(['eslint', 'legacy-plugin'], {
+      policy: { packages: { eslint: { deny: ['10.x'] } } },
+    });
+
+    expect(versions.get('eslint')?.version).toBe('^9.29.0');
+    expect(versions.get('eslint')?.warning).toBe(
+      'ℹ️  versionPolicy: eslint@9.30.0 instead of 10.0.0\n' +
+        '   10.0.0: denied by versionPolicy (10.x)\n\n' +
+        'ℹ️  peerDependencies: eslint@9.29.0 instead of 9.30.0\n' +
+        '   legacy-plugin@2.0.0 requires eslint@~9.29.0 (resolved 9.30.0)'
+    );
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Peer dependency resolution for the fetched devDependencies
+ * Each package's latest version is fetched on its own, so a plugin can require an older host than
+ * the one resolved (@typescript-eslint/* and eslint, ts-jest and jest, @vitest/coverage-v8 and
+ * vitest). This holds versions back until every peerDependencies range within the set is satisfied
+ */
+
+import { satisfies } from './semver.js';
+
+export interface PeerCandidate {
+  version: string;
+  peerDependencies?: Record<string, string>;
+}
+
+export interface PeerPackage {
+  name: string;
+  /** Versions that may be used, preferred (newest) first */
+  candidates: PeerCandidate[];
+}
+
+/**
+ * A peerDependencies range that the selected version of the peer doesn't satisfy
+ */
+export interface PeerConflict {
+  dependent: string;
+  dependentVersion: string;
+  peer: string;
+  peerVersion: string;
+  range: string;
+}
+
+export interface PeerHoldBack {
+  name: string;
+  from: string;
+  to: string;
+  /** The conflict that first required holding this package back */
+  conflict: PeerConflict;
+}
+
+export interface PeerResolution {
+  selection: Map<string, PeerCandidate>;
+  heldBack: PeerHoldBack[];
+  /** Conflicts no combination of the candidates could resolve; the selection is left as it was */
+  conflicts: PeerConflict[];
+  /** The conflict the search got stuck on; older candidates of either side might resolve it */
+  blockedBy?: PeerConflict;
+}
+
+function satisfiesPeerRange(version: string, range: string): boolean {
+  // A pre-release chosen with --allow-prerelease still counts as inside ^x.y.z ranges
+  return satisfies(version, range, { includePrerelease: true });
+}
+
+/**
+ * Lists every peerDependencies range in the selection that the selected peer doesn't satisfy
+ * Peers outside the selection are not checked
+ */
+export function findPeerConflicts(selection: Map<string, PeerCandidate>): PeerConflict[] {
+  const conflicts: PeerConflict[] = [];
+
+  for (const [dependent, candidate] of selection) {
+    for (const [peer, range] of Object.entries(candidate.peerDependencies ?? {})) {
+      const selected = selection.get(peer);
+      if (!selected || peer === dependent || satisfiesPeerRange(selected.version, range)) continue;
+
+      conflicts.push({
+        dependent,
+        dependentVersion: candidate.version,
+        peer,
+        peerVersion: selected.version,
+        range,
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Finds the newest combination in which every peerDependencies range is satisfied
+ * Conflicts are resolved one at a time by moving one side to an older candidate: whichever side
+ * has to skip fewer releases, and on a tie the package listed later (usually the plugin). Versions
+ * only ever move back, so the search always ends.
+ */
+export function resolvePeerVersions(packages: PeerPackage[]): PeerResolution {
+  const initial = new Map(packages.map(pkg => [pkg.name, pkg.candidates[0]]));
+  const selection = new Map(initial);
+  const firstConflicts = new Map<string, PeerConflict>();
+  const byName = new Map(packages.map((pkg, order) => [pkg.name, { ...pkg, order }]));
+
+  /**
+   * Newest candidate older than the current selection that passes the check, with the number
+   * of releases it skips
+   */
+  const holdBack = (name: string, accept: (candidate: PeerCandidate) => boolean) => {
+    const { candidates, order } = byName.get(name)!;
+    const current = candidates.indexOf(selection.get(name)!);
+    const index = candidates.findIndex((candidate, i) => i > current && accept(candidate));
+    return index === -1
+      ? undefined
+      : { name, order, candidate: candidates[index], skipped: index - current };
+  };
+
+  for (;;) {
+    const [conflict] = findPeerConflicts(selection);
+    if (!conflict) break;
+
+    const { dependent, peer, peerVersion, range } = conflict;
+    const options = [
+      holdBack(dependent, ({ peerDependencies }) => {
+        const peerRange = peerDependencies?.[peer];
+        return peerRange === undefined || satisfiesPeerRange(peerVersion, peerRange);
+      }),
+      holdBack(peer, ({ version }) => satisfiesPeerRange(version, range)),
+    ].filter(option => option !== undefined);
+
+    if (options.length === 0) {
+      return {
+        selection: initial,
+        heldBack: [],
+        conflicts: findPeerConflicts(initial),
+        blockedBy: conflict,
+      };
+    }
+
+    const [next] = options.sort((a, b) => a.skipped - b.skipped || b.order - a.order);
+    selection.set(next.name, next.candidate);
+    if (!firstConflicts.has(next.name)) firstConflicts.set(next.name, conflict);
+  }
+
+  const heldBack = packages
+    .filter(({ name }) => selection.get(name) !== initial.get(name))
+    .map(({ name }) => ({
+      name,
+      from: initial.get(name)!.version,
+      to: selection.get(name)!.version,
+      conflict: firstConflicts.get(name)!,
+    }));
+
+  return { selection, heldBack, conflicts: [] };
+}
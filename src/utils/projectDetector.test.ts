@@ -0,0 +1,260 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { detectProjectConfig } from './projectDetector';
+
+describe('detectProjectConfig', () => {
+  let dir: string;
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function createPackage(files: Record<string, string | object>): Promise<string> {
+    dir = await mkdtemp(join(tmpdir(), 'forge-detect-'));
+    for (const [path, content] of Object.entries(files)) {
+      await mkdir(dirname(join(dir, path)), { recursive: true });
+      await writeFile(
+        join(dir, path),
+        typeof content === 'string' ? content : JSON.stringify(content, null, 2)
+      );
+    }
+    return dir;
+  }
+
+  it('should fall back to defaults for a bare package', async () => {
+    const { config, evidence } = await detectProjectConfig(
+      await createPackage({ 'package.json': { name: 'bare' } })
+    );
+
+    expect(config).toMatchObject({
+      packageName: 'bare',
+      projectKind: 'library',
+      workspace: false,
+      language: 'javascript',
+      moduleType: 'commonjs',
+      testRunner: 'none',
+      useLinting: false,
+      setupCI: false,
+      setupCD: false,
+      useDependabot: false,
+      packageManager: 'npm',
+    });
+    expect(evidence).toEqual({ packageName: 'package.json name' });
+  });
+
+  it('should detect a dual TypeScript package from its exports map', async () => {
+    const { config, evidence } = await detectProjectConfig(
+      await createPackage({
+        'package.json': {
+          name: 'dual',
+          type: 'module',
+          exports: { '.': { types: './index.d.ts', import: './index.mjs', require: './index.js' } },
+        },
+        'tsconfig.json': {},
+      })
+    );
+
+    expect(config.language).toBe('typescript');
+    expect(config.moduleType).toBe('dual');
+    expect(evidence.moduleType).toBe('package.json exports');
+  });
+
+  it('should detect a CLI from the bin field', async () => {
+    const { config, evidence } = await detectProjectConfig(
+      await createPackage({ 'package.json': { name: 'greet', bin: { greet: './dist/cli.js' } } })
+    );
+
+    expect(config.projectKind).toBe('cli');
+    expect(evidence.projectKind).toBe('package.json bin');
+  });
+
+  it('should detect a pnpm workspace root', async () => {
+    const { config, evidence } = await detectProjectConfig(
+      await createPackage({
+        'package.json': { name: 'tools-monorepo', private: true },
+        'pnpm-workspace.yaml': "packages:\n  - 'packages/*'\n",
+        'tsconfig.base.json': {},
+      })
+    );
+
+    expect(config.workspace).toBe(true);
+    expect(config.language).toBe('typescript');
+    expect(config.packageManager).toBe('pnpm');
+    expect(evidence.workspace).toBe('pnpm-workspace.yaml');
+    expect(evidence.language).toBe('tsconfig.base.json');
+  });
+
+  it('should read the module format from the tsup config', async () => {
+    const { config, evidence } = await detectProjectConfig(
+      await createPackage({
+        'package.json': { name: 'esm-only', devDependencies: { typescript: '^5.0.0' } },
+        'tsup.config.ts': "export default defineConfig({ format: ['esm'], dts: true });",
+      })
+    );
+
+    expect(config.language).toBe('typescript');
+    expect(config.moduleType).toBe('esm');
+    expect(evidence.moduleType).toBe('tsup.config.ts');
+  });
+
+  it('should detect the test runner and linting', async () => {
+    const { config, evidence } = await detectProjectConfig(
+      await createPackage({
+        'package.json': { name: 'tested', devDependencies: { jest: '^30.0.0' } },
+        'eslint.config.mjs': 'export default [];',
+      })
+    );
+
+    expect(config.testRunner).toBe('jest');
+    expect(config.useLinting).toBe(true);
+    expect(evidence.useLinting).toBe('eslint.config.mjs');
+  });
+
+  it('should detect CI, CD, Codecov and Dependabot from workflows', async () => {
+    const { config, evidence } = await detectProjectConfig(
+      await createPackage({
+        'package.json': { name: 'automated' },
+        '.github/workflows/test.yml':
+          'on:\n  pull_request:\njobs:\n  test:\n    steps:\n      - uses: codecov/codecov-action@v5\n',
+        '.github/workflows/release.yaml':
+          'on:\n  release:\n    types: [created]\njobs:\n  publish:\n    steps:\n      - run: pnpm publish --no-git-checks\n',
+        '.github/workflows/dependabot-auto-merge.yml':
+          'on: pull_request_target\njobs:\n  merge:\n    steps:\n      - uses: dependabot/fetch-metadata@v2\n',
+        '.github/dependabot.yml': 'version: 2\n',
+      })
+    );
+
+    expect(config.setupCI).toBe(true);
+    expect(config.setupCD).toBe(true);
+    expect(config.useCodecov).toBe(true);
+    expect(config.useDependabot).toBe(true);
+    expect(evidence.setupCI).toBe('.github/workflows/test.yml');
+    expect(evidence.setupCD).toBe('.github/workflows/release.yaml');
+    // No token in the publish step: trusted publishing
+    expect(config.publishAuth).toBe('oidc');
+  });
+
+  it('should detect token and provenance publishing', async () => {
+    const publishWorkflow = (run: string) =>
+      `on:\n  release:\njobs:\n  publish:\n    steps:\n      - run: ${run}\n        env:\n          NODE_AUTH_TOKEN: \${{ secrets.NPM_TOKEN }}\n`;
+
+    const token = await detectProjectConfig(
+      await createPackage({
+        'package.json': { name: 'token' },
+        '.github/workflows/publish.yml': publishWorkflow('npm publish --access public'),
+      })
+    );
+    expect(token.config.publishAuth).toBe('token');
+    await rm(dir, { recursive: true, force: true });
+
+    const provenance = await detectProjectConfig(
+      await createPackage({
+        'package.json': { name: 'provenance' },
+        '.github/workflows/publish.yml': publishWorkflow('npm publish --provenance'),
+      })
+    );
+    expect(provenance.config.publishAuth).toBe('provenance');
+    expect(provenance.evidence.publishAuth).toBe('.github/workflows/publish.yml');
+  });
+
+  it('should detect the Changesets release strategy', async () => {
+    const { config, evidence } = await detectProjectConfig(
+      await createPackage({
+        'package.json': { name: 'changesets' },
+        '.changeset/config.json': '{}',
+        '.github/workflows/publish.yml':
+          'on:\n  push:\njobs:\n  publish:\n    steps:\n      - run: npx changeset publish\n        env:\n          NODE_AUTH_TOKEN: ${{ secrets.NPM_TOKEN }}\n          NPM_CONFIG_PROVENANCE: true\n',
+      })
+    );
+
+    expect(config.setupCD).toBe(true);
+    expect(config.releaseStrategy).toBe('changesets');
+    expect(config.publishAuth).toBe('provenance');
+    expect(evidence.releaseStrategy).toBe('.changeset/config.json');
+  });
+
+  it('should detect the semantic-release strategy', async () => {
+    const { config } = await detectProjectConfig(
+      await createPackage({
+        'package.json': { name: 'semantic' },
+        '.releaserc.json': '{}',
+        '.github/workflows/publish.yml':
+          'on:\n  push:\njobs:\n  release:\n    steps:\n      - run: npx semantic-release\n',
+      })
+    );
+
+    expect(config.setupCD).toBe(true);
+    expect(config.releaseStrategy).toBe('semantic-release');
+    // No NPM_TOKEN: trusted publishing
+    expect(config.publishAuth).toBe('oidc');
+  });
+
+  it('should detect the release-please strategy', async () => {
+    const { config, evidence } = await detectProjectConfig(
+      await createPackage({
+        'package.json': { name: 'release-please' },
+        'release-please-config.json': '{}',
+        '.github/workflows/release.yml':
+          'on:\n  push:\njobs:\n  publish:\n    steps:\n      - run: npm publish\n',
+      })
+    );
+
+    expect(config.releaseStrategy).toBe('release-please');
+    expect(evidence.releaseStrategy).toBe('release-please-config.json');
+  });
+
+  it('should prefer the packageManager field over lockfiles', async () => {
+    const fromField = await detectProjectConfig(
+      await createPackage({
+        'package.json': { name: 'corepack', packageManager: 'pnpm@9.12.0' },
+        'package-lock.json': '{}',
+      })
+    );
+    expect(fromField.config.packageManager).toBe('pnpm');
+    await rm(dir, { recursive: true, force: true });
+
+    const fromLockfile = await detectProjectConfig(
+      await createPackage({ 'package.json': { name: 'yarn-pkg' }, 'yarn.lock': '' })
+    );
+    expect(fromLockfile.config.packageManager).toBe('yarn');
+    expect(fromLockfile.evidence.packageManager).toBe('yarn.lock');
+  });
+
+  it('should parse author and GitHub metadata', async () => {
+    const { config } = await detectProjectConfig(
+      await createPackage({
+        'package.json': {
+          name: 'meta',
+          description: 'Something useful',
+          author: 'Jane Doe <jane@example.com> (https://github.com/janedoe)',
+          repository: { type: 'git', url: 'git+https://github.com/acme/meta.git' },
+        },
+      })
+    );
+
+    expect(config.description).toBe('Something useful');
+    expect(config.author).toBe('Jane Doe');
+    expect(config.authorEmail).toBe('jane@example.com');
+    expect(config.githubUsername).toBe('acme');
+  });
+
+  it('should detect the publish registry from publishConfig', async () => {
+    const { config, evidence } = await detectProjectConfig(
+      await createPackage({
+        'package.json': {
+          name: '@acme/meta',
+          publishConfig: { registry: 'https://npm.acme.dev/' },
+        },
+      })
+    );
+
+    expect(config.registry).toBe('https://npm.acme.dev/');
+    expect(evidence.registry).toBe('package.json publishConfig');
+  });
+
+  it('should throw when there is no package.json', async () => {
+    await expect(detectProjectConfig(await createPackage({}))).rejects.toThrow();
+  });
+});
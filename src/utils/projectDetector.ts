@@ -0,0 +1,338 @@
+/**
+ * Project detection
+ * The reverse of generation: reads an existing package directory and reconstructs a
+ * best-effort ProjectConfig from package.json, tsconfig, tsup/eslint config and workflows
+ */
+
+import { existsSync } from 'fs';
+import { readFile, readdir } from 'fs/promises';
+import { basename, join } from 'path';
+import YAML from 'yaml';
+import type { ProjectConfig } from './generators/types.js';
+
+export interface DetectedPackageJson {
+  name?: string;
+  version?: string;
+  description?: string;
+  type?: string;
+  main?: string;
+  module?: string;
+  exports?: unknown;
+  bin?: string | Record<string, string>;
+  workspaces?: string[] | { packages?: string[] };
+  author?: string | { name?: string; email?: string; url?: string };
+  repository?: string | { url?: string };
+  packageManager?: string;
+  publishConfig?: { registry?: string };
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+}
+
+/**
+ * Field -> the file (or field) the value was derived from
+ * Fields without evidence fell back to a default
+ */
+export type DetectionEvidence = Partial<Record<keyof ProjectConfig, string>>;
+
+export interface DetectionResult {
+  config: ProjectConfig;
+  evidence: DetectionEvidence;
+  packageJson: DetectedPackageJson;
+}
+
+const LOCKFILES: [string, NonNullable<ProjectConfig['packageManager']>][] = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['bun.lock', 'bun'],
+  ['bun.lockb', 'bun'],
+  ['package-lock.json', 'npm'],
+];
+
+const CONFIG_EXTENSIONS = ['ts', 'mts', 'cts', 'js', 'mjs', 'cjs'];
+
+const PUBLISH_PATTERN =
+  /\b(?:npm|pnpm|bun) publish\b|\byarn npm publish\b|\bchangeset publish\b|\bsemantic-release\b/;
+
+interface Workflow {
+  file: string;
+  content: string;
+  triggers: string[];
+}
+
+async function readTextFile(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Returns the first `<base>.<ext>` config file that exists, e.g. vitest.config.mts
+ */
+function findConfigFile(projectDir: string, base: string): string | undefined {
+  return CONFIG_EXTENSIONS.map(ext => `${base}.${ext}`).find(file =>
+    existsSync(join(projectDir, file))
+  );
+}
+
+/**
+ * Reads every GitHub Actions workflow along with its trigger events
+ */
+async function readWorkflows(projectDir: string): Promise<Workflow[]> {
+  const dir = join(projectDir, '.github', 'workflows');
+  let entries: string[];
+  try {
+    entries = await readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const workflows: Workflow[] = [];
+  for (const entry of entries.filter(name => /\.ya?ml$/.test(name)).sort()) {
+    const content = (await readTextFile(join(dir, entry))) ?? '';
+    let triggers: string[] = [];
+    try {
+      const on = YAML.parse(content)?.on;
+      if (typeof on === 'string') triggers = [on];
+      else if (Array.isArray(on)) triggers = on.map(String);
+      else if (on && typeof on === 'object') triggers = Object.keys(on);
+    } catch {
+      // Unparseable workflows still count for content matches
+    }
+    workflows.push({ file: `.github/workflows/${entry}`, content, triggers });
+  }
+
+  return workflows;
+}
+
+/**
+ * Derives the module format from the exports map, the tsup `format` option and `type`
+ */
+function detectModuleType(
+  pkg: DetectedPackageJson,
+  tsupConfig: { file: string; content: string } | undefined
+): { moduleType: ProjectConfig['moduleType']; evidence: string } {
+  const exportsJson = JSON.stringify(pkg.exports ?? {});
+  const hasImport = exportsJson.includes('"import"');
+  const hasRequire = exportsJson.includes('"require"');
+
+  if (hasImport && hasRequire) {
+    return { moduleType: 'dual', evidence: 'package.json exports' };
+  }
+
+  // Classic dual layout: CommonJS `main` next to an ESM `module` entry
+  if (pkg.module && pkg.type !== 'module') {
+    return { moduleType: 'dual', evidence: 'package.json module' };
+  }
+
+  const format = tsupConfig?.content.match(/format\s*:\s*\[([^\]]*)\]/)?.[1];
+  if (tsupConfig && format) {
+    const hasEsm = format.includes('esm');
+    const hasCjs = format.includes('cjs');
+    if (hasEsm && hasCjs) return { moduleType: 'dual', evidence: tsupConfig.file };
+    if (hasEsm) return { moduleType: 'esm', evidence: tsupConfig.file };
+    if (hasCjs) return { moduleType: 'commonjs', evidence: tsupConfig.file };
+  }
+
+  if (hasImport) return { moduleType: 'esm', evidence: 'package.json exports' };
+  if (hasRequire) return { moduleType: 'commonjs', evidence: 'package.json exports' };
+
+  return pkg.type === 'module'
+    ? { moduleType: 'esm', evidence: 'package.json type' }
+    : { moduleType: 'commonjs', evidence: pkg.type ? 'package.json type' : 'default' };
+}
+
+/**
+ * Splits an npm author string: "Name <email> (url)"
+ */
+function parseAuthor(author: DetectedPackageJson['author']): {
+  name?: string;
+  email?: string;
+  url?: string;
+} {
+  if (!author) return {};
+  if (typeof author === 'object') return author;
+
+  const match = author.match(/^([^<(]*?)\s*(?:<([^>]*)>)?\s*(?:\(([^)]*)\))?$/);
+  return {
+    name: match?.[1] || undefined,
+    email: match?.[2] || undefined,
+    url: match?.[3] || undefined,
+  };
+}
+
+function parseGitHubUsername(pkg: DetectedPackageJson, authorUrl?: string): string | undefined {
+  const repositoryUrl = typeof pkg.repository === 'string' ? pkg.repository : pkg.repository?.url;
+  const match =
+    repositoryUrl?.match(/github(?:\.com[/:]|:)([^/]+)\//) ??
+    authorUrl?.match(/github\.com\/([^/]+)\/?$/);
+  return match?.[1];
+}
+
+/**
+ * Reconstructs a ProjectConfig from an existing package directory
+ * Throws when the directory has no readable package.json
+ */
+export async function detectProjectConfig(projectDir: string): Promise<DetectionResult> {
+  const pkg: DetectedPackageJson = JSON.parse(
+    await readFile(join(projectDir, 'package.json'), 'utf-8')
+  );
+  const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+  const exists = (path: string) => existsSync(join(projectDir, path));
+  const evidence: DetectionEvidence = {};
+
+  // Project kind: anything that installs a command is a CLI
+  const projectKind: ProjectConfig['projectKind'] = pkg.bin ? 'cli' : 'library';
+  if (pkg.bin) evidence.projectKind = 'package.json bin';
+
+  // Workspace root: npm/yarn/bun workspaces field or pnpm-workspace.yaml
+  const workspace = Boolean(pkg.workspaces) || exists('pnpm-workspace.yaml');
+  if (workspace) {
+    evidence.workspace = pkg.workspaces ? 'package.json workspaces' : 'pnpm-workspace.yaml';
+  }
+
+  // Language (workspace roots only have the shared tsconfig.base.json)
+  let language: ProjectConfig['language'] = 'javascript';
+  const tsconfigFile = ['tsconfig.json', 'tsconfig.base.json'].find(exists);
+  if (tsconfigFile) {
+    language = 'typescript';
+    evidence.language = tsconfigFile;
+  } else if ('typescript' in deps) {
+    language = 'typescript';
+    evidence.language = 'package.json devDependencies';
+  }
+
+  // Module format
+  const tsupFile = findConfigFile(projectDir, 'tsup.config');
+  const tsupConfig = tsupFile
+    ? { file: tsupFile, content: (await readTextFile(join(projectDir, tsupFile))) ?? '' }
+    : undefined;
+  const { moduleType, evidence: moduleEvidence } = detectModuleType(pkg, tsupConfig);
+  if (moduleEvidence !== 'default') evidence.moduleType = moduleEvidence;
+
+  // Test runner: config file, then dependency, then test script
+  let testRunner: ProjectConfig['testRunner'] = 'none';
+  for (const runner of ['vitest', 'jest'] as const) {
+    const configFile = findConfigFile(projectDir, `${runner}.config`);
+    if (configFile || runner in deps || pkg.scripts?.test?.includes(runner)) {
+      testRunner = runner;
+      evidence.testRunner =
+        configFile ??
+        (runner in deps ? 'package.json devDependencies' : 'package.json scripts.test');
+      break;
+    }
+  }
+
+  // Linting
+  const eslintConfig =
+    findConfigFile(projectDir, 'eslint.config') ??
+    ['.eslintrc', '.eslintrc.json', '.eslintrc.js', '.eslintrc.cjs', '.eslintrc.yml'].find(exists);
+  const useLinting = Boolean(eslintConfig) || 'eslint' in deps;
+  if (useLinting) evidence.useLinting = eslintConfig ?? 'package.json devDependencies';
+
+  // Workflows
+  const workflows = await readWorkflows(projectDir);
+  const ciWorkflow = workflows.find(
+    workflow =>
+      workflow.triggers.includes('pull_request') &&
+      !workflow.content.includes('dependabot/fetch-metadata')
+  );
+  const cdWorkflow = workflows.find(workflow => PUBLISH_PATTERN.test(workflow.content));
+  const codecovWorkflow = workflows.find(workflow =>
+    workflow.content.includes('codecov/codecov-action')
+  );
+  if (ciWorkflow) evidence.setupCI = ciWorkflow.file;
+  if (cdWorkflow) evidence.setupCD = cdWorkflow.file;
+
+  // Publishing auth: without a token the workflow relies on trusted publishing (OIDC)
+  let publishAuth: ProjectConfig['publishAuth'];
+  if (cdWorkflow) {
+    if (!/NPM_TOKEN|NODE_AUTH_TOKEN|NPM_AUTH_TOKEN/.test(cdWorkflow.content)) {
+      publishAuth = 'oidc';
+    } else {
+      // changeset publish can't take flags, so provenance comes from the environment
+      publishAuth = /--provenance|NPM_CONFIG_PROVENANCE/.test(cdWorkflow.content)
+        ? 'provenance'
+        : 'token';
+    }
+    evidence.publishAuth = cdWorkflow.file;
+  }
+
+  // Release strategy: the release tool's config file
+  let releaseStrategy: ProjectConfig['releaseStrategy'];
+  if (cdWorkflow) {
+    releaseStrategy = 'script';
+    if (exists('.changeset/config.json')) {
+      releaseStrategy = 'changesets';
+      evidence.releaseStrategy = '.changeset/config.json';
+    } else if (exists('.releaserc.json')) {
+      releaseStrategy = 'semantic-release';
+      evidence.releaseStrategy = '.releaserc.json';
+    } else if (exists('release-please-config.json')) {
+      releaseStrategy = 'release-please';
+      evidence.releaseStrategy = 'release-please-config.json';
+    }
+  }
+  if (codecovWorkflow) evidence.useCodecov = codecovWorkflow.file;
+
+  const dependabotFile = ['.github/dependabot.yml', '.github/dependabot.yaml'].find(exists);
+  if (dependabotFile) evidence.useDependabot = dependabotFile;
+
+  // Package manager: the packageManager field (corepack), then the lockfile, then pnpm-workspace.yaml
+  let packageManager: ProjectConfig['packageManager'] = 'npm';
+  const corepackName = pkg.packageManager?.split('@')[0];
+  const lockfile = LOCKFILES.find(([file]) => exists(file));
+  if (
+    corepackName === 'npm' ||
+    corepackName === 'pnpm' ||
+    corepackName === 'yarn' ||
+    corepackName === 'bun'
+  ) {
+    packageManager = corepackName;
+    evidence.packageManager = 'package.json packageManager';
+  } else if (lockfile) {
+    packageManager = lockfile[1];
+    evidence.packageManager = lockfile[0];
+  } else if (exists('pnpm-workspace.yaml')) {
+    packageManager = 'pnpm';
+    evidence.packageManager = 'pnpm-workspace.yaml';
+  }
+
+  // Metadata
+  const author = parseAuthor(pkg.author);
+  const githubUsername = parseGitHubUsername(pkg, author.url);
+  if (pkg.name) evidence.packageName = 'package.json name';
+  if (exists('.git')) evidence.initGit = '.git';
+  const registry = pkg.publishConfig?.registry || undefined;
+  if (registry) evidence.registry = 'package.json publishConfig';
+
+  return {
+    config: {
+      packageName: pkg.name ?? basename(projectDir),
+      projectKind,
+      workspace,
+      language,
+      moduleType,
+      testRunner,
+      useLinting,
+      initGit: exists('.git'),
+      setupCI: Boolean(ciWorkflow),
+      setupCD: Boolean(cdWorkflow),
+      publishAuth,
+      releaseStrategy,
+      useCodecov: Boolean(codecovWorkflow),
+      useDependabot: Boolean(dependabotFile),
+      packageManager,
+      description: pkg.description || undefined,
+      author: author.name,
+      authorEmail: author.email,
+      githubUsername,
+      registry,
+    },
+    evidence,
+    packageJson: pkg,
+  };
+}
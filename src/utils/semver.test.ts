@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { compareVersions, parseVersion, satisfies, validateRange } from './semver';
+
+describe('parseVersion', () => {
+  it('should split pre-release identifiers and build metadata', () => {
+    expect(parseVersion('v1.2.3-beta.1+sha.5114f85')).toEqual({
+      major: 1,
+      minor: 2,
+      patch: 3,
+      prerelease: ['beta', '1'],
+      build: ['sha', '5114f85'],
+    });
+  });
+
+  it('should reject invalid versions', () => {
+    for (const version of ['1.2', '01.2.3', '1.2.3-01', '1.2.3-', '1.2.3+', 'latest']) {
+      expect(parseVersion(version)).toBeUndefined();
+    }
+  });
+});
+
+describe('compareVersions', () => {
+  it('should follow the SemVer 2.0 precedence example', () => {
+    const ordered = [
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '1.0.0-alpha.beta',
+      '1.0.0-beta',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0-rc.1',
+      '1.0.0',
+      '1.0.1',
+      '1.10.0',
+    ];
+
+    expect([...ordered].reverse().sort(compareVersions)).toEqual(ordered);
+  });
+
+  it('should ignore build metadata', () => {
+    expect(compareVersions('1.0.0+build.1', '1.0.0+build.2')).toBe(0);
+    expect(compareVersions('1.0.0+build', '1.0.0-rc.1')).toBe(1);
+  });
+
+  it('should throw on invalid versions', () => {
+    expect(() => compareVersions('1.0', '1.0.0')).toThrow('Invalid version: "1.0"');
+  });
+});
+
+describe('satisfies', () => {
+  it('should expand caret and tilde ranges', () => {
+    expect(satisfies('1.9.9', '^1.2.3')).toBe(true);
+    expect(satisfies('2.0.0', '^1.2.3')).toBe(false);
+    expect(satisfies('0.2.9', '^0.2.3')).toBe(true);
+    expect(satisfies('0.3.0', '^0.2.3')).toBe(false);
+    expect(satisfies('0.0.4', '^0.0.3')).toBe(false);
+    expect(satisfies('1.2.9', '~1.2.3')).toBe(true);
+    expect(satisfies('1.3.0', '~1.2.3')).toBe(false);
+  });
+
+  it('should treat partial versions as x-ranges', () => {
+    expect(satisfies('5.4.2', '5')).toBe(true);
+    expect(satisfies('5.4.2', '5.4.x')).toBe(true);
+    expect(satisfies('5.50.0', '5.5')).toBe(false);
+    expect(satisfies('2.0.0', '<=1.2')).toBe(false);
+    expect(satisfies('1.2.9', '<=1.2')).toBe(true);
+    expect(satisfies('1.3.0', '>1.2')).toBe(true);
+    expect(satisfies('1.2.9', '>1.2')).toBe(false);
+    expect(satisfies('3.0.0', '*')).toBe(true);
+  });
+
+  it('should match comparator sets, unions and hyphen ranges', () => {
+    expect(satisfies('1.5.0', '>= 1.2.0 <2')).toBe(true);
+    expect(satisfies('2.0.0', '>=1.2.0 <2')).toBe(false);
+    expect(satisfies('3.1.0', '^1.0.0 || >=3')).toBe(true);
+    expect(satisfies('2.3.9', '1.2 - 2.3')).toBe(true);
+    expect(satisfies('2.4.0', '1.2 - 2.3')).toBe(false);
+    expect(satisfies('1.1.9', '1.2 - 2.3')).toBe(false);
+  });
+
+  it('should only match pre-releases of the same version unless asked to', () => {
+    expect(satisfies('1.3.0-beta.1', '^1.2.3')).toBe(false);
+    expect(satisfies('1.3.0-beta.1', '^1.2.3', { includePrerelease: true })).toBe(true);
+    expect(satisfies('1.2.4-beta.2', '^1.2.4-beta.1')).toBe(true);
+    expect(satisfies('2.0.0-0', '^1.2.3', { includePrerelease: true })).toBe(false);
+  });
+
+  it('should never match invalid versions or ranges', () => {
+    expect(satisfies('next', '*')).toBe(false);
+    expect(satisfies('1.0.0', '>=one')).toBe(false);
+    expect(validateRange('^9 || >=10.1')).toBeUndefined();
+    expect(validateRange('nine')).toBe('"nine" is not a valid semver range');
+    expect(validateRange('')).toBeDefined();
+  });
+});
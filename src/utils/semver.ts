@@ -0,0 +1,335 @@
+/**
+ * SemVer 2.0 parsing, precedence and range matching
+ * Implements the subset of npm's range syntax used in package.json: comparators, x-ranges,
+ * tilde, caret, hyphen ranges and || unions
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  /** Dot-separated pre-release identifiers, e.g. ["beta", "1"] for 1.0.0-beta.1 */
+  prerelease: string[];
+  /** Build metadata identifiers; ignored for precedence */
+  build: string[];
+}
+
+export interface RangeOptions {
+  /** Let pre-releases match any range they fall in, not only ranges naming the same x.y.z */
+  includePrerelease?: boolean;
+}
+
+type Operator = '<' | '<=' | '>' | '>=' | '=';
+
+interface Comparator {
+  operator: Operator;
+  version: SemVer;
+}
+
+/**
+ * A version with wildcard parts left undefined, as written in ranges (1, 1.2, 1.x, 1.2.*)
+ */
+interface PartialVersion {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  prerelease: string[];
+}
+
+const IDENTIFIER = '(?:0|[1-9]\\d*|\\d*[a-zA-Z-][0-9a-zA-Z-]*)';
+const PRERELEASE = `(?:-(${IDENTIFIER}(?:\\.${IDENTIFIER})*))?`;
+const BUILD = '(?:\\+([0-9a-zA-Z-]+(?:\\.[0-9a-zA-Z-]+)*))?';
+
+const VERSION_PATTERN = new RegExp(
+  `^[v=]?(0|[1-9]\\d*)\\.(0|[1-9]\\d*)\\.(0|[1-9]\\d*)${PRERELEASE}${BUILD}$`
+);
+
+const PART = '(0|[1-9]\\d*|[xX*])';
+const PARTIAL_PATTERN = new RegExp(
+  `^v?${PART}(?:\\.${PART}(?:\\.${PART}${PRERELEASE}${BUILD})?)?$`
+);
+
+/**
+ * Parses a version string; a leading "v" or "=" is accepted like npm does
+ * @returns undefined for anything that is not a valid SemVer 2.0 version
+ */
+export function parseVersion(version: string): SemVer | undefined {
+  const match = VERSION_PATTERN.exec(version.trim());
+  if (!match) return undefined;
+
+  const [major, minor, patch] = match.slice(1, 4).map(Number);
+  if (![major, minor, patch].every(Number.isSafeInteger)) return undefined;
+
+  return {
+    major,
+    minor,
+    patch,
+    prerelease: match[4] ? match[4].split('.') : [],
+    build: match[5] ? match[5].split('.') : [],
+  };
+}
+
+function compareNumbers(a: number, b: number): number {
+  return a === b ? 0 : a > b ? 1 : -1;
+}
+
+/**
+ * Pre-release identifier precedence: numeric identifiers compare numerically and sort before
+ * alphanumeric ones, which compare in ASCII order
+ */
+function compareIdentifiers(a: string, b: string): number {
+  const aNumeric = /^\d+$/.test(a);
+  const bNumeric = /^\d+$/.test(b);
+
+  if (aNumeric && bNumeric) {
+    // No leading zeros, so the longer number is the larger one
+    return compareNumbers(a.length, b.length) || (a === b ? 0 : a > b ? 1 : -1);
+  }
+  if (aNumeric) return -1;
+  if (bNumeric) return 1;
+  return a === b ? 0 : a > b ? 1 : -1;
+}
+
+function compareParsed(a: SemVer, b: SemVer): number {
+  const release =
+    compareNumbers(a.major, b.major) ||
+    compareNumbers(a.minor, b.minor) ||
+    compareNumbers(a.patch, b.patch);
+  if (release !== 0) return release;
+
+  // A pre-release sorts before the release it leads up to
+  if (a.prerelease.length === 0 && b.prerelease.length === 0) return 0;
+  if (a.prerelease.length === 0) return 1;
+  if (b.prerelease.length === 0) return -1;
+
+  for (let i = 0; i < Math.min(a.prerelease.length, b.prerelease.length); i++) {
+    const result = compareIdentifiers(a.prerelease[i], b.prerelease[i]);
+    if (result !== 0) return result;
+  }
+  return compareNumbers(a.prerelease.length, b.prerelease.length);
+}
+
+/**
+ * Compares two versions by SemVer precedence (build metadata is ignored)
+ * Suitable for Array.prototype.sort; throws on invalid versions
+ * @example ("1.0.0-beta.2", "1.0.0-beta.11") -> -1
+ */
+export function compareVersions(a: string, b: string): number {
+  const parsedA = parseVersion(a);
+  const parsedB = parseVersion(b);
+  if (!parsedA) throw new Error(`Invalid version: "${a}"`);
+  if (!parsedB) throw new Error(`Invalid version: "${b}"`);
+  return compareParsed(parsedA, parsedB);
+}
+
+function parsePartial(text: string): PartialVersion | undefined {
+  const match = PARTIAL_PATTERN.exec(text);
+  if (!match) return undefined;
+
+  const parts: (number | undefined)[] = [];
+  for (const part of match.slice(1, 4)) {
+    // Everything after a wildcard is a wildcard too (1.x.3 means 1.x)
+    const wildcard = part === undefined || /^[xX*]$/.test(part) || parts.includes(undefined);
+    parts.push(wildcard ? undefined : Number(part));
+  }
+
+  return {
+    major: parts[0],
+    minor: parts[1],
+    patch: parts[2],
+    prerelease: match[4] && parts[2] !== undefined ? match[4].split('.') : [],
+  };
+}
+
+function version(major: number, minor: number, patch: number, prerelease: string[] = []): SemVer {
+  return { major, minor, patch, prerelease, build: [] };
+}
+
+/**
+ * Exclusive upper bound that also excludes the pre-releases of that version
+ * @example (2, 0, 0) -> <2.0.0-0
+ */
+function below(major: number, minor: number, patch: number): Comparator {
+  return { operator: '<', version: version(major, minor, patch, ['0']) };
+}
+
+function atLeast(
+  major: number,
+  minor: number,
+  patch: number,
+  prerelease: string[] = []
+): Comparator {
+  return { operator: '>=', version: version(major, minor, patch, prerelease) };
+}
+
+/**
+ * Expands one range token (^1.2.3, ~1.2, >=1.x, 1.2, ...) into primitive comparators
+ */
+function desugar(operator: string, partial: PartialVersion): Comparator[] {
+  const { major, minor, patch, prerelease } = partial;
+
+  if (major === undefined) {
+    // <* and >* match nothing; everything else with * matches anything
+    return operator === '<' || operator === '>' ? [below(0, 0, 0)] : [];
+  }
+
+  const full = minor !== undefined && patch !== undefined;
+  const exact = full ? version(major, minor, patch, prerelease) : undefined;
+
+  switch (operator) {
+    case '^':
+      if (minor === undefined) return [atLeast(major, 0, 0), below(major + 1, 0, 0)];
+      if (major > 0) return [atLeast(major, minor, patch ?? 0, prerelease), below(major + 1, 0, 0)];
+      if (patch === undefined || minor > 0) {
+        return [atLeast(0, minor, patch ?? 0, prerelease), below(0, minor + 1, 0)];
+      }
+      return [atLeast(0, 0, patch, prerelease), below(0, 0, patch + 1)];
+
+    case '~':
+    case '~>':
+      if (minor === undefined) return [atLeast(major, 0, 0), below(major + 1, 0, 0)];
+      return [atLeast(major, minor, patch ?? 0, prerelease), below(major, minor + 1, 0)];
+
+    case '>':
+      if (exact) return [{ operator: '>', version: exact }];
+      return minor === undefined ? [atLeast(major + 1, 0, 0)] : [atLeast(major, minor + 1, 0)];
+
+    case '>=':
+      return exact ? [{ operator: '>=', version: exact }] : [atLeast(major, minor ?? 0, 0)];
+
+    case '<':
+      if (exact) return [{ operator: '<', version: exact }];
+      return [below(major, minor ?? 0, 0)];
+
+    case '<=':
+      if (exact) return [{ operator: '<=', version: exact }];
+      return minor === undefined ? [below(major + 1, 0, 0)] : [below(major, minor + 1, 0)];
+
+    default:
+      // Plain or "=" versions; partial ones are x-ranges
+      if (exact) return [{ operator: '=', version: exact }];
+      if (minor === undefined) return [atLeast(major, 0, 0), below(major + 1, 0, 0)];
+      return [atLeast(major, minor, 0), below(major, minor + 1, 0)];
+  }
+}
+
+/**
+ * Expands "1.2 - 2.3.4" into >=1.2.0 <=2.3.4; a partial upper bound includes its whole x-range
+ */
+function desugarHyphen(from: PartialVersion, to: PartialVersion): Comparator[] {
+  const comparators: Comparator[] = [];
+
+  if (from.major !== undefined) {
+    comparators.push(
+      atLeast(
+        from.major,
+        from.minor ?? 0,
+        from.patch ?? 0,
+        from.patch === undefined ? [] : from.prerelease
+      )
+    );
+  }
+
+  if (to.major !== undefined) {
+    if (to.minor === undefined) comparators.push(below(to.major + 1, 0, 0));
+    else if (to.patch === undefined) comparators.push(below(to.major, to.minor + 1, 0));
+    else
+      comparators.push({
+        operator: '<=',
+        version: version(to.major, to.minor, to.patch, to.prerelease),
+      });
+  }
+
+  return comparators;
+}
+
+/**
+ * Parses a range into comparator sets, one per || alternative
+ * An empty set matches any version
+ */
+function parseRange(range: string): Comparator[][] | undefined {
+  const sets: Comparator[][] = [];
+
+  for (const alternative of range.split('||')) {
+    const text = alternative.trim();
+
+    const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(text);
+    if (hyphen) {
+      const from = parsePartial(hyphen[1]);
+      const to = parsePartial(hyphen[2]);
+      if (!from || !to) return undefined;
+      sets.push(desugarHyphen(from, to));
+      continue;
+    }
+
+    const comparators: Comparator[] = [];
+    // ">= 1.2.3" is the same comparator as ">=1.2.3"
+    const tokens = text
+      .replace(/(\^|~>?|[<>]=?|=)\s+/g, '$1')
+      .split(/\s+/)
+      .filter(Boolean);
+    for (const token of tokens) {
+      const match = /^(\^|~>?|[<>]=?|=)?(.+)$/.exec(token);
+      const partial = match ? parsePartial(match[2]) : undefined;
+      if (!match || !partial) return undefined;
+      comparators.push(...desugar(match[1] ?? '', partial));
+    }
+    sets.push(comparators);
+  }
+
+  return sets;
+}
+
+/**
+ * Checks that a string is a range this module can match against
+ */
+export function validateRange(range: string): string | undefined {
+  if (!range.trim() || !parseRange(range)) {
+    return `"${range}" is not a valid semver range`;
+  }
+  return undefined;
+}
+
+function testComparator(version: SemVer, comparator: Comparator): boolean {
+  const result = compareParsed(version, comparator.version);
+  switch (comparator.operator) {
+    case '<':
+      return result < 0;
+    case '<=':
+      return result <= 0;
+    case '>':
+      return result > 0;
+    case '>=':
+      return result >= 0;
+    default:
+      return result === 0;
+  }
+}
+
+function testSet(version: SemVer, set: Comparator[], options: RangeOptions): boolean {
+  if (!set.every(comparator => testComparator(version, comparator))) return false;
+  if (version.prerelease.length === 0 || options.includePrerelease) return true;
+
+  // Pre-releases only match when a comparator opts into pre-releases of the same x.y.z,
+  // so ^1.2.3 never resolves to 1.3.0-beta.1 but >=1.3.0-beta.0 can
+  return set.some(
+    ({ version: bound }) =>
+      bound.prerelease.length > 0 &&
+      bound.major === version.major &&
+      bound.minor === version.minor &&
+      bound.patch === version.patch
+  );
+}
+
+/**
+ * Checks whether a version falls in a range, following npm's range semantics
+ * Invalid versions and ranges never match
+ * @example ("1.4.0", "^1.2.0 || >=3") -> true
+ */
+export function satisfies(version: string, range: string, options: RangeOptions = {}): boolean {
+  const parsed = parseVersion(version);
+  const sets = parseRange(range);
+  if (!parsed || !sets) return false;
+
+  return sets.some(set => testSet(parsed, set, options));
+}
@@ -0,0 +1,205 @@
+/**
+ * `upgrade` support
+ * Regenerates templated files for the config recorded in .forge (or the detected one) and
+ * three-way merges them with the user's files, using the recorded templates as the merge base
+ */
+
+import { existsSync } from 'fs';
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { dirname, join } from 'path';
+import type { ProjectConfig } from './generators/types.js';
+import { generateProjectFiles } from './createProject.js';
+import type { FetchOptions } from './versionFetcher.js';
+import { detectProjectConfig } from './projectDetector.js';
+import {
+  type ForgeMetadata,
+  FORGE_METADATA_FILE,
+  GENERATOR_VERSION,
+  isTemplateFile,
+  readForgeMetadata,
+  serializeForgeMetadata,
+} from './forgeMetadata.js';
+import { type MergeChunk, merge3, resolveMerge } from './merge.js';
+
+export type UpgradeStatus =
+  /** The user's file already matches the new template */
+  | 'up-to-date'
+  /** The template didn't change since it was generated; only user edits differ */
+  | 'unchanged'
+  /** Template changes merge cleanly with the user's edits */
+  | 'merged'
+  /** Some template changes overlap user edits; those hunks keep the user's lines */
+  | 'conflict'
+  /** The file is new in the template (or was never generated) */
+  | 'added'
+  /** The user deleted a generated file; it stays deleted */
+  | 'deleted'
+  /** No recorded base (package predates .forge) and the file differs from the template; skipped */
+  | 'no-base';
+
+export interface UpgradeFile {
+  path: string;
+  status: UpgradeStatus;
+  /** The user's current content, if the file exists */
+  current?: string;
+  /** Content to write (merge result, or the new template for added files) */
+  next?: string;
+  /** The recorded base template, if any */
+  base?: string;
+  template: string;
+  mode: number;
+  chunks?: MergeChunk[];
+}
+
+export interface UpgradePlan {
+  config: ProjectConfig;
+  /** Generator version that produced the recorded templates, if known */
+  fromVersion?: string;
+  toVersion: string;
+  files: UpgradeFile[];
+  warnings: string[];
+}
+
+/**
+ * Statuses whose file ends up matching the new template, apart from the user's own edits
+ * Only these take the new template as their merge base
+ */
+const RESOLVED_STATUSES: ReadonlySet<UpgradeStatus> = new Set([
+  'up-to-date',
+  'unchanged',
+  'merged',
+  'added',
+]);
+
+async function readTextFile(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Compares every templated file against the latest templates, without writing anything
+ * Uses the config recorded in .forge, which keeps choices detection can't see (a pnpm package
+ * generated with --skip-install has no lockfile yet) and falls back to detection without .forge
+ */
+export async function planUpgrade(
+  projectDir: string,
+  options: FetchOptions = {}
+): Promise<{ plan?: UpgradePlan; errors: string[] }> {
+  const metadata = await readForgeMetadata(projectDir);
+
+  let config: ProjectConfig;
+  try {
+    config = metadata?.config ?? (await detectProjectConfig(projectDir)).config;
+  } catch (error) {
+    return {
+      errors: [
+        `Could not read package.json in ${projectDir} (${error instanceof Error ? error.message : 'Unknown error'})`,
+      ],
+    };
+  }
+
+  if (config.workspace) {
+    return {
+      errors: [`${projectDir} is a workspace root; upgrading workspaces is not supported yet`],
+    };
+  }
+
+  const { files: generated, warnings } = await generateProjectFiles(config, options);
+  const files: UpgradeFile[] = [];
+
+  for (const [path, { content: template, mode }] of generated) {
+    if (!isTemplateFile(path)) continue;
+
+    const base = metadata?.templates[path];
+    const current = await readTextFile(join(projectDir, path));
+    const entry: UpgradeFile = { path, status: 'up-to-date', current, base, template, mode };
+
+    if (current === undefined) {
+      if (base !== undefined) {
+        entry.status = 'deleted';
+      } else {
+        entry.status = 'added';
+        entry.next = template;
+      }
+    } else if (current === template) {
+      entry.status = 'up-to-date';
+    } else if (base === undefined) {
+      entry.status = 'no-base';
+    } else if (base === template) {
+      entry.status = 'unchanged';
+    } else {
+      const chunks = merge3(base, current, template);
+      entry.chunks = chunks;
+      entry.next = resolveMerge(chunks, 'ours');
+      if (chunks.some(chunk => chunk.type === 'conflict')) {
+        entry.status = 'conflict';
+      } else {
+        // The user may already have made the same changes by hand
+        entry.status = entry.next === current ? 'unchanged' : 'merged';
+      }
+    }
+
+    files.push(entry);
+  }
+
+  return {
+    plan: {
+      config,
+      fromVersion: metadata?.generatorVersion,
+      toVersion: GENERATOR_VERSION,
+      files,
+      warnings,
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Writes merged and added files, then records the new templates in .forge
+ * With `conflictStyle: 'markers'`, conflicting hunks are written with diff3-style markers
+ * instead of keeping the user's lines. Skipped (no-base), deleted and conflicting files keep
+ * their previous base, so the template changes they didn't take are offered again next time
+ */
+export async function applyUpgradePlan(
+  plan: UpgradePlan,
+  projectDir: string,
+  options: { conflictStyle?: 'ours' | 'markers' } = {}
+): Promise<{ written: string[] }> {
+  const written: string[] = [];
+
+  for (const file of plan.files) {
+    let next = file.next;
+    if (file.status === 'conflict' && options.conflictStyle === 'markers' && file.chunks) {
+      next = resolveMerge(file.chunks, 'markers', {
+        ours: 'yours',
+        base: `template v${plan.fromVersion ?? 'unknown'}`,
+        theirs: `template v${plan.toVersion}`,
+      });
+    }
+    if (next === undefined || next === file.current) continue;
+
+    const fullPath = join(projectDir, ...file.path.split('/'));
+    await mkdir(dirname(fullPath), { recursive: true });
+    await writeFile(fullPath, next, existsSync(fullPath) ? undefined : { mode: file.mode });
+    written.push(file.path);
+  }
+
+  // From now on the new templates are the base; kept user edits show up as user changes
+  const templates: Record<string, string> = {};
+  for (const file of plan.files) {
+    const base = RESOLVED_STATUSES.has(file.status) ? file.template : file.base;
+    if (base !== undefined) templates[file.path] = base;
+  }
+
+  const metadata: ForgeMetadata = {
+    generatorVersion: plan.toVersion,
+    config: plan.config,
+    templates,
+  };
+  await writeFile(join(projectDir, FORGE_METADATA_FILE), serializeForgeMetadata(metadata));
+
+  return { written };
+}
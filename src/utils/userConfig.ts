@@ -7,6 +7,7 @@ import { existsSync, readFileSync, writeFileSync, unlinkSync } from "fs";
 import { dirname } from "path";
 import { mkdir } from "fs/promises";
 import envPaths from "env-paths";
+import type { VersionPolicy } from "./versionPolicy.js";
 
 const paths = envPaths("forge-npm-pkg", { suffix: "" });
 const CONFIG_PATH = `${paths.config}/config.json`;
@@ -15,6 +16,8 @@ export interface UserConfig {
   author?: string;
   email?: string;
   github?: string;
+  /** Applied to every version lookup; edited by hand in the config file */
+  versionPolicy?: VersionPolicy;
 }
 
 /**
@@ -33,6 +36,14 @@ export function readUserConfig(): UserConfig | null {
   }
 }
 
+/**
+ * Whether the stored configuration has any author information
+ * A config file holding only a versionPolicy should still prompt for the author
+ */
+export function hasStoredAuthor(config: UserConfig | null): config is UserConfig {
+  return Boolean(config && (config.author || config.email || config.github));
+}
+
 /**
  * Write user configuration to disk
  */
@@ -3,37 +3,71 @@
  * Fetches latest package versions from npm registry with automatic fallback to stable versions
  */
 
+import { VERSION_SNAPSHOT } from './versionSnapshot.js';
+import { CACHE_TTL, cachedFetchJson } from './fetchCache.js';
+import { getPackageUrl, getRegistryAuthHeaders, readNpmrc, resolveRegistry } from './npmrc.js';
+import {
+  type VersionPolicy,
+  formatVersionRange,
+  getAgeViolation,
+  getRuleViolation,
+  hasVersionRestrictions,
+} from './versionPolicy.js';
+import { compareVersions, parseVersion } from './semver.js';
+import {
+  type PeerPackage,
+  type PeerResolution,
+  resolvePeerVersions
+} from './peerResolver.js';
+
+/**
+ * Dist-tags --allow-prerelease may pick instead of latest, in order of preference
+ */
+export const PRERELEASE_TAGS = ['next', 'beta'] as const;
+
+export type PrereleaseTag = (typeof PRERELEASE_TAGS)[number];
+
+/**
+ * Options shared by the version fetchers
+ */
+export interface FetchOptions {
+  /** Resolve every version from the bundled snapshot without touching the network */
+  offline?: boolean;
+  /** Registry for unscoped packages, overriding .npmrc (@scope:registry settings still apply) */
+  registry?: string;
+  /** Range style, minimum release age and per-package allow/deny lists */
+  policy?: VersionPolicy;
+  /** Use the version behind one of these dist-tags when it is newer than latest */
+  prereleaseTags?: PrereleaseTag[];
+}
+
 export interface VersionResult {
   version: string;
   warning?: string;
   usedFallback?: boolean;
 }
 
-interface NpmPackageData {
+interface VersionManifest {
+  peerDependencies?: Record<string, string>;
+}
+
+interface NpmPackageData extends VersionManifest {
   version: string;
   time?: Record<string, string>;
-  versions?: Record<string, unknown>;
+  versions?: Record<string, VersionManifest>;
+  'dist-tags'?: Record<string, string>;
 }
 
-/**
- * Compares two semver version strings
- */
-function compareVersions(a: string, b: string): number {
-  const aParts = a.split('.').map(Number);
-  const bParts = b.split('.').map(Number);
-
-  for (let i = 0; i < 3; i++) {
-    if (aParts[i] > bParts[i]) return 1;
-    if (aParts[i] < bParts[i]) return -1;
-  }
-  return 0;
-}
+type VersionHistory = Pick<NpmPackageData, 'time' | 'versions' | 'dist-tags'>;
 
 /**
  * Generates a warning message if the version is too new or risky
  */
 function generateWarning(pkg: string, version: string, daysOld: number): string | undefined {
-  const [major, minor] = version.split('.').map(Number);
+  const parsed = parseVersion(version);
+  // Pre-releases are only used on request (--allow-prerelease), which reports them separately
+  if (!parsed || parsed.prerelease.length > 0) return undefined;
+  const { major, minor } = parsed;
 
   // x.0.0 or x.0.x within 30 days - new major version
   if (minor === 0 && daysOld < 30) {
@@ -56,58 +90,198 @@ function generateWarning(pkg: string, version: string, daysOld: number): string
   return undefined;
 }
 
+interface RegistryRequest {
+  url: string;
+  headers: Record<string, string>;
+}
+
 /**
- * Fetches the latest stable version as a fallback (at least 30 days old)
+ * Resolves the registry URL and credentials for a package from .npmrc
  */
-async function getStableFallbackVersion(
-  packageName: string
+function getRegistryRequest(packageName: string, options: FetchOptions): RegistryRequest {
+  const npmrc = readNpmrc();
+  const registry = resolveRegistry(packageName, npmrc, options.registry);
+  return {
+    url: getPackageUrl(registry, packageName),
+    headers: getRegistryAuthHeaders(registry, npmrc),
+  };
+}
+
+/**
+ * Fetches every published version with its release date and peerDependencies
+ * Cached without the rest of the per-version manifests, which make up most of a packument
+ */
+async function fetchVersionHistory(request: RegistryRequest): Promise<VersionHistory> {
+  return cachedFetchJson<VersionHistory>(request.url, {
+    ttl: CACHE_TTL.registry,
+    headers: request.headers,
+    select: body => {
+      const { time, versions, 'dist-tags': distTags } = body as NpmPackageData;
+      return {
+        time,
+        versions: Object.fromEntries(
+          Object.entries(versions || {}).map(([v, { peerDependencies }]) => [
+            v,
+            peerDependencies ? { peerDependencies } : {}
+          ])
+        ),
+        'dist-tags': distTags
+      };
+    }
+  });
+}
+
+/**
+ * Stable versions (no pre-releases; build metadata is fine), newest first
+ */
+function getStableVersions(history: VersionHistory): string[] {
+  return Object.keys(history.versions || {})
+    .filter(v => parseVersion(v)?.prerelease.length === 0) // Valid semver, no alpha/beta/rc
+    .sort(compareVersions)
+    .reverse();
+}
+
+/**
+ * Picks the version behind the first requested dist-tag that is newer than latest
+ * Tags whose version the policy rejects are skipped
+ */
+async function getPrereleaseVersion(
+  packageName: string,
+  latest: string,
+  request: RegistryRequest,
+  options: FetchOptions
+): Promise<VersionResult | undefined> {
+  const policy = options.policy ?? {};
+  const history = await fetchVersionHistory(request);
+
+  for (const tag of options.prereleaseTags ?? []) {
+    const version = history['dist-tags']?.[tag];
+    if (!version || !parseVersion(version) || compareVersions(version, latest) <= 0) continue;
+
+    if (
+      getRuleViolation(packageName, version, policy) ??
+      getAgeViolation(history.time?.[version], policy)
+    ) {
+      continue;
+    }
+
+    return {
+      version: formatVersionRange(version, policy.rangeStyle),
+      warning:
+        `ℹ️  ${packageName}@${version} from the "${tag}" dist-tag (latest is ${latest})\n` +
+        `   Pre-releases may change without notice.`
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Picks the newest version the policy accepts, up to the latest dist-tag
+ * Every version that is skipped is reported in the warning
+ */
+async function getPolicyVersion(
+  packageName: string,
+  latest: string,
+  request: RegistryRequest,
+  policy: VersionPolicy
 ): Promise<VersionResult> {
-  try {
-    // Fetch all package metadata
-    const response = await fetch(
-      `https://registry.npmjs.org/${packageName}`,
-      { signal: AbortSignal.timeout(5000) }
-    );
+  const history = await fetchVersionHistory(request);
+  const getViolation = (version: string) =>
+    getRuleViolation(packageName, version, policy) ??
+    getAgeViolation(history.time?.[version], policy);
 
-    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const latestViolation = getViolation(latest);
+  if (!latestViolation) {
+    const publishedAt = new Date(history.time?.[latest] || Date.now());
+    const daysOld = Math.floor((Date.now() - publishedAt.getTime()) / (1000 * 60 * 60 * 24));
+    return {
+      version: formatVersionRange(latest, policy.rangeStyle),
+      warning: generateWarning(packageName, latest, daysOld)
+    };
+  }
 
-    const data = await response.json() as NpmPackageData;
-    const allVersions = Object.keys(data.versions || {});
+  const selected = getStableVersions(history)
+    .filter(version => compareVersions(version, latest) <= 0)
+    .find(version => !getViolation(version));
 
-    // Find stable versions (excluding pre-releases)
-    const stableVersions = allVersions
-      .filter(v => !v.includes('-')) // No alpha/beta/rc
-      .filter(v => /^\d+\.\d+\.\d+$/.test(v)) // Valid semver
-      .sort(compareVersions)
-      .reverse();
+  if (!selected) {
+    return {
+      version: formatVersionRange(latest, policy.rangeStyle),
+      warning:
+        `⚠️  No ${packageName} version satisfies the versionPolicy, using ${packageName}@${latest}\n` +
+        `   ${latestViolation}`
+    };
+  }
+
+  return {
+    version: formatVersionRange(selected, policy.rangeStyle),
+    warning:
+      `ℹ️  versionPolicy: ${packageName}@${selected} instead of ${latest}\n` +
+      `   ${latest}: ${latestViolation}`
+  };
+}
+
+/**
+ * Fetches the latest stable version as a fallback (at least 30 days old, or the policy's
+ * minimum age if that is longer)
+ */
+async function getStableFallbackVersion(
+  packageName: string,
+  request: RegistryRequest,
+  policy: VersionPolicy
+): Promise<VersionResult> {
+  try {
+    const data = await fetchVersionHistory(request);
+    const stableVersions = getStableVersions(data).filter(
+      version => !getRuleViolation(packageName, version, policy)
+    );
 
     if (stableVersions.length === 0) {
       throw new Error('No stable versions found');
     }
 
-    // Get the latest stable version that's at least 30 days old
+    // Get the latest stable version that's old enough
+    const minimumAge = Math.max(30, policy.minimumAgeDays ?? 0);
     for (const version of stableVersions) {
       const publishedAt = new Date(data.time?.[version] || Date.now());
       const daysOld = Math.floor((Date.now() - publishedAt.getTime()) / (1000 * 60 * 60 * 24));
 
-      if (daysOld >= 30) {
+      if (daysOld >= minimumAge) {
         return {
-          version: `^${version}`,
+          version: formatVersionRange(version, policy.rangeStyle),
           usedFallback: true,
           warning: `ℹ️  Using stable fallback: ${packageName}@${version} (${daysOld} days old)`
         };
       }
     }
 
-    // If no version is 30+ days old, use the latest stable
+    // If no version is old enough, use the latest stable
     const latestStable = stableVersions[0];
     return {
-      version: `^${latestStable}`,
+      version: formatVersionRange(latestStable, policy.rangeStyle),
       usedFallback: true,
-      warning: `ℹ️  Using fallback: ${packageName}@${latestStable}`
+      warning: `ℹ️  Using fallback: ${packageName}@${latestStable}${
+        policy.minimumAgeDays
+          ? `\n   No release is older than the ${policy.minimumAgeDays}-day minimum age`
+          : ''
+      }`
     };
 
   } catch {
+    // Known-good version from the bundled snapshot
+    const snapshotVersion = VERSION_SNAPSHOT.packages[packageName];
+    if (snapshotVersion) {
+      return {
+        version: formatVersionRange(snapshotVersion, policy.rangeStyle),
+        usedFallback: true,
+        warning: [
+          `⚠️  Could not fetch ${packageName} versions, using the bundled ${packageName}@${snapshotVersion}`,
+          getSnapshotPolicyWarning(packageName, snapshotVersion, policy)
+        ].filter(Boolean).join('\n\n')
+      };
+    }
+
     // Last resort: Use "latest" string and let npm handle it during install
     return {
       version: 'latest',
@@ -118,47 +292,275 @@ async function getStableFallbackVersion(
 }
 
 /**
- * Fetches the latest version of a package with automatic fallback to stable version
+ * Reports where a bundled snapshot version falls outside the policy
+ * The snapshot has no release dates, but every version in it is at least as old as the snapshot
  */
-export async function getLatestVersionWithFallback(
-  packageName: string
+function getSnapshotPolicyWarning(
+  packageName: string,
+  version: string,
+  policy: VersionPolicy
+): string | undefined {
+  const violation = getRuleViolation(packageName, version, policy);
+  if (violation) {
+    return `⚠️  versionPolicy: the bundled ${packageName}@${version} is ${violation}, but no other version is available offline`;
+  }
+
+  if (getAgeViolation(VERSION_SNAPSHOT.generatedAt, policy)) {
+    return `⚠️  versionPolicy: the ${policy.minimumAgeDays}-day minimum age of ${packageName}@${version} can't be checked offline (snapshot from ${VERSION_SNAPSHOT.generatedAt})`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolves a version from the bundled snapshot
+ */
+function getSnapshotVersion(packageName: string, policy: VersionPolicy): VersionResult {
+  const version = VERSION_SNAPSHOT.packages[packageName];
+  if (!version) {
+    return {
+      version: 'latest',
+      usedFallback: true,
+      warning: `⚠️  ${packageName} is not in the bundled version snapshot, using "latest"`
+    };
+  }
+
+  return {
+    version: formatVersionRange(version, policy.rangeStyle),
+    warning: getSnapshotPolicyWarning(packageName, version, policy)
+  };
+}
+
+/**
+ * Picks the version to use given the registry's latest manifest
+ */
+async function resolveFromLatest(
+  packageName: string,
+  data: NpmPackageData,
+  request: RegistryRequest,
+  options: FetchOptions
 ): Promise<VersionResult> {
+  const policy = options.policy ?? {};
+  const version = data.version;
+  if (options.prereleaseTags?.length) {
+    // A missing or failing packument only costs the pre-release, not the latest version
+    const prerelease = await getPrereleaseVersion(packageName, version, request, options).catch(
+      () => undefined
+    );
+    if (prerelease) return prerelease;
+  }
+
+  if (hasVersionRestrictions(packageName, policy)) {
+    return getPolicyVersion(packageName, version, request, policy);
+  }
+
+  const publishedAt = new Date(data.time?.[version] || Date.now());
+  const daysOld = Math.floor((Date.now() - publishedAt.getTime()) / (1000 * 60 * 60 * 24));
+
+  const warning = generateWarning(packageName, version, daysOld);
+
+  return { version: formatVersionRange(version, policy.rangeStyle), warning };
+}
+
+interface VersionLookup {
+  name: string;
+  result: VersionResult;
+  /** The registry's latest manifest, when it could be fetched */
+  latest?: NpmPackageData;
+}
+
+/**
+ * Resolves a version, keeping the latest manifest for the peer dependency check
+ */
+async function lookUpVersion(packageName: string, options: FetchOptions): Promise<VersionLookup> {
+  const policy = options.policy ?? {};
+  if (options.offline) {
+    return { name: packageName, result: getSnapshotVersion(packageName, policy) };
+  }
+
+  const request = getRegistryRequest(packageName, options);
+
   try {
     // Try to fetch latest version
-    const response = await fetch(
-      `https://registry.npmjs.org/${packageName}/latest`,
-      { signal: AbortSignal.timeout(5000) }
+    const latest = await cachedFetchJson<NpmPackageData>(
+      `${request.url}/latest`,
+      { ttl: CACHE_TTL.registry, headers: request.headers }
     );
+    return {
+      name: packageName,
+      result: await resolveFromLatest(packageName, latest, request, options),
+      latest
+    };
 
-    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  } catch {
+    // Fallback: Fetch previous stable major version
+    return {
+      name: packageName,
+      result: await getStableFallbackVersion(packageName, request, policy)
+    };
+  }
+}
 
-    const data = await response.json() as NpmPackageData;
-    const version = data.version;
-    const publishedAt = new Date(data.time?.[version] || Date.now());
-    const daysOld = Math.floor((Date.now() - publishedAt.getTime()) / (1000 * 60 * 60 * 24));
+/**
+ * Fetches the latest version of a package with automatic fallback to stable version
+ */
+export async function getLatestVersionWithFallback(
+  packageName: string,
+  options: FetchOptions = {}
+): Promise<VersionResult> {
+  return (await lookUpVersion(packageName, options)).result;
+}
 
-    const warning = generateWarning(packageName, version, daysOld);
+/**
+ * Fetches the peerDependencies of one published version
+ */
+async function fetchPeerDependencies(
+  request: RegistryRequest,
+  version: string
+): Promise<Record<string, string> | undefined> {
+  const manifest = await cachedFetchJson<VersionManifest>(`${request.url}/${version}`, {
+    ttl: CACHE_TTL.registry,
+    headers: request.headers,
+    select: body => ({ peerDependencies: (body as VersionManifest).peerDependencies })
+  });
+  return manifest.peerDependencies;
+}
 
-    return { version: `^${version}`, warning };
+/**
+ * Versions a package may be held back to for its peers: the resolved version, then older stable
+ * releases the policy accepts, down to the previous major
+ */
+async function getPeerCandidates(
+  packageName: string,
+  version: string,
+  peerDependencies: Record<string, string> | undefined,
+  options: FetchOptions
+): Promise<PeerPackage['candidates']> {
+  const resolved = { version, peerDependencies };
+  const policy = options.policy ?? {};
 
+  try {
+    const history = await fetchVersionHistory(getRegistryRequest(packageName, options));
+    const oldestMajor = (parseVersion(version)?.major ?? 0) - 1;
+
+    const older = getStableVersions(history).filter(
+      v =>
+        compareVersions(v, version) < 0 &&
+        (parseVersion(v)?.major ?? 0) >= oldestMajor &&
+        !getRuleViolation(packageName, v, policy) &&
+        !getAgeViolation(history.time?.[v], policy)
+    );
+
+    return [
+      resolved,
+      ...older.map(v => ({ version: v, peerDependencies: history.versions?.[v]?.peerDependencies }))
+    ];
   } catch {
-    // Fallback: Fetch previous stable major version
-    return await getStableFallbackVersion(packageName);
+    return [resolved];
   }
 }
 
+/**
+ * Holds back versions whose peerDependencies conflict with the rest of the set
+ * Only the selected versions' manifests are fetched unless there is a conflict to resolve
+ */
+async function resolvePeerDependencies(
+  lookups: VersionLookup[],
+  options: FetchOptions
+): Promise<Map<string, VersionResult>> {
+  const results = new Map(lookups.map(({ name, result }) => [name, result]));
+  const selected = await Promise.all(
+    lookups
+      .map(({ name, result, latest }) => ({
+        name,
+        latest,
+        version: result.version.replace(/^[\^~]/, '')
+      }))
+      .filter(({ version }) => parseVersion(version)) // Skips "latest"
+      .map(async ({ name, latest, version }) => ({
+        name,
+        version,
+        peerDependencies:
+          latest?.version === version
+            ? latest.peerDependencies
+            : await fetchPeerDependencies(getRegistryRequest(name, options), version).catch(
+                () => undefined
+              )
+      }))
+  );
+
+  // Older versions are only looked up for the packages in conflict, since a full packument can
+  // be megabytes
+  const candidates = new Map<string, PeerPackage['candidates']>();
+  for (;;) {
+    const resolution = resolvePeerVersions(
+      selected.map(pkg => ({ name: pkg.name, candidates: candidates.get(pkg.name) ?? [pkg] }))
+    );
+    const stuck = [...resolution.conflicts, resolution.blockedBy].flatMap(conflict =>
+      conflict ? [conflict.dependent, conflict.peer] : []
+    );
+    const toLoad = selected.filter(({ name }) => stuck.includes(name) && !candidates.has(name));
+    if (toLoad.length === 0) {
+      return applyPeerResolution(results, resolution, options);
+    }
+
+    await Promise.all(
+      toLoad.map(async ({ name, version, peerDependencies }) => {
+        candidates.set(name, await getPeerCandidates(name, version, peerDependencies, options));
+      })
+    );
+  }
+}
+
+/**
+ * Writes held-back versions into the results and warns about conflicts that remain
+ */
+function applyPeerResolution(
+  results: Map<string, VersionResult>,
+  { heldBack, conflicts }: PeerResolution,
+  options: FetchOptions
+): Map<string, VersionResult> {
+  const resolved = new Map(results);
+  for (const { name, to, from, conflict } of heldBack) {
+    const { dependent, dependentVersion, peer, peerVersion, range } = conflict;
+    // Keep what versionPolicy or the release age already reported about this package
+    resolved.set(name, {
+      version: formatVersionRange(to, options.policy?.rangeStyle),
+      warning: [
+        results.get(name)?.warning,
+        `ℹ️  peerDependencies: ${name}@${to} instead of ${from}\n` +
+          `   ${dependent}@${dependentVersion} requires ${peer}@${range} (resolved ${peerVersion})`
+      ].filter(Boolean).join('\n\n')
+    });
+  }
+
+  for (const { dependent, dependentVersion, peer, peerVersion, range } of conflicts) {
+    const result = resolved.get(dependent)!;
+    resolved.set(dependent, {
+      ...result,
+      warning: [
+        result.warning,
+        `⚠️  ${dependent}@${dependentVersion} requires ${peer}@${range}, but no compatible versions were found\n` +
+          `   Using ${peer}@${peerVersion}; npm may report a peer dependency conflict`
+      ].filter(Boolean).join('\n\n')
+    });
+  }
+
+  return resolved;
+}
+
 /**
  * Fetches latest versions for multiple packages in parallel
+ * Versions whose peerDependencies conflict within the set are held back to a compatible combination
  */
 export async function fetchLatestVersions(
-  packageNames: string[]
+  packageNames: string[],
+  options: FetchOptions = {}
 ): Promise<Map<string, VersionResult>> {
-  const results = await Promise.all(
-    packageNames.map(async (name) => {
-      const result = await getLatestVersionWithFallback(name);
-      return { name, result };
-    })
-  );
+  const lookups = await Promise.all(packageNames.map(name => lookUpVersion(name, options)));
 
-  return new Map(results.map(r => [r.name, r.result]));
+  // The snapshot is recorded with this same resolution, and its tests check it has no peer conflicts
+  return options.offline
+    ? new Map(lookups.map(({ name, result }) => [name, result]))
+    : resolvePeerDependencies(lookups, options);
 }
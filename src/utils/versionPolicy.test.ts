@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getLatestVersionWithFallback } from './versionFetcher';
+import {
+  describeVersionPolicy,
+  formatVersionRange,
+  getAgeViolation,
+  getRuleViolation,
+  mergeVersionPolicies,
+} from './versionPolicy';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * DAY).toISOString();
+}
+
+describe('formatVersionRange', () => {
+  it('should write the range operator for each style', () => {
+    expect(formatVersionRange('5.4.2')).toBe('^5.4.2');
+    expect(formatVersionRange('5.4.2', 'tilde')).toBe('~5.4.2');
+    expect(formatVersionRange('5.4.2', 'exact')).toBe('5.4.2');
+  });
+});
+
+describe('getRuleViolation', () => {
+  const policy = { packages: { typescript: { allow: ['5.x'], deny: ['5.4.0', '5.5'] } } };
+
+  it('should match exact versions and prefixes', () => {
+    expect(getRuleViolation('typescript', '5.3.3', policy)).toBeUndefined();
+    expect(getRuleViolation('typescript', '5.4.0', policy)).toContain('denied');
+    expect(getRuleViolation('typescript', '5.5.2', policy)).toContain('denied');
+    expect(getRuleViolation('typescript', '5.50.0', policy)).toBeUndefined();
+    expect(getRuleViolation('typescript', '6.0.0', policy)).toContain('allow list');
+  });
+
+  it('should accept any semver range', () => {
+    const ranges = { packages: { eslint: { deny: ['>=9.1.0 <9.3.0 || 10.0.0-rc.1'] } } };
+
+    expect(getRuleViolation('eslint', '9.2.5', ranges)).toContain('denied');
+    expect(getRuleViolation('eslint', '9.3.0', ranges)).toBeUndefined();
+    expect(getRuleViolation('eslint', '10.0.0-rc.1', ranges)).toContain('denied');
+  });
+
+  it('should ignore packages without rules', () => {
+    expect(getRuleViolation('vitest', '1.0.0', policy)).toBeUndefined();
+  });
+});
+
+describe('getAgeViolation', () => {
+  it('should reject releases younger than the minimum age', () => {
+    expect(getAgeViolation(daysAgo(3), { minimumAgeDays: 7 })).toBe(
+      'released 3 days ago, below the 7-day minimum age'
+    );
+    expect(getAgeViolation(daysAgo(8), { minimumAgeDays: 7 })).toBeUndefined();
+    expect(getAgeViolation(daysAgo(0), {})).toBeUndefined();
+  });
+});
+
+describe('mergeVersionPolicies', () => {
+  it('should merge package rules per package', () => {
+    const merged = mergeVersionPolicies(
+      { rangeStyle: 'tilde', packages: { typescript: { deny: ['5.4'] } } },
+      { minimumAgeDays: 7, node: 'active-lts', packages: { eslint: { allow: ['9'] } } }
+    );
+
+    expect(merged).toEqual({
+      rangeStyle: 'tilde',
+      minimumAgeDays: 7,
+      node: 'active-lts',
+      packages: { typescript: { deny: ['5.4'] }, eslint: { allow: ['9'] } },
+    });
+    expect(describeVersionPolicy(merged ?? {})).toBe(
+      'tilde ranges, 7-day minimum age, active-lts Node.js lines, rules for typescript, eslint'
+    );
+  });
+});
+
+describe('getLatestVersionWithFallback with a versionPolicy', () => {
+  beforeEach(() => {
+    vi.stubEnv('npm_config_registry', 'https://registry.example.com/');
+    vi.stubEnv('npm_config_userconfig', '/nonexistent/.npmrc');
+    vi.stubEnv('npm_config_globalconfig', '/nonexistent/npmrc');
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) =>
+        Response.json(
+          url.endsWith('/latest')
+            ? { version: '3.1.0' }
+            : {
+                time: { '2.0.0': daysAgo(200), '3.0.0': daysAgo(40), '3.1.0': daysAgo(2) },
+                versions: { '2.0.0': {}, '3.0.0': {}, '3.1.0': {}, '4.0.0-beta.1': {} },
+                'dist-tags': { latest: '3.1.0', next: '4.0.0-beta.1', beta: '3.0.0' },
+              }
+        )
+      )
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('should apply the range style to the latest version', async () => {
+    const result = await getLatestVersionWithFallback('pkg', { policy: { rangeStyle: 'exact' } });
+
+    expect(result.version).toBe('3.1.0');
+  });
+
+  it('should pick the newest version old enough and report the deviation', async () => {
+    const result = await getLatestVersionWithFallback('pkg', {
+      policy: { minimumAgeDays: 7, rangeStyle: 'tilde' },
+    });
+
+    expect(result.version).toBe('~3.0.0');
+    expect(result.warning).toContain('pkg@3.0.0 instead of 3.1.0');
+    expect(result.warning).toContain('3.1.0: released 2 days ago, below the 7-day minimum age');
+  });
+
+  it('should skip denied versions', async () => {
+    const result = await getLatestVersionWithFallback('pkg', {
+      policy: { packages: { pkg: { deny: ['3'] } } },
+    });
+
+    expect(result.version).toBe('^2.0.0');
+    expect(result.warning).toContain('denied by versionPolicy (3)');
+  });
+
+  it('should keep the latest version and warn when nothing satisfies the policy', async () => {
+    const result = await getLatestVersionWithFallback('pkg', {
+      policy: { packages: { pkg: { allow: ['1.x'] } } },
+    });
+
+    expect(result.version).toBe('^3.1.0');
+    expect(result.warning).toContain('No pkg version satisfies the versionPolicy');
+  });
+
+  it('should use a newer next dist-tag when pre-releases are allowed', async () => {
+    const result = await getLatestVersionWithFallback('pkg', { prereleaseTags: ['beta', 'next'] });
+
+    expect(result.version).toBe('^4.0.0-beta.1');
+    expect(result.warning).toContain('pkg@4.0.0-beta.1 from the "next" dist-tag (latest is 3.1.0)');
+  });
+
+  it('should keep latest when the policy rejects the pre-release', async () => {
+    const result = await getLatestVersionWithFallback('pkg', {
+      prereleaseTags: ['next'],
+      policy: { packages: { pkg: { deny: ['>=4.0.0-0'] } } },
+    });
+
+    expect(result.version).toBe('^3.1.0');
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Dependency version policy
+ * Controls how resolved versions are written into package.json and which releases may be used,
+ * from the versionPolicy section of the user config or an answers file
+ */
+
+import type { NodePolicy } from './nodeFetcher.js';
+import { satisfies } from './semver.js';
+
+export const RANGE_STYLES = ['caret', 'tilde', 'exact'] as const;
+
+export type RangeStyle = (typeof RANGE_STYLES)[number];
+
+/**
+ * Versions a package may or may not resolve to
+ * Entries are semver ranges as in package.json: exact versions (5.4.2), x-ranges (5, 5.4, 5.x)
+ * or anything else npm accepts (>=5.4.0 <5.6.0, ^4.2.0 || ^5.1.0)
+ */
+export interface PackageVersionRule {
+  allow?: string[];
+  deny?: string[];
+}
+
+export interface VersionPolicy {
+  /** ^1.2.3 (caret, the default), ~1.2.3 (tilde) or 1.2.3 (exact) */
+  rangeStyle?: RangeStyle;
+  /** Releases younger than this are skipped in favour of the newest older version */
+  minimumAgeDays?: number;
+  /** Allow and deny lists keyed by package name */
+  packages?: Record<string, PackageVersionRule>;
+  /** Node.js release lines for engines and the CI matrix: active-lts, supported (default) or current */
+  node?: NodePolicy;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Writes a resolved version with the policy's range operator
+ * @example ("5.4.2", "tilde") -> "~5.4.2"
+ */
+export function formatVersionRange(version: string, style: RangeStyle = 'caret'): string {
+  switch (style) {
+    case 'exact':
+      return version;
+    case 'tilde':
+      return `~${version}`;
+    default:
+      return `^${version}`;
+  }
+}
+
+/**
+ * Checks a version against an allow/deny entry
+ * Pre-releases match any range they fall in, so a 5.x deny entry also covers 5.1.0-beta.1
+ * @example ("5.4.2", "5.x") -> true
+ */
+function matchesVersionEntry(version: string, entry: string): boolean {
+  return satisfies(version, entry, { includePrerelease: true });
+}
+
+/**
+ * Whether the policy restricts this package beyond the range style
+ * Packages without rules and without a minimum age can use the latest version as-is
+ */
+export function hasVersionRestrictions(packageName: string, policy: VersionPolicy): boolean {
+  return Boolean(policy.minimumAgeDays) || policy.packages?.[packageName] !== undefined;
+}
+
+/**
+ * Why the package's allow/deny lists reject a version
+ */
+export function getRuleViolation(
+  packageName: string,
+  version: string,
+  policy: VersionPolicy
+): string | undefined {
+  const rule = policy.packages?.[packageName];
+  if (!rule) return undefined;
+
+  const denied = rule.deny?.find(entry => matchesVersionEntry(version, entry));
+  if (denied) return `denied by versionPolicy (${denied})`;
+
+  if (rule.allow?.length && !rule.allow.some(entry => matchesVersionEntry(version, entry))) {
+    return `not in the versionPolicy allow list (${rule.allow.join(', ')})`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Why a release is too young for the policy's minimum age
+ * @param publishedAt - Release date from the registry's time field
+ */
+export function getAgeViolation(
+  publishedAt: string | undefined,
+  policy: VersionPolicy,
+  now: number = Date.now()
+): string | undefined {
+  if (!policy.minimumAgeDays) return undefined;
+  if (!publishedAt) return 'release date unknown';
+
+  const daysOld = Math.floor((now - new Date(publishedAt).getTime()) / DAY);
+  if (daysOld >= policy.minimumAgeDays) return undefined;
+
+  return `released ${daysOld} day${daysOld === 1 ? '' : 's'} ago, below the ${policy.minimumAgeDays}-day minimum age`;
+}
+
+/**
+ * Merges the answers file policy over the user config policy
+ * Package rules are merged per package, so an answers file can add a rule without repeating the rest
+ */
+export function mergeVersionPolicies(
+  base: VersionPolicy | undefined,
+  override: VersionPolicy | undefined
+): VersionPolicy | undefined {
+  if (!base || !override) return override ?? base;
+
+  return {
+    ...base,
+    ...override,
+    packages: { ...base.packages, ...override.packages },
+  };
+}
+
+/**
+ * One-line summary for the configuration summary
+ * @example "tilde ranges, 14-day minimum age, rules for typescript, eslint"
+ */
+export function describeVersionPolicy(policy: VersionPolicy): string {
+  const parts = [`${policy.rangeStyle ?? 'caret'} ranges`];
+  if (policy.minimumAgeDays) parts.push(`${policy.minimumAgeDays}-day minimum age`);
+  if (policy.node) parts.push(`${policy.node} Node.js lines`);
+
+  const rules = Object.keys(policy.packages ?? {});
+  if (rules.length > 0) parts.push(`rules for ${rules.join(', ')}`);
+
+  return parts.join(', ');
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { VERSION_SNAPSHOT } from './versionSnapshot';
+import { fetchLatestVersions } from './versionFetcher';
+import { getNodeLTSVersions, resolveNodeVersions } from './nodeFetcher';
+import { SUPPORTED_ACTIONS, fetchLatestActionVersions } from './actionsFetcher';
+import { generateProjectFiles } from './createProject';
+import { findPeerConflicts } from './peerResolver';
+import { getAllDevDependencyNames } from './generators/packageJson';
+import type { ProjectConfig } from './generators/types';
+
+describe('VERSION_SNAPSHOT', () => {
+  it('should pin every devDependency the generators can emit', () => {
+    for (const name of getAllDevDependencyNames()) {
+      expect(VERSION_SNAPSHOT.packages[name], name).toMatch(/^\d+\.\d+\.\d+/);
+    }
+  });
+
+  it('should pin every supported action and the Node.js versions', () => {
+    for (const action of SUPPORTED_ACTIONS) {
+      expect(VERSION_SNAPSHOT.actions[action.key], action.key).toMatch(/^v\d+$/);
+    }
+    expect(VERSION_SNAPSHOT.node.ciMatrix).toContain(VERSION_SNAPSHOT.node.latestLTS);
+    expect(VERSION_SNAPSHOT.node.engines).toBe(`>=${VERSION_SNAPSHOT.node.minimum}.0.0`);
+  });
+
+  it('should pin versions whose peerDependencies on each other are satisfied', () => {
+    const selection = new Map(
+      Object.entries(VERSION_SNAPSHOT.packages).map(([name, version]) => [
+        name,
+        { version, peerDependencies: VERSION_SNAPSHOT.peerDependencies[name] },
+      ])
+    );
+
+    expect(VERSION_SNAPSHOT.peerDependencies['@typescript-eslint/parser']).toHaveProperty(
+      'typescript'
+    );
+    expect(findPeerConflicts(selection)).toEqual([]);
+  });
+
+  it('should record the Node.js versions its own schedule gives on the snapshot date', () => {
+    expect(
+      resolveNodeVersions(
+        VERSION_SNAPSHOT.nodeSchedule,
+        'supported',
+        Date.parse(VERSION_SNAPSHOT.generatedAt)
+      )
+    ).toEqual(VERSION_SNAPSHOT.node);
+  });
+});
+
+describe('offline version resolution', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should resolve everything from the snapshot without the network', async () => {
+    const fetchMock = vi.fn().mockRejectedValue(new Error('offline'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const versions = await fetchLatestVersions(['typescript', 'not-in-the-snapshot'], {
+      offline: true,
+    });
+    const node = await getNodeLTSVersions({ offline: true });
+    const actions = await fetchLatestActionVersions({ offline: true });
+
+    expect(versions.get('typescript')).toEqual({
+      version: `^${VERSION_SNAPSHOT.packages.typescript}`,
+    });
+    expect(versions.get('not-in-the-snapshot')).toMatchObject({
+      version: 'latest',
+      usedFallback: true,
+    });
+    expect(node).toEqual(VERSION_SNAPSHOT.node);
+    expect(actions.get('actions/checkout')).toEqual({
+      version: VERSION_SNAPSHOT.actions['actions/checkout'],
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the snapshot instead of "latest" when the registry fails', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('offline')));
+
+    const versions = await fetchLatestVersions(['vitest']);
+
+    expect(versions.get('vitest')).toMatchObject({
+      version: `^${VERSION_SNAPSHOT.packages.vitest}`,
+      usedFallback: true,
+    });
+  });
+
+  it('should generate the same pinned project on every offline run', async () => {
+    const fetchMock = vi.fn().mockRejectedValue(new Error('offline'));
+    vi.stubGlobal('fetch', fetchMock);
+    const config: ProjectConfig = {
+      packageName: 'offline-package',
+      language: 'typescript',
+      moduleType: 'esm',
+      testRunner: 'vitest',
+      useLinting: true,
+      initGit: false,
+      setupCI: true,
+      setupCD: true,
+      releaseStrategy: 'script',
+      packageManager: 'npm',
+    };
+
+    const first = await generateProjectFiles(config, { offline: true });
+    const second = await generateProjectFiles(config, { offline: true });
+
+    expect(first.warnings).toEqual([]);
+    expect([...first.files]).toEqual([...second.files]);
+    expect(Object.values(first.versions.devDependencies)).not.toContain('latest');
+    expect(first.versions.node).toEqual(VERSION_SNAPSHOT.node);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Bundled version snapshot
+ * Known-good versions recorded at build time by scripts/update-version-snapshot.mjs. --offline
+ * resolves everything from here, and the fetchers fall back to it when the network fails
+ */
+
+import type { NodeSchedule, NodeVersionConfig } from './nodeFetcher.js';
+import snapshot from './versionSnapshot.json';
+
+export interface VersionSnapshot {
+  /** Day the snapshot was recorded (YYYY-MM-DD) */
+  generatedAt: string;
+  /** Exact npm versions, without a range prefix */
+  packages: Record<string, string>;
+  /** peerDependencies of the pinned versions on other pinned packages, keyed by dependent */
+  peerDependencies: Record<string, Record<string, string>>;
+  /** Resolved with the default release line policy on the snapshot date */
+  node: NodeVersionConfig;
+  /** Node.js release schedule, for offline runs and when it can't be fetched */
+  nodeSchedule: NodeSchedule;
+  /** Major version tags of the supported GitHub Actions */
+  actions: Record<string, string>;
+}
+
+export const VERSION_SNAPSHOT: VersionSnapshot = snapshot;
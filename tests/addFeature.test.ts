@@ -0,0 +1,84 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdtemp, rm, readFile, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { planFeature, applyFeaturePlan } from '../src/utils/addFeature.js';
+
+describe('add <feature> (real npm registry)', () => {
+  const dirs: string[] = [];
+
+  afterAll(async () => {
+    await Promise.all(dirs.map(dir => rm(dir, { recursive: true, force: true })));
+  });
+
+  async function createPackage(pkg: Record<string, unknown>): Promise<string> {
+    const dir = await mkdtemp(join(tmpdir(), 'forge-add-'));
+    dirs.push(dir);
+    await writeFile(join(dir, 'package.json'), JSON.stringify(pkg, null, 4) + '\n');
+    return dir;
+  }
+
+  it('should add vitest without clobbering existing entries', async () => {
+    const dir = await createPackage({
+      name: 'existing-package',
+      type: 'module',
+      scripts: { test: 'node --test' },
+      devDependencies: { typescript: '^5.0.0' },
+    });
+
+    const { plan, errors } = await planFeature('vitest', dir);
+    expect(errors).toEqual([]);
+    expect([...plan!.files.keys()]).toEqual(['vitest.config.ts']);
+
+    const result = await applyFeaturePlan(plan!, dir);
+
+    expect(result.written).toEqual(['vitest.config.ts']);
+    expect(result.kept).toEqual(['scripts.test']);
+    expect(existsSync(join(dir, 'vitest.config.ts'))).toBe(true);
+
+    const raw = await readFile(join(dir, 'package.json'), 'utf-8');
+    const pkg = JSON.parse(raw);
+    expect(pkg.scripts.test).toBe('node --test');
+    expect(pkg.scripts['test:watch']).toBe('vitest');
+    expect(pkg.devDependencies.typescript).toBe('^5.0.0');
+    expect(pkg.devDependencies.vitest).toMatch(/^\^\d+/);
+    // Original indentation is kept
+    expect(raw).toContain('\n    "name"');
+  }, 30000);
+
+  it('should only record the files it wrote as upgrade bases', async () => {
+    const dir = await createPackage({ name: 'tracked-package', type: 'module' });
+    const ownConfig = 'export default { test: { globals: true } };\n';
+    await writeFile(join(dir, 'vitest.config.ts'), ownConfig);
+    await writeFile(
+      join(dir, '.forge'),
+      JSON.stringify({ generatorVersion: '0.0.1', config: {}, templates: {} })
+    );
+
+    const { plan } = await planFeature('vitest', dir);
+    const result = await applyFeaturePlan(plan!, dir);
+
+    expect(result.skipped).toEqual(['vitest.config.ts']);
+    expect(await readFile(join(dir, 'vitest.config.ts'), 'utf-8')).toBe(ownConfig);
+    const metadata = JSON.parse(await readFile(join(dir, '.forge'), 'utf-8'));
+    expect(metadata.templates).not.toHaveProperty(['vitest.config.ts']);
+  }, 30000);
+
+  it('should refuse a second test runner', async () => {
+    const dir = await createPackage({ name: 'jest-package', devDependencies: { jest: '^30.0.0' } });
+
+    const { plan, errors } = await planFeature('vitest', dir);
+
+    expect(plan).toBeUndefined();
+    expect(errors).toEqual(['This package already uses jest.']);
+  });
+
+  it('should require CI before CD', async () => {
+    const dir = await createPackage({ name: 'no-ci-package' });
+
+    const { errors } = await planFeature('cd', dir);
+
+    expect(errors[0]).toContain('add ci');
+  });
+});
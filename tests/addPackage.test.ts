@@ -0,0 +1,83 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdtemp, mkdir, rm, readFile, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createProject,
+  planWorkspacePackage,
+  applyWorkspacePackagePlan,
+  type ProjectConfig,
+} from '../src/api.js';
+
+describe('add package <name> (real npm registry)', () => {
+  const dirs: string[] = [];
+
+  afterAll(async () => {
+    await Promise.all(dirs.map(dir => rm(dir, { recursive: true, force: true })));
+  });
+
+  async function createRoot(): Promise<string> {
+    const dir = await mkdtemp(join(tmpdir(), 'forge-add-package-'));
+    dirs.push(dir);
+    return dir;
+  }
+
+  it('should add a member with the workspace settings', async () => {
+    const root = join(await createRoot(), 'tools');
+    const config: ProjectConfig = {
+      packageName: 'tools',
+      workspace: true,
+      language: 'typescript',
+      moduleType: 'esm',
+      testRunner: 'vitest',
+      useLinting: true,
+      initGit: false,
+      setupCI: true,
+      setupCD: false,
+      packageManager: 'npm',
+    };
+    await createProject(config, root);
+
+    const { plan, errors } = await planWorkspacePackage('@acme/cli-tool', root, {
+      projectKind: 'cli',
+    });
+    expect(errors).toEqual([]);
+    expect(plan!.dir).toBe('packages/cli-tool');
+    expect(plan!.config.moduleType).toBe('esm');
+    expect(plan!.files.has('eslint.config.js')).toBe(false);
+
+    const { written } = await applyWorkspacePackagePlan(plan!, root);
+
+    expect(written).toEqual(
+      expect.arrayContaining(['packages/cli-tool/package.json', 'packages/cli-tool/src/cli.ts'])
+    );
+    const pkg = JSON.parse(await readFile(join(root, 'packages/cli-tool/package.json'), 'utf-8'));
+    expect(pkg.name).toBe('@acme/cli-tool');
+    expect(pkg.bin).toEqual({ 'cli-tool': './dist/cli.js' });
+  }, 30000);
+
+  it('should refuse an existing member directory', async () => {
+    const root = await createRoot();
+    await writeFile(
+      join(root, 'package.json'),
+      JSON.stringify({ name: 'root', private: true, workspaces: ['packages/*'] })
+    );
+    await mkdir(join(root, 'packages/utils'), { recursive: true });
+
+    const { plan, errors } = await planWorkspacePackage('utils', root);
+
+    expect(plan).toBeUndefined();
+    expect(errors).toEqual(['packages/utils already exists']);
+  });
+
+  it('should require a workspace root', async () => {
+    const root = await createRoot();
+    await writeFile(join(root, 'package.json'), JSON.stringify({ name: 'single' }));
+
+    const { errors } = await planWorkspacePackage('utils', root);
+
+    expect(errors[0]).toMatch(/is not a workspace root/);
+    expect(existsSync(join(root, 'packages'))).toBe(false);
+  });
+});
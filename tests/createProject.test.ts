@@ -0,0 +1,177 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdtemp, rm, readFile, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createProject,
+  detectProjectConfig,
+  generateProjectFiles,
+  type ProjectConfig,
+} from '../src/api.js';
+
+describe('createProject (programmatic API)', () => {
+  const dirs: string[] = [];
+
+  afterAll(async () => {
+    await Promise.all(dirs.map(dir => rm(dir, { recursive: true, force: true })));
+  });
+
+  const config: ProjectConfig = {
+    packageName: 'api-test-package',
+    language: 'typescript',
+    moduleType: 'dual',
+    testRunner: 'vitest',
+    useLinting: true,
+    initGit: false,
+    setupCI: true,
+    setupCD: true,
+    useDependabot: true,
+    packageManager: 'npm',
+  };
+
+  it('should write the project and return a structured result', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'forge-api-'));
+    dirs.push(root);
+    const targetDir = join(root, config.packageName);
+
+    const result = await createProject(config, targetDir);
+
+    expect(result.targetDir).toBe(targetDir);
+    expect(result.files).toEqual(
+      expect.arrayContaining([
+        'src/index.ts',
+        'src/index.test.ts',
+        'package.json',
+        'tsconfig.json',
+        'eslint.config.js',
+        'vitest.config.ts',
+        '.github/workflows/ci.yml',
+        '.github/workflows/publish.yml',
+        '.github/dependabot.yml',
+        '.github/workflows/dependabot-auto-merge.yml',
+        'scripts/release.mjs',
+        'scripts/get-token.mjs',
+      ])
+    );
+
+    // Every reported file exists on disk
+    for (const file of result.files) {
+      await expect(stat(join(targetDir, file))).resolves.toBeDefined();
+    }
+
+    // Resolved versions match what was written
+    const pkg = JSON.parse(await readFile(join(targetDir, 'package.json'), 'utf-8'));
+    expect(result.versions.devDependencies).toEqual(pkg.devDependencies);
+    expect(result.versions.node.ciMatrix.length).toBeGreaterThan(0);
+    expect(result.versions.actions['actions/checkout']).toMatch(/^v\d+$/);
+    expect(Array.isArray(result.warnings)).toBe(true);
+  }, 30000);
+
+  it('should be detected back as the same configuration', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'forge-api-'));
+    dirs.push(root);
+    const targetDir = join(root, 'detect-test-package');
+    const jsConfig: ProjectConfig = {
+      packageName: 'detect-test-package',
+      projectKind: 'cli',
+      workspace: false,
+      language: 'javascript',
+      moduleType: 'esm',
+      testRunner: 'jest',
+      useLinting: true,
+      initGit: false,
+      setupCI: true,
+      setupCD: true,
+      publishAuth: 'provenance',
+      releaseStrategy: 'script',
+      useCodecov: true,
+      useDependabot: false,
+      packageManager: 'npm',
+      description: 'Round trip',
+      author: 'Jane Doe',
+      authorEmail: 'jane@example.com',
+      githubUsername: 'janedoe',
+    };
+
+    const result = await createProject(jsConfig, targetDir);
+    const { config } = await detectProjectConfig(targetDir);
+
+    expect(config).toEqual(jsConfig);
+
+    // JavaScript bins run straight from src/
+    expect(result.files).toEqual(expect.arrayContaining(['src/cli.js', 'src/cli.test.js']));
+    if (process.platform !== 'win32') {
+      expect((await stat(join(targetDir, 'src/cli.js'))).mode & 0o777).toBe(0o755);
+    }
+  }, 30000);
+
+  it('should generate a workspace root with the package under packages/', async () => {
+    const { files } = await generateProjectFiles({
+      ...config,
+      packageName: '@acme/core',
+      workspace: true,
+      setupCD: false,
+      packageManager: 'pnpm',
+    });
+
+    expect([...files.keys()]).toEqual(
+      expect.arrayContaining([
+        'package.json',
+        'pnpm-workspace.yaml',
+        'tsconfig.base.json',
+        'eslint.config.js',
+        '.github/workflows/ci.yml',
+        'packages/core/package.json',
+        'packages/core/tsconfig.json',
+        'packages/core/src/index.ts',
+      ])
+    );
+    // Shared config lives only at the root
+    expect(files.has('packages/core/eslint.config.js')).toBe(false);
+    expect(files.has('packages/core/.github/workflows/ci.yml')).toBe(false);
+
+    const rootPkg = JSON.parse(files.get('package.json')!.content);
+    expect(rootPkg.private).toBe(true);
+    expect(rootPkg.workspaces).toBeUndefined();
+    expect(rootPkg.scripts.build).toBe('pnpm -r --if-present run build');
+    expect(rootPkg.devDependencies.eslint).toBeDefined();
+
+    const memberPkg = JSON.parse(files.get('packages/core/package.json')!.content);
+    expect(memberPkg.name).toBe('@acme/core');
+    expect(memberPkg.devDependencies.eslint).toBeUndefined();
+    expect(JSON.parse(files.get('packages/core/tsconfig.json')!.content).extends).toBe(
+      '../../tsconfig.base.json'
+    );
+  }, 30000);
+
+  it('should generate Changesets config and workflows instead of the release script', async () => {
+    const { files } = await generateProjectFiles({ ...config, releaseStrategy: 'changesets' });
+
+    expect([...files.keys()]).toEqual(
+      expect.arrayContaining([
+        '.changeset/config.json',
+        '.changeset/README.md',
+        '.github/workflows/version.yml',
+        '.github/workflows/publish.yml',
+        'scripts/get-token.mjs',
+      ])
+    );
+    expect(files.has('scripts/release.mjs')).toBe(false);
+
+    const pkg = JSON.parse(files.get('package.json')!.content);
+    expect(pkg.devDependencies['@changesets/cli']).toMatch(/^\^\d+/);
+    expect(pkg.scripts.changeset).toBe('changeset');
+  }, 30000);
+
+  it('should seed the release-please manifest with the package version', async () => {
+    const { files } = await generateProjectFiles({ ...config, releaseStrategy: 'release-please' });
+
+    expect(files.has('release-please-config.json')).toBe(true);
+    expect(files.has('scripts/release.mjs')).toBe(false);
+    const pkg = JSON.parse(files.get('package.json')!.content);
+    expect(JSON.parse(files.get('.release-please-manifest.json')!.content)).toEqual({
+      '.': pkg.version,
+    });
+    expect(pkg.version).toBe('0.1.0');
+  }, 30000);
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdtemp, rm, readFile, writeFile, unlink } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createProject, type ProjectConfig } from '../src/api.js';
+import { planUpgrade, applyUpgradePlan } from '../src/utils/upgrade.js';
+import { readForgeMetadata, GENERATOR_VERSION } from '../src/utils/forgeMetadata.js';
+
+describe('upgrade (real npm registry)', () => {
+  const dirs: string[] = [];
+
+  afterAll(async () => {
+    await Promise.all(dirs.map(dir => rm(dir, { recursive: true, force: true })));
+  });
+
+  const config: ProjectConfig = {
+    packageName: 'upgrade-test-package',
+    language: 'typescript',
+    moduleType: 'esm',
+    testRunner: 'vitest',
+    useLinting: false,
+    initGit: false,
+    setupCI: true,
+    packageManager: 'npm',
+  };
+
+  async function createOldProject(): Promise<string> {
+    const root = await mkdtemp(join(tmpdir(), 'forge-upgrade-'));
+    dirs.push(root);
+    const targetDir = join(root, config.packageName);
+    await createProject(config, targetDir);
+    return targetDir;
+  }
+
+  /**
+   * Pretends an older generator produced `path` with `from` where the current template has `to`
+   */
+  async function ageTemplate(dir: string, path: string, to: string, from: string) {
+    const metadataPath = join(dir, '.forge');
+    const metadata = JSON.parse(await readFile(metadataPath, 'utf-8'));
+    metadata.generatorVersion = '0.0.1';
+    metadata.templates[path] = metadata.templates[path].replace(to, from);
+    await writeFile(metadataPath, JSON.stringify(metadata));
+    const filePath = join(dir, path);
+    await writeFile(filePath, (await readFile(filePath, 'utf-8')).replace(to, from));
+  }
+
+  it('should record the generator version and templates in .forge', async () => {
+    const dir = await createOldProject();
+    const metadata = await readForgeMetadata(dir);
+
+    expect(metadata?.generatorVersion).toBe(GENERATOR_VERSION);
+    expect(Object.keys(metadata!.templates)).toContain('tsconfig.json');
+    expect(Object.keys(metadata!.templates)).not.toContain('package.json');
+    expect(Object.keys(metadata!.templates)).not.toContain('src/index.ts');
+  }, 30000);
+
+  it('should merge template changes while keeping user edits', async () => {
+    const dir = await createOldProject();
+    await ageTemplate(dir, 'tsconfig.json', '"sourceMap": true', '"sourceMap": false');
+    const tsconfigPath = join(dir, 'tsconfig.json');
+    await writeFile(
+      tsconfigPath,
+      (await readFile(tsconfigPath, 'utf-8')).replace(
+        '"strict": true,',
+        '"strict": true,\n    "noUncheckedIndexedAccess": true,'
+      )
+    );
+
+    const { plan, errors } = await planUpgrade(dir);
+    expect(errors).toEqual([]);
+    expect(plan!.fromVersion).toBe('0.0.1');
+    expect(plan!.files.find(file => file.path === 'tsconfig.json')?.status).toBe('merged');
+
+    const { written } = await applyUpgradePlan(plan!, dir);
+
+    expect(written).toEqual(['tsconfig.json']);
+    const tsconfig = await readFile(tsconfigPath, 'utf-8');
+    expect(tsconfig).toContain('"sourceMap": true');
+    expect(tsconfig).toContain('"noUncheckedIndexedAccess": true');
+    expect((await readForgeMetadata(dir))?.generatorVersion).toBe(GENERATOR_VERSION);
+  }, 30000);
+
+  it('should keep user lines for conflicts and leave deleted files deleted', async () => {
+    const dir = await createOldProject();
+    await ageTemplate(dir, 'tsup.config.ts', 'dts: true', 'dts: false');
+    const tsupPath = join(dir, 'tsup.config.ts');
+    await writeFile(
+      tsupPath,
+      (await readFile(tsupPath, 'utf-8')).replace('dts: false', "dts: { entry: 'src/index.ts' }")
+    );
+    await unlink(join(dir, 'vitest.config.ts'));
+
+    const { plan } = await planUpgrade(dir);
+    const statuses = Object.fromEntries(plan!.files.map(file => [file.path, file.status]));
+    expect(statuses['tsup.config.ts']).toBe('conflict');
+    expect(statuses['vitest.config.ts']).toBe('deleted');
+
+    await applyUpgradePlan(plan!, dir);
+
+    expect(await readFile(tsupPath, 'utf-8')).toContain("dts: { entry: 'src/index.ts' }");
+  }, 30000);
+
+  it('should only report differences when there is no .forge base', async () => {
+    const dir = await createOldProject();
+    await unlink(join(dir, '.forge'));
+    const ciPath = join(dir, '.github/workflows/ci.yml');
+    const edited = (await readFile(ciPath, 'utf-8')) + '# custom\n';
+    await writeFile(ciPath, edited);
+
+    const { plan } = await planUpgrade(dir);
+    expect(plan!.fromVersion).toBeUndefined();
+    expect(plan!.files.find(file => file.path === '.github/workflows/ci.yml')?.status).toBe(
+      'no-base'
+    );
+
+    const { written } = await applyUpgradePlan(plan!, dir);
+
+    expect(written).toEqual([]);
+    expect(await readFile(ciPath, 'utf-8')).toBe(edited);
+    expect(await readForgeMetadata(dir)).not.toBeNull();
+  }, 30000);
+
+  it('should keep offering skipped template changes on the next upgrade', async () => {
+    const dir = await createOldProject();
+    await unlink(join(dir, '.forge'));
+    const ciPath = join(dir, '.github/workflows/ci.yml');
+    const edited = (await readFile(ciPath, 'utf-8')) + '# custom\n';
+    await writeFile(ciPath, edited);
+
+    const first = await planUpgrade(dir);
+    await applyUpgradePlan(first.plan!, dir);
+    expect((await readForgeMetadata(dir))!.templates).not.toHaveProperty([
+      '.github/workflows/ci.yml',
+    ]);
+    expect((await readForgeMetadata(dir))!.templates).toHaveProperty(['tsconfig.json']);
+
+    const second = await planUpgrade(dir);
+    const ci = second.plan!.files.find(file => file.path === '.github/workflows/ci.yml');
+    expect(ci?.status).toBe('no-base');
+    expect(ci?.template).not.toBe(edited);
+
+    const { written } = await applyUpgradePlan(second.plan!, dir);
+    expect(written).toEqual([]);
+    expect(await readFile(ciPath, 'utf-8')).toBe(edited);
+  }, 30000);
+
+  it('should keep the previous base of conflicting files', async () => {
+    const dir = await createOldProject();
+    await ageTemplate(dir, 'tsup.config.ts', 'dts: true', 'dts: false');
+    const tsupPath = join(dir, 'tsup.config.ts');
+    await writeFile(
+      tsupPath,
+      (await readFile(tsupPath, 'utf-8')).replace('dts: false', "dts: { entry: 'src/index.ts' }")
+    );
+    const oldBase = (await readForgeMetadata(dir))!.templates['tsup.config.ts'];
+
+    const { plan } = await planUpgrade(dir);
+    await applyUpgradePlan(plan!, dir);
+
+    expect((await readForgeMetadata(dir))!.templates['tsup.config.ts']).toBe(oldBase);
+    const again = await planUpgrade(dir);
+    expect(again.plan!.files.find(file => file.path === 'tsup.config.ts')?.status).toBe('conflict');
+  }, 30000);
+
+  it('should regenerate templates for the config recorded in .forge', async () => {
+    const dir = await createOldProject();
+    // A pnpm package created with --skip-install has no lockfile to detect pnpm from
+    const metadataPath = join(dir, '.forge');
+    const metadata = JSON.parse(await readFile(metadataPath, 'utf-8'));
+    metadata.config.packageManager = 'pnpm';
+    await writeFile(metadataPath, JSON.stringify(metadata));
+
+    const { plan } = await planUpgrade(dir);
+
+    expect(plan!.config.packageManager).toBe('pnpm');
+    expect(plan!.files.find(file => file.path === '.github/workflows/ci.yml')?.template).toContain(
+      'pnpm install --frozen-lockfile'
+    );
+  }, 30000);
+});
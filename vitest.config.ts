@@ -4,6 +4,8 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'node',
+    // Every test sees the network as it is, not what an earlier run cached
+    env: { FORGE_NPM_PKG_NO_CACHE: '1' },
     coverage: {
       provider: 'v8',
       reporter: ['text', 'json', 'html'],